@@ -286,6 +286,7 @@ declare module "web3" {
     // TODO block param
     call(callData: CallData): string;
     call(callData: CallData, callback: (err: Error, result: string) => void): void;
+    call(callData: CallData, defaultBlock: BlockParam, callback: (err: Error, result: string) => void): void;
 
     estimateGas(callData: CallData): number;
     estimateGas(callData: CallData, callback: (err: Error, gas: number) => void): void;
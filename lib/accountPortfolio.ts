@@ -0,0 +1,501 @@
+import { BigNumber } from "bignumber.js";
+import { promisify } from "es6-promisify";
+import { Address, BinaryVoteResult, Hash } from "./commonTypes";
+import { DAO, DaoSchemeInfo } from "./dao";
+import {
+  ArcTransactionResult,
+  DecodedLogEntryEvent,
+  IContractWrapper,
+  IContractWrapperFactory,
+} from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { RedemptionAmounts, RedemptionPlanItem, RedemptionService } from "./redemptionService";
+import { Utils } from "./utils";
+import { UtilsInternal } from "./utilsInternal";
+import { VestingSchedule } from "./vestingSchedule";
+import { Auction4ReputationWrapper, GetBidAuctionIdsResult } from "./wrappers/auction4Reputation";
+import { FixedReputationAllocationWrapper } from "./wrappers/fixedReputationAllocation";
+import { Locking4ReputationWrapper } from "./wrappers/locking4Reputation";
+import {
+  ProposedVestedAgreementEventResult,
+  VestingSchemeSchemeProposalExecuted,
+  VestingSchemeWrapper,
+} from "./wrappers/vestingScheme";
+import { WrapperService } from "./wrapperService";
+
+/**
+ * Reports what an account holds and has yet to claim in each DAO: its reputation and native
+ * token balances, and the rewards it can claim right now, each with the wrapper call that claims it.
+ *
+ * See [Account Portfolios](/Proposals.md#accountportfolios).
+ */
+export class AccountPortfolio {
+
+  /**
+   * Returns the promise of the given account's holdings in every DAO created by the DaoCreator,
+   * or in the DAOs given by `options.avatarAddresses`.
+   * @param accountAddress
+   * @param options
+   */
+  public static async get(
+    accountAddress: Address,
+    options: GetAccountPortfolioOptions = {}): Promise<AccountPortfolioResult> {
+
+    if (!accountAddress) {
+      throw new Error("accountAddress is not defined");
+    }
+
+    const avatarAddresses = options.avatarAddresses ||
+      await DAO.getDaos({ daoCreatorAddress: options.daoCreatorAddress });
+
+    const daos = new Array<DaoHoldings>();
+    const reportedAgreements = new Set<string>();
+
+    for (const avatarAddress of avatarAddresses) {
+      daos.push(await AccountPortfolio.getDaoHoldings(accountAddress, avatarAddress, reportedAgreements));
+    }
+
+    return { accountAddress, daos };
+  }
+
+  /**
+   * Claim the given reward by making its wrapper call.
+   * @param claimable
+   */
+  public static async claim(claimable: Claimable): Promise<ArcTransactionResult> {
+    const wrapper: ClaimingWrapper =
+      await WrapperService.getContractWrapper(claimable.call.contractName, claimable.call.address);
+
+    if (!wrapper) {
+      throw new Error(`AccountPortfolio.claim: ${claimable.call.contractName} not found at ${claimable.call.address}`);
+    }
+
+    const method = wrapper[claimable.call.method];
+
+    if (!method) {
+      throw new Error(`AccountPortfolio.claim: ${claimable.call.contractName} has no method ${claimable.call.method}`);
+    }
+
+    return method.call(wrapper, claimable.call.options);
+  }
+
+  /**
+   * The wrappers of the reputation-minting contracts, which are deployed per DAO and so
+   * are recognized by their code.
+   */
+  private static reputationMinterNames: Array<ReputationMinterName> = [
+    "Auction4Reputation",
+    "ExternalLocking4Reputation",
+    "FixedReputationAllocation",
+    "LockingEth4Reputation",
+    "LockingToken4Reputation",
+  ];
+
+  /**
+   * @param accountAddress
+   * @param avatarAddress
+   * @param reportedAgreements The vesting agreements, not made by any DAO's proposal, that have already
+   * been reported with another DAO
+   */
+  private static async getDaoHoldings(
+    accountAddress: Address,
+    avatarAddress: Address,
+    reportedAgreements: Set<string>): Promise<DaoHoldings> {
+
+    const dao = await DAO.at(avatarAddress);
+    const schemes = await dao.getSchemes();
+    const claimables = new Array<Claimable>();
+
+    const sources: Array<() => Promise<Array<Claimable>>> = [
+      (): Promise<Array<Claimable>> => AccountPortfolio.getProposalRewards(accountAddress, avatarAddress),
+      (): Promise<Array<Claimable>> =>
+        AccountPortfolio.getVestingClaimables(accountAddress, avatarAddress, schemes, reportedAgreements),
+      (): Promise<Array<Claimable>> => AccountPortfolio.getReputationMinterClaimables(accountAddress, schemes),
+    ];
+
+    for (const source of sources) {
+      try {
+        claimables.push(...await source());
+      } catch (ex) {
+        LoggingService.error(`AccountPortfolio: error finding rewards in ${avatarAddress}: ${ex}`);
+      }
+    }
+
+    return {
+      avatarAddress,
+      claimables,
+      daoName: dao.name,
+      nativeTokens: await dao.token.getBalanceOf(accountAddress),
+      reputation: await dao.reputation.getBalanceOf(accountAddress),
+    };
+  }
+
+  /**
+   * GenesisProtocol staking, voting and proposing rewards, DAO bounties and ContributionReward payouts
+   */
+  private static async getProposalRewards(accountAddress: Address, avatarAddress: Address): Promise<Array<Claimable>> {
+    const plan = await RedemptionService.getRedemptionPlan({
+      avatarAddress,
+      beneficiaryAddresses: [accountAddress],
+    });
+
+    return plan.map((item: RedemptionPlanItem): Claimable => {
+      return {
+        amounts: item.amounts,
+        call: item.method === "Redeemer" ?
+          {
+            address: item.schemeAddress,
+            contractName: "Redeemer",
+            method: "redeem",
+            options: {
+              avatarAddress: item.avatarAddress,
+              beneficiaryAddress: item.beneficiaryAddress,
+              proposalId: item.proposalId,
+            },
+          } :
+          {
+            address: item.schemeAddress,
+            contractName: "ContributionReward",
+            method: "redeemContributionReward",
+            options: {
+              avatar: item.avatarAddress,
+              ethers: item.amounts.eth.gt(0),
+              externalTokens: item.amounts.externalToken.gt(0),
+              nativeTokens: item.amounts.nativeToken.gt(0),
+              proposalId: item.proposalId,
+              reputation: !item.amounts.reputation.isZero(),
+            },
+          },
+        proposalId: item.proposalId,
+      };
+    });
+  }
+
+  /**
+   * Periods of vesting agreements, made by the DAO's VestingSchemes, that the account can collect.
+   * Agreements made directly with `VestingScheme.create` belong to no DAO, so are reported with the
+   * first DAO that uses the VestingScheme.
+   */
+  private static async getVestingClaimables(
+    accountAddress: Address,
+    avatarAddress: Address,
+    schemes: Array<DaoSchemeInfo>,
+    reportedAgreements: Set<string>): Promise<Array<Claimable>> {
+
+    const claimables = new Array<Claimable>();
+
+    for (const scheme of schemes) {
+      if (!scheme.wrapper || (scheme.wrapper.name !== "VestingScheme")) {
+        continue;
+      }
+
+      const vestingScheme = scheme.wrapper as VestingSchemeWrapper;
+
+      /**
+       * the proposals of this DAO that made agreements, by agreement
+       */
+      const proposalIds = new Map<number, Hash>();
+      const executed: Array<VestingSchemeSchemeProposalExecuted> =
+        await vestingScheme.getExecutedProposals(avatarAddress)({}, { fromBlock: 0 }).get();
+
+      for (const proposal of executed) {
+        if (Number(proposal.winningVote) === BinaryVoteResult.Yes) {
+          proposalIds.set(proposal.agreementId, proposal.proposalId);
+        }
+      }
+
+      const proposedAgreementIds = new Set<number>(
+        (await vestingScheme.ProposedVestedAgreement({}, { fromBlock: 0 }).get())
+          .map((event: DecodedLogEntryEvent<ProposedVestedAgreementEventResult>) =>
+            event.args._agreementId.toNumber()));
+
+      const agreements = await VestingSchedule.getAgreements(vestingScheme, { beneficiaryAddress: accountAddress });
+
+      for (const agreement of agreements) {
+        const proposalId = proposalIds.get(agreement.agreementId);
+
+        if (!proposalId) {
+          if (proposedAgreementIds.has(agreement.agreementId)) {
+            continue; // made by another DAO's proposal
+          }
+
+          const key = `${vestingScheme.address}:${agreement.agreementId}`;
+          if (reportedAgreements.has(key)) {
+            continue;
+          }
+          reportedAgreements.add(key);
+        }
+
+        if (agreement.collectableAmount.isZero()) {
+          continue;
+        }
+
+        claimables.push({
+          agreementId: agreement.agreementId,
+          amounts: AccountPortfolio.amounts({
+            externalToken: agreement.collectableAmount,
+          }),
+          call: {
+            address: vestingScheme.address,
+            contractName: "VestingScheme",
+            method: "collect",
+            options: { agreementId: agreement.agreementId },
+          },
+          externalTokenAddress: agreement.tokenAddress,
+          proposalId,
+        });
+      }
+    }
+
+    return claimables;
+  }
+
+  /**
+   * Reputation that the account can redeem from the DAO's Locking4Reputation, Auction4Reputation
+   * and FixedReputationAllocation contracts
+   */
+  private static async getReputationMinterClaimables(
+    accountAddress: Address,
+    schemes: Array<DaoSchemeInfo>): Promise<Array<Claimable>> {
+
+    const claimables = new Array<Claimable>();
+
+    for (const scheme of schemes) {
+      if (scheme.wrapper) {
+        continue; // universal schemes are deployed by Arc.js, the reputation minters are not
+      }
+
+      const contractName = await AccountPortfolio.identifyReputationMinter(scheme.address);
+
+      switch (contractName) {
+        case "Auction4Reputation":
+          claimables.push(...await AccountPortfolio.getAuctionClaimables(
+            accountAddress,
+            await WrapperService.factories.Auction4Reputation.at(scheme.address)));
+          break;
+        case "FixedReputationAllocation":
+          const fixedClaimable = await AccountPortfolio.getFixedAllocationClaimable(
+            accountAddress,
+            await WrapperService.factories.FixedReputationAllocation.at(scheme.address));
+          if (fixedClaimable) {
+            claimables.push(fixedClaimable);
+          }
+          break;
+        case "ExternalLocking4Reputation":
+        case "LockingEth4Reputation":
+        case "LockingToken4Reputation":
+          const factory = WrapperService.factories[contractName] as IContractWrapperFactory<Locking4ReputationWrapper>;
+          const lockingClaimable = await AccountPortfolio.getLockingClaimable(
+            accountAddress,
+            contractName,
+            await factory.at(scheme.address));
+          if (lockingClaimable) {
+            claimables.push(lockingClaimable);
+          }
+          break;
+      }
+    }
+
+    return claimables;
+  }
+
+  private static async getLockingClaimable(
+    accountAddress: Address,
+    contractName: ReputationMinterName,
+    locking: Locking4ReputationWrapper): Promise<Claimable | undefined> {
+
+    let reputation: BigNumber;
+
+    try {
+      reputation = await locking.getUserEarnedReputation({ lockerAddress: accountAddress });
+    } catch (ex) {
+      return undefined; // not yet redeemable
+    }
+
+    return reputation.gt(0) ? {
+      amounts: AccountPortfolio.amounts({ reputation }),
+      call: {
+        address: locking.address,
+        contractName,
+        method: "redeem",
+        options: { lockerAddress: accountAddress },
+      },
+    } : undefined;
+  }
+
+  private static async getAuctionClaimables(
+    accountAddress: Address,
+    auction: Auction4ReputationWrapper): Promise<Array<Claimable>> {
+
+    const claimables = new Array<Claimable>();
+    const auctionIds = new Set<number>(
+      (await auction.getBids(accountAddress)).map((bid: GetBidAuctionIdsResult) => bid.auctionId));
+
+    for (const auctionId of auctionIds) {
+      let reputation: BigNumber;
+
+      try {
+        reputation = await auction.getUserEarnedReputation({ auctionId, beneficiaryAddress: accountAddress });
+      } catch (ex) {
+        continue; // not redeemable, as when not yet ended or already redeemed
+      }
+
+      if (reputation.gt(0)) {
+        claimables.push({
+          amounts: AccountPortfolio.amounts({ reputation }),
+          auctionId,
+          call: {
+            address: auction.address,
+            contractName: "Auction4Reputation",
+            method: "redeem",
+            options: { auctionId, beneficiaryAddress: accountAddress },
+          },
+        });
+      }
+    }
+
+    return claimables;
+  }
+
+  private static async getFixedAllocationClaimable(
+    accountAddress: Address,
+    allocation: FixedReputationAllocationWrapper): Promise<Claimable | undefined> {
+
+    if (!(await allocation.getBeneficiaryAdded(accountAddress)) ||
+      !(await allocation.getIsEnable()) ||
+      ((await UtilsInternal.lastBlockDate()) <= (await allocation.getRedeemEnableTime()))) {
+      return undefined;
+    }
+
+    return {
+      amounts: AccountPortfolio.amounts({ reputation: await allocation.getBeneficiaryReward() }),
+      call: {
+        address: allocation.address,
+        contractName: "FixedReputationAllocation",
+        method: "redeem",
+        options: { beneficiaryAddress: accountAddress },
+      },
+    };
+  }
+
+  /**
+   * Returns the name of the reputation-minting contract whose code is at the given address,
+   * or undefined if it is not one.
+   */
+  private static async identifyReputationMinter(address: Address): Promise<ReputationMinterName | undefined> {
+    const web3 = await Utils.getWeb3();
+    const code = await promisify((callback: any): void => web3.eth.getCode(address, callback))();
+
+    for (const contractName of AccountPortfolio.reputationMinterNames) {
+      const solidityContract = await WrapperService.factories[contractName].ensureSolidityContract();
+      if (solidityContract.deployedBytecode === code) {
+        return contractName;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static amounts(amounts: Partial<RedemptionAmounts>): RedemptionAmounts {
+    const zero = new BigNumber(0);
+    return Object.assign({
+      eth: zero,
+      externalToken: zero,
+      nativeToken: zero,
+      reputation: zero,
+      stakingToken: zero,
+    }, amounts);
+  }
+}
+
+export type ReputationMinterName =
+  "Auction4Reputation" |
+  "ExternalLocking4Reputation" |
+  "FixedReputationAllocation" |
+  "LockingEth4Reputation" |
+  "LockingToken4Reputation";
+
+export interface GetAccountPortfolioOptions {
+  /**
+   * The DAOs in which to report the account's holdings.  Default is every DAO created by the DaoCreator.
+   */
+  avatarAddresses?: Array<Address>;
+  /**
+   * The DaoCreator whose DAOs to scan when `avatarAddresses` is not given.
+   * Default is the DaoCreator deployed by the running version of Arc.js.
+   */
+  daoCreatorAddress?: Address;
+}
+
+export interface AccountPortfolioResult {
+  accountAddress: Address;
+  daos: Array<DaoHoldings>;
+}
+
+export interface DaoHoldings {
+  avatarAddress: Address;
+  /**
+   * The rewards that the account can claim from the DAO right now
+   */
+  claimables: Array<Claimable>;
+  daoName: string;
+  /**
+   * The account's balance of the DAO's native token, in Wei
+   */
+  nativeTokens: BigNumber;
+  /**
+   * The account's reputation in the DAO, in Wei
+   */
+  reputation: BigNumber;
+}
+
+/**
+ * A reward that can be claimed right now
+ */
+export interface Claimable {
+  /**
+   * When claimed from a VestingScheme, the agreement
+   */
+  agreementId?: number;
+  /**
+   * The amounts that will be claimed.  A negative `reputation` is reputation that the claim takes away,
+   * as when a ContributionReward proposal both pays and penalizes the account.
+   */
+  amounts: RedemptionAmounts;
+  /**
+   * When claimed from an Auction4Reputation, the auction
+   */
+  auctionId?: number;
+  /**
+   * The wrapper call that claims the reward.  Pass the `Claimable` to `AccountPortfolio.claim` to make it.
+   */
+  call: ClaimCall;
+  /**
+   * The token of `amounts.externalToken`, when known
+   */
+  externalTokenAddress?: Address;
+  /**
+   * When the reward comes from a proposal, the proposal
+   */
+  proposalId?: Hash;
+}
+
+/**
+ * A call to a method of a contract wrapper, like
+ * `(await WrapperService.getContractWrapper(contractName, address))[method](options)`.
+ */
+export interface ClaimCall {
+  address: Address;
+  contractName: string;
+  method: ClaimMethodName;
+  options: any;
+}
+
+export type ClaimMethodName = "collect" | "redeem" | "redeemContributionReward";
+
+/**
+ * A contract wrapper with whichever of the methods that claim rewards it has
+ */
+type ClaimingWrapper = IContractWrapper & {
+  [method in ClaimMethodName]?: (options: any) => Promise<ArcTransactionResult>;
+};
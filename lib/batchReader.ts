@@ -0,0 +1,393 @@
+import { Address, fnVoid } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { LoggingService } from "./loggingService";
+
+/**
+ * Batches the read-only requests that contract wrapper functions make to the node,
+ * such as `GenesisProtocolWrapper.getProposalStatus` or `DAO.getTokenBalance`, so that many of them
+ * are sent in a single JSON-RPC batch request, or, when the "multicallAddress" configuration
+ * setting is given, in a single call to a [Multicall](https://github.com/makerdao/multicall) contract.
+ *
+ * Add the functions whose requests you want batched and then execute them all at once:
+ *
+ * ```javascript
+ * const reader = new BatchReader();
+ * const statuses = proposalIds.map((proposalId) =>
+ *   reader.add(() => genesisProtocol.getProposalStatus({ proposalId })));
+ * const balance = reader.add(() => dao.getTokenBalance(account));
+ * await reader.execute();
+ * // each of the promises returned by `add` resolves to its own result
+ * ```
+ *
+ * Only the requests made by the functions are batched, not those made at the same time by other code.
+ *
+ * See [Batching Reads](/Wrappers.md#batchreads).
+ */
+export class BatchReader {
+
+  private functions: Array<() => Promise<void>> = new Array<() => Promise<void>>();
+
+  constructor(private options: BatchReaderOptions = {}) {
+  }
+
+  /**
+   * Add a function to be invoked by `execute`.  Returns a promise of the function's result
+   * that resolves or rejects when the function does, after `execute` has been called.
+   * @param fn A function that calls read-only contract wrapper functions
+   */
+  public add<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve: (value: T) => void, reject: (error: Error) => void): void => {
+      this.functions.push((): Promise<void> => fn().then(resolve, reject));
+    });
+  }
+
+  /**
+   * Invoke concurrently all of the functions that have been added since the last call to `execute`,
+   * batching the requests that they make to the node.  Returns a promise that resolves once every
+   * function has completed.  Does not reject, get the result or error of each function from the
+   * promise returned by `add`.
+   */
+  public async execute(): Promise<void> {
+    const functions = this.functions;
+    this.functions = new Array<() => Promise<void>>();
+
+    await BatchingProvider.batch(this.options, (): Promise<Array<void>> =>
+      Promise.all(functions.map((fn: () => Promise<void>): Promise<void> => fn())));
+  }
+
+  /**
+   * Invoke the given function, batching the requests that it makes to the node.
+   * Same as calling `add` and then `execute`.
+   * @param fn
+   */
+  public async run<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.add(fn);
+    await this.execute();
+    return result;
+  }
+}
+
+/**
+ * Wraps the provider of the Truffle contracts used by the contract wrappers.  Queues the read-only
+ * requests made by the functions that a `BatchReader` is executing and sends them together once
+ * the current call stack and pending promise callbacks have completed.  Otherwise just passes requests
+ * through to the provider.
+ *
+ * The requests of a `BatchReader` are told apart from those of other code using Node's `AsyncLocalStorage`.
+ * Where that is not available, as in browsers, every read-only request made while a `BatchReader`
+ * is executing is batched.
+ *
+ * @hidden - for internal use only
+ */
+export class BatchingProvider {
+
+  /**
+   * Number of `BatchReader`s currently executing
+   */
+  public static get batching(): number {
+    return BatchingProvider.batches.size;
+  }
+
+  /**
+   * Invoke the given function, batching the read-only requests that it makes.
+   * @param options Options of the `BatchReader` invoking the function
+   * @param fn
+   */
+  public static async batch<T>(options: BatchReaderOptions, fn: () => Promise<T>): Promise<T> {
+    const batch = Object.assign({}, options);
+    const storage = BatchingProvider.getAsyncStorage();
+
+    BatchingProvider.batches.add(batch);
+    try {
+      return await (storage ? storage.run(batch, fn) : fn());
+    } finally {
+      BatchingProvider.batches.delete(batch);
+    }
+  }
+
+  /**
+   * Returns the `BatchingProvider` for the given provider, so that requests made through every Truffle
+   * contract that uses the same provider are batched together.
+   * @param provider
+   */
+  public static for(provider: any): BatchingProvider {
+    if (provider instanceof BatchingProvider) {
+      return provider;
+    }
+    let batchingProvider = BatchingProvider.providers.get(provider);
+    if (!batchingProvider) {
+      batchingProvider = new BatchingProvider(provider);
+      BatchingProvider.providers.set(provider, batchingProvider);
+    }
+    return batchingProvider;
+  }
+
+  /**
+   * Maximum number of requests to send in a single batch
+   */
+  private static maxBatchSize: number = 100;
+
+  /**
+   * Methods that don't alter any state and so can be batched
+   */
+  private static batchableMethods: Set<string> = new Set<string>([
+    "eth_blockNumber",
+    "eth_call",
+    "eth_getBalance",
+    "eth_getCode",
+    "eth_getStorageAt",
+    "eth_getTransactionCount",
+    "net_version",
+  ]);
+
+  /**
+   * The selector of Multicall's `aggregate((address,bytes)[])`
+   */
+  private static aggregateSelector: string = "252dba42";
+
+  private static providers: WeakMap<any, BatchingProvider> = new WeakMap<any, BatchingProvider>();
+
+  /**
+   * The options of each executing `BatchReader`
+   */
+  private static batches: Set<BatchReaderOptions> = new Set<BatchReaderOptions>();
+
+  /**
+   * The `AsyncLocalStorage` holding the options of the `BatchReader` whose function is running,
+   * null when not available, undefined until looked for
+   */
+  private static asyncStorage: any;
+
+  private static getAsyncStorage(): any {
+    if (typeof BatchingProvider.asyncStorage === "undefined") {
+      try {
+        /* tslint:disable-next-line:no-var-requires */
+        const AsyncLocalStorage = require("async_hooks").AsyncLocalStorage;
+        BatchingProvider.asyncStorage = AsyncLocalStorage ? new AsyncLocalStorage() : null;
+      } catch (ex) {
+        BatchingProvider.asyncStorage = null;
+      }
+    }
+    return BatchingProvider.asyncStorage;
+  }
+
+  /**
+   * Returns the options of the `BatchReader` on whose behalf a request is being made,
+   * or undefined if it is not being made by a `BatchReader`.
+   */
+  private static getCurrentBatch(): BatchReaderOptions | undefined {
+    const storage = BatchingProvider.getAsyncStorage();
+
+    if (storage) {
+      return storage.getStore();
+    }
+
+    if (!BatchingProvider.batches.size) {
+      return undefined;
+    }
+
+    // attribute the request to every executing BatchReader
+    return {
+      senderIndependent: Array.from(BatchingProvider.batches)
+        .every((batch: BatchReaderOptions): boolean => !!batch.senderIndependent),
+    };
+  }
+
+  private static encodeAggregate(calls: Array<{ to: Address, data: string }>): string {
+    const word = (n: number): string => n.toString(16).padStart(64, "0");
+    const encodedCalls = calls.map((call: { to: Address, data: string }): string => {
+      const data = (call.data || "0x").replace(/^0x/, "");
+      return call.to.replace(/^0x/, "").toLowerCase().padStart(64, "0") +
+        word(64) +
+        word(data.length / 2) +
+        data.padEnd(Math.ceil(data.length / 64) * 64, "0");
+    });
+
+    const offsets = new Array<string>();
+    let offset = calls.length * 32;
+    for (const encodedCall of encodedCalls) {
+      offsets.push(word(offset));
+      offset += encodedCall.length / 2;
+    }
+
+    return `0x${BatchingProvider.aggregateSelector}${word(32)}${word(calls.length)}${offsets.join("")}${
+      encodedCalls.join("")}`;
+  }
+
+  private static decodeAggregate(result: string): Array<string> {
+    const data = result.replace(/^0x/, "");
+    const readNumber = (position: number): number => parseInt(data.substr(position * 2, 64), 16);
+    // skip blockNumber
+    const arrayStart = readNumber(32);
+    const count = readNumber(arrayStart);
+    const returnData = new Array<string>();
+    for (let i = 0; i < count; ++i) {
+      const elementStart = arrayStart + 32 + readNumber(arrayStart + 32 + (i * 32));
+      const length = readNumber(elementStart);
+      returnData.push(`0x${data.substr((elementStart + 32) * 2, length * 2)}`);
+    }
+    return returnData;
+  }
+
+  private queue: Array<QueuedRequest> = new Array<QueuedRequest>();
+  private flushTimer: any;
+
+  constructor(private provider: any) {
+  }
+
+  public send(payload: any): any {
+    return this.provider.send(payload);
+  }
+
+  public sendAsync(payload: any, callback: (error: Error, response: any) => void): void {
+    const batch = BatchingProvider.getCurrentBatch();
+
+    if (!batch ||
+      Array.isArray(payload) ||
+      !BatchingProvider.batchableMethods.has(payload.method)) {
+      return this.provider.sendAsync(payload, callback);
+    }
+
+    this.queue.push({ batch, callback, payload });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout((): void => this.flush(), 0);
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.provider.isConnected ? this.provider.isConnected() : true;
+  }
+
+  private flush(): void {
+    this.flushTimer = undefined;
+
+    while (this.queue.length) {
+      const requests = this.queue.splice(0, BatchingProvider.maxBatchSize);
+      const multicallAddress: Address = ConfigService.get("multicallAddress");
+
+      /**
+       * within the Multicall contract, `msg.sender` is the Multicall contract, so leave out calls
+       * that set `from` unless their results don't depend on it
+       */
+      const calls = requests.filter((request: QueuedRequest): boolean =>
+        (request.payload.method === "eth_call") && !!request.payload.params[0].to &&
+        (!request.payload.params[0].from || !!request.batch.senderIndependent));
+
+      const blockTags = new Set<string>(calls.map((request: QueuedRequest): string =>
+        JSON.stringify(request.payload.params[1] || "latest")));
+
+      if (multicallAddress && (calls.length > 1) && (blockTags.size === 1)) {
+        this.sendMulticall(multicallAddress, calls)
+          .catch((ex: Error): void => {
+            LoggingService.debug(`BatchingProvider: multicall failed, sending a batch instead: ${ex}`);
+            this.sendBatch(calls);
+          });
+        this.sendBatch(requests.filter((request: QueuedRequest): boolean => calls.indexOf(request) === -1));
+      } else {
+        this.sendBatch(requests);
+      }
+    }
+  }
+
+  private sendBatch(requests: Array<QueuedRequest>): void {
+    if (!requests.length) {
+      return;
+    }
+
+    if (requests.length === 1) {
+      return this.provider.sendAsync(requests[0].payload, requests[0].callback);
+    }
+
+    LoggingService.debug(`BatchingProvider: sending batch of ${requests.length} requests`);
+
+    /**
+     * The requests may come from different instances of web3 whose ids may collide,
+     * so number them afresh
+     */
+    const payloads = requests.map((request: QueuedRequest, i: number): any =>
+      Object.assign({}, request.payload, { id: i + 1 }));
+
+    this.provider.sendAsync(payloads,
+      (error: Error, responses: Array<any>): void => {
+        if (error || !Array.isArray(responses)) {
+          // maybe the node doesn't support batches, send them one at a time
+          LoggingService.debug(`BatchingProvider: batch failed, sending requests individually: ${error}`);
+          requests.forEach((request: QueuedRequest): void => {
+            this.provider.sendAsync(request.payload, request.callback);
+          });
+          return;
+        }
+
+        const responsesById = new Map<any, any>();
+        responses.forEach((response: any): void => { responsesById.set(response.id, response); });
+
+        requests.forEach((request: QueuedRequest, i: number): void => {
+          const response = responsesById.get(i + 1);
+          if (response) {
+            request.callback(null, Object.assign({}, response, { id: request.payload.id }));
+          } else {
+            request.callback(new Error(`BatchingProvider: no response to request ${request.payload.id}`), null);
+          }
+        });
+      });
+  }
+
+  private sendMulticall(multicallAddress: Address, calls: Array<QueuedRequest>): Promise<void> {
+    LoggingService.debug(`BatchingProvider: sending multicall of ${calls.length} calls`);
+
+    const payload = {
+      id: calls[0].payload.id,
+      jsonrpc: "2.0",
+      method: "eth_call",
+      params: [
+        {
+          data: BatchingProvider.encodeAggregate(calls.map((request: QueuedRequest) => request.payload.params[0])),
+          to: multicallAddress,
+        },
+        calls[0].payload.params[1] || "latest",
+      ],
+    };
+
+    return new Promise<void>((resolve: fnVoid, reject: (error: Error) => void): void => {
+      this.provider.sendAsync(payload, (error: Error, response: any): void => {
+        let returnData: Array<string>;
+        try {
+          if (error || response.error || !response.result || (response.result === "0x")) {
+            throw error || new Error(response.error ? response.error.message : "no result");
+          }
+
+          returnData = BatchingProvider.decodeAggregate(response.result);
+
+          if (returnData.length !== calls.length) {
+            throw new Error(`expected ${calls.length} results, got ${returnData.length}`);
+          }
+        } catch (ex) {
+          return reject(ex);
+        }
+
+        calls.forEach((request: QueuedRequest, i: number): void => {
+          request.callback(null, { id: request.payload.id, jsonrpc: request.payload.jsonrpc, result: returnData[i] });
+        });
+        resolve();
+      });
+    });
+  }
+}
+
+export interface BatchReaderOptions {
+  /**
+   * Set to true when none of the functions read a view whose result depends on `msg.sender`.
+   * When the "multicallAddress" configuration setting is given, this allows calls that set `from`,
+   * which includes every call made by a contract wrapper, to be aggregated into a single call
+   * to the Multicall contract, within which `msg.sender` is the Multicall contract.
+   * Otherwise such calls are sent in the JSON-RPC batch request.  Default is false.
+   */
+  senderIndependent?: boolean;
+}
+
+interface QueuedRequest {
+  batch: BatchReaderOptions;
+  payload: any;
+  callback: (error: Error, response: any) => void;
+}
@@ -1,5 +1,6 @@
 import { BigNumber } from "bignumber.js";
 import { promisify } from "es6-promisify";
+import { TransactionReceipt, TxData } from "web3";
 import { Address, Hash } from "./commonTypes";
 import { ConfigService } from "./configService";
 import { ControllerService } from "./controllerService";
@@ -9,10 +10,14 @@ import {
   GasPriceAdjustor,
   IContractWrapper,
   IContractWrapperFactory,
+  SimulatedTransactionDataResult,
+  SimulatedTransactionResult,
   StandardSchemeParams
 } from "./iContractWrapperBase";
 import { LoggingService } from "./loggingService";
+import { NonceService } from "./nonceService";
 import {
+  ArcTransactionRevertedError,
   TransactionService,
   TransactionStage,
   TxEventContext,
@@ -82,8 +87,9 @@ export abstract class ContractWrapperBase implements IContractWrapper {
     try {
       // Note that because we are using `.then`, we are returning a true promise
       // rather than the incomplete one returned by truffle.
-      this.contract = await this.solidityContract.new(...rest)
-        .then((contract: any) => contract, (error: any) => { throw error; });
+      this.contract = await TransactionService.runSend((): Promise<any> =>
+        (Utils.getSigner() ? this.newSigned(...rest) : this.solidityContract.new(...rest))
+          .then((contract: any) => contract, (error: any) => { throw error; }));
       this.hydrated();
     } catch (ex) {
       LoggingService.error(`hydrateFromNew failing: ${ex}`);
@@ -185,6 +191,10 @@ export abstract class ContractWrapperBase implements IContractWrapper {
       this.contract.setParameters,
       params);
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return new SimulatedTransactionDataResult<Hash>(this.contract, txResult, parametersHash);
+    }
+
     return new ArcTransactionDataResult<Hash>(txResult.tx, this.contract, parametersHash);
   }
 
@@ -231,6 +241,10 @@ export abstract class ContractWrapperBase implements IContractWrapper {
     params: Array<any>,
     web3Params?: any): Promise<ArcTransactionResult> {
 
+    if (TransactionService.isSimulating(options)) {
+      return this.simulateTransaction(functionName, func, params, web3Params);
+    }
+
     const payload = TransactionService.publishKickoffEvent(functionName, options, 1);
     const eventContext = TransactionService.newTxEventContext(functionName, payload, options);
 
@@ -247,11 +261,18 @@ export abstract class ContractWrapperBase implements IContractWrapper {
 
   /**
    * Invoke sendTransaction on the function.  Properly publish TxTracking events.
-   * Rethrows exceptions that occur.
+   * Rethrows exceptions that occur, as an `ArcTransactionRevertedError` when the node reports that
+   * the transaction would revert.
    *
    * If `ConfigService.get("estimateGas")` and gas was not already supplied,
    * then we estimate gas.
    *
+   * If `ConfigService.get("manageNonces")` and nonce was not already supplied,
+   * then we obtain the nonce from the `NonceService`.
+   *
+   * If a signer has been set (see `Utils.setSigner`), then we sign the transaction locally
+   * and send it using `eth_sendRawTransaction`.
+   *
    * @param eventContext The TxTracking context
    * @param func The contract function
    * @param params The contract function parameters
@@ -301,9 +322,18 @@ export abstract class ContractWrapperBase implements IContractWrapper {
         throw error;
       }
 
+      let nonceAccount: Address;
+
+      if (ConfigService.get("manageNonces") && (typeof web3Params.nonce === "undefined")) {
+        nonceAccount = web3Params.from || await Utils.getDefaultAccount();
+        web3Params.nonce = await NonceService.reserve(nonceAccount);
+        LoggingService.debug(`invoking function with nonce: ${web3Params.nonce}`);
+      }
+
       params = params.concat(web3Params);
 
-      const txHash = await func.sendTransaction(...params)
+      const txHash = await TransactionService.runSend((): Promise<Hash> => Utils.getSigner() ?
+        this.sendSignedTransaction(func, params) : func.sendTransaction(...params))
         .then((tx: Hash) => tx)
         /**
          * Because of truffle's faked Promise implementation, catching here is the only way
@@ -314,6 +344,14 @@ export abstract class ContractWrapperBase implements IContractWrapper {
           return null;
         });
 
+      if (nonceAccount) {
+        if (error) {
+          NonceService.release(nonceAccount, web3Params.nonce);
+        } else {
+          NonceService.markSent(nonceAccount, web3Params.nonce, txHash);
+        }
+      }
+
       if (error) {
         throw error;
       }
@@ -321,14 +359,104 @@ export abstract class ContractWrapperBase implements IContractWrapper {
       return txHash;
     } catch (ex) {
       // catch every possible error
+      if (!(ex instanceof ArcTransactionRevertedError) && UtilsInternal.isRevertError(ex)) {
+        ex = new ArcTransactionRevertedError(undefined, UtilsInternal.decodeRevertReason(ex));
+      }
       TransactionService.publishTxFailed(eventContext, TransactionStage.sent, ex);
       throw ex;
     }
   }
 
+  /**
+   * Simulate invoking the function, without sending a transaction.
+   * See `TransactionService.simulateTransaction`.
+   *
+   * @param functionName Name of the function, for logging
+   * @param func The contract function
+   * @param params The contract function parameters
+   * @param web3Params Optional web params, like `from`
+   * @param precedingTransactions Optional transactions that the function's transaction depends upon,
+   * simulated first within the same snapshot.  See `getTxData`.
+   */
+  protected async simulateTransaction(
+    functionName: string,
+    func: ITruffleContractFunction,
+    params: Array<any>,
+    web3Params: any = {},
+    precedingTransactions: Array<Partial<TxData>> = []): Promise<SimulatedTransactionResult> {
+
+    LoggingService.debug(`${functionName}: simulating`);
+
+    const simulation = await TransactionService.simulateTransaction(
+      this.getTxData(func, params, web3Params), this.contract, precedingTransactions);
+
+    return new SimulatedTransactionResult(this.contract, simulation);
+  }
+
+  /**
+   * Returns the transaction that would be sent by invoking the function, of this or any other contract.
+   *
+   * @param func The contract function
+   * @param params The contract function parameters
+   * @param web3Params Optional web params, like `from`
+   */
+  protected getTxData(
+    func: ITruffleContractFunction,
+    params: Array<any>,
+    web3Params: any = {}): Partial<TxData> {
+    return func.request(...params.concat(web3Params)).params[0];
+  }
+
+  /**
+   * Sign and send the transaction that would be sent by `func.sendTransaction(...params)`.
+   * The last element of `params` must be the web3 params.
+   */
+  protected sendSignedTransaction(func: ITruffleContractFunction, params: Array<any>): Promise<Hash> {
+    const request = func.request(...params);
+    return TransactionService.sendSignedTransaction(request.params[0]);
+  }
+
   protected logContractFunctionCall(functionName: string, params?: any): void {
     LoggingService.debug(`${functionName}: ${params ? `${LoggingService.stringifyObject(params)}` : "no parameters"}`);
   }
+
+  /**
+   * Migrate a new instance of the contract by signing the transaction locally and sending it
+   * using `eth_sendRawTransaction`.  Returns promise of the truffle contract once mined.
+   */
+  protected async newSigned(...rest: Array<any>): Promise<any> {
+    const web3 = await Utils.getWeb3();
+    const args = rest.slice();
+    const last = args[args.length - 1];
+    // as in truffle, it's only tx params if it's an object and not a BigNumber
+    const txParams = (last && (typeof last === "object") && !Array.isArray(last) && !this.isBigNumber(last)) ?
+      args.pop() : {};
+
+    const contractFactory: any = web3.eth.contract(this.solidityContract.abi);
+    const data = contractFactory.new.getData(...args, { data: this.solidityContract.binary });
+
+    const txHash = await TransactionService.sendSignedTransaction(
+      Object.assign({}, this.solidityContract.class_defaults, txParams, { data }));
+
+    const receipt = await TransactionService.watchForMinedTransaction(txHash) as TransactionReceipt;
+
+    if (!receipt.contractAddress) {
+      throw new Error(`${this.solidityContract.contractName}: contract was not created, tx: ${txHash}`);
+    }
+
+    const contract = await this.solidityContract.at(receipt.contractAddress);
+    contract.transactionHash = txHash;
+    return contract;
+  }
+
+  private isBigNumber(value: any): boolean {
+    // instanceof won't work because there may be multiple versions of BigNumber
+    try {
+      return !!new BigNumber(value);
+    } catch (ex) {
+      return false;
+    }
+  }
 }
 
 export type TruffleContractFunction = (args?: Array<any>) => Promise<Hash>;
@@ -336,4 +464,5 @@ export type TruffleContractFunction = (args?: Array<any>) => Promise<Hash>;
 export interface ITruffleContractFunction extends TruffleContractFunction {
   sendTransaction: (args?: Array<any>) => Promise<Hash>;
   estimateGas: (args?: Array<any>) => number;
+  request: (args?: Array<any>) => { method: string, params: Array<any> };
 }
@@ -4,6 +4,7 @@ import { ConfigService } from "./configService";
 import { IConfigService } from "./iConfigService";
 import { IContractWrapper, IContractWrapperFactory } from "./iContractWrapperBase";
 import { LoggingService } from "./loggingService";
+import { NonceService } from "./nonceService";
 import { Utils } from "./utils";
 import { UtilsInternal } from "./utilsInternal";
 import { Web3EventService } from "./web3EventService";
@@ -63,9 +64,32 @@ export class ContractWrapperFactory<TWrapper extends IContractWrapper>
       rest = [...rest, { gas }];
     }
 
+    let nonceAccount: Address;
+    let nonce: number;
+
+    if (ConfigService.get("manageNonces")) {
+      const web3Params = this.getWeb3Params(rest);
+      if (typeof web3Params.nonce === "undefined") {
+        nonceAccount = web3Params.from || await Utils.getDefaultAccount();
+        nonce = web3Params.nonce = await NonceService.reserve(nonceAccount);
+        LoggingService.debug(`Instantiating ${this.solidityContractName} with nonce: ${nonce}`);
+        if (web3Params !== rest[rest.length - 1]) {
+          rest = [...rest, web3Params];
+        }
+      }
+    }
+
     const hydratedWrapper =
       await new this.wrapper(this.solidityContract, this.web3EventService).hydrateFromNew(...rest);
 
+    if (nonceAccount) {
+      if (hydratedWrapper) {
+        NonceService.markSent(nonceAccount, nonce, hydratedWrapper.contract.transactionHash);
+      } else {
+        NonceService.release(nonceAccount, nonce);
+      }
+    }
+
     if (hydratedWrapper && ContractWrapperFactory.configService.get("cacheContractWrappers")) {
       this.setCachedContract(this.solidityContractName, hydratedWrapper);
     }
@@ -140,6 +164,17 @@ export class ContractWrapperFactory<TWrapper extends IContractWrapper>
     return Math.max(Math.min(gas, maxGasLimit), 21000);
   }
 
+  /**
+   * Returns the web3 transaction parameters object at the end of the given constructor arguments,
+   * or a new object if there isn't one.
+   */
+  private getWeb3Params(rest: Array<any>): any {
+    const last = (rest && rest.length) ? rest[rest.length - 1] : undefined;
+    const isWeb3Params = last && (typeof last === "object") && !Array.isArray(last) &&
+      ["from", "gas", "gasPrice", "value", "nonce"].some((key: string): boolean => last.hasOwnProperty(key));
+    return isWeb3Params ? last : {};
+  }
+
   private async getHydratedWrapper(
     getWrapper: () => Promise<TWrapper>,
     address?: Address): Promise<TWrapper> {
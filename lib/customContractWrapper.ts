@@ -0,0 +1,102 @@
+import { Hash } from "./commonTypes";
+import { ContractWrapperBase } from "./contractWrapperBase";
+import { ContractWrapperFactory } from "./contractWrapperFactory";
+import { ArcTransactionDataResult, IContractWrapperFactory } from "./iContractWrapperBase";
+import { Web3EventService } from "./web3EventService";
+
+/**
+ * Wraps a contract that is not part of Arc, such as a custom global constraint, registered
+ * using `WrapperService.registerWrapper` without a wrapper class of its own.
+ * Its parameters are converted to and from the contract's using the registered `WrapperParametersCodec`.
+ *
+ * See [Registering Custom Wrappers](/Wrappers.md#customwrappers).
+ */
+export class CustomContractWrapper extends ContractWrapperBase {
+
+  /**
+   * Returns a factory of wrappers of the contract with the given definition
+   * @param definition
+   */
+  public static createFactory(
+    definition: CustomContractWrapperDefinition): IContractWrapperFactory<CustomContractWrapper> {
+
+    const wrapperDefinition = Object.assign({}, definition);
+
+    const wrapperClass = class extends CustomContractWrapper {
+      constructor(solidityContract: any, web3EventService: Web3EventService) {
+        super(solidityContract, web3EventService, wrapperDefinition);
+      }
+    };
+
+    wrapperDefinition.factory = new ContractWrapperFactory(definition.name, wrapperClass, new Web3EventService());
+
+    return wrapperDefinition.factory;
+  }
+
+  public name: string;
+  public friendlyName: string;
+  public factory: IContractWrapperFactory<CustomContractWrapper>;
+
+  constructor(
+    solidityContract: any,
+    web3EventService: Web3EventService,
+    private definition: CustomContractWrapperDefinition) {
+    super(solidityContract, web3EventService);
+    this.name = definition.name;
+    this.friendlyName = definition.friendlyName || definition.name;
+    this.factory = definition.factory;
+  }
+
+  public getParametersHash(params: any): Promise<Hash> {
+    return this._getParametersHash(...this.getCodec().encode(params));
+  }
+
+  public setParameters(params: any): Promise<ArcTransactionDataResult<Hash>> {
+    return super._setParameters(
+      `${this.name}.setParameters`,
+      params.txEventContext,
+      ...this.getCodec().encode(params));
+  }
+
+  public async getParameters(paramsHash: Hash): Promise<any> {
+    return this.getCodec().decode(await this.getParametersArray(paramsHash));
+  }
+
+  private getCodec(): WrapperParametersCodec {
+    if (!this.definition.parametersCodec) {
+      throw new Error(`${this.name}: no parametersCodec was registered`);
+    }
+    return this.definition.parametersCodec;
+  }
+}
+
+/**
+ * Converts a contract's parameters between an object and the values its `setParameters`,
+ * `getParametersHash` and `parameters` functions take and return.
+ */
+export interface WrapperParametersCodec<TParams = any> {
+  /**
+   * Returns the arguments to pass to the contract's `setParameters` and `getParametersHash`
+   */
+  encode(params: TParams): Array<any>;
+  /**
+   * Returns the parameters as an object from the values returned by the contract's `parameters`
+   */
+  decode(values: Array<any>): TParams;
+}
+
+export interface CustomContractWrapperDefinition {
+  /**
+   * The name of the contract
+   */
+  name: string;
+  /**
+   * Default is `name`
+   */
+  friendlyName?: string;
+  parametersCodec?: WrapperParametersCodec;
+  /**
+   * Set by `createFactory`
+   */
+  factory?: IContractWrapperFactory<CustomContractWrapper>;
+}
@@ -2,7 +2,14 @@
 import BigNumber from "bignumber.js";
 import { AvatarService } from "./avatarService";
 import { Address, fnVoid, Hash } from "./commonTypes";
-import { DecodedLogEntryEvent, IContractWrapper } from "./iContractWrapperBase";
+import { DaoSpec, DaoSpecFounder, DaoSpecGlobalConstraint, DaoSpecScheme } from "./daoSpecService";
+import {
+  DecodedLogEntryEvent,
+  IContractWrapper,
+  IUniversalSchemeWrapper,
+  IVotingMachineWrapper,
+} from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
 import { TransactionService, TxGeneratingFunctionOptions } from "./transactionService";
 import { Utils } from "./utils";
 import { EntityFetcherFactory, EventFetcherFilterObject, Web3EventService } from "./web3EventService";
@@ -10,6 +17,8 @@ import { DaoCreatorFactory, DaoCreatorWrapper } from "./wrappers/daoCreator";
 import { ForgeOrgConfig, InitialSchemesSetEventResult, SchemesConfig } from "./wrappers/daoCreator";
 import { DaoTokenWrapper } from "./wrappers/daoToken";
 import { ReputationMintEventResult, ReputationWrapper } from "./wrappers/reputation";
+import { TransferEventResult } from "./wrappers/standardToken";
+import { TokenCapGCWrapper } from "./wrappers/tokenCapGC";
 import { WrapperService } from "./wrapperService";
 
 /**
@@ -23,6 +32,10 @@ export class DAO {
    */
   public static async new(options: NewDaoConfig & TxGeneratingFunctionOptions): Promise<DAO> {
 
+    if (TransactionService.isSimulating(options)) {
+      throw new Error("DAO.new cannot be simulated, simulate DaoCreator.forgeOrg instead");
+    }
+
     let daoCreator: DaoCreatorWrapper;
 
     if (options.daoCreatorAddress) {
@@ -121,6 +134,144 @@ export class DAO {
       });
   }
 
+  /**
+   * Returns a promise of a `DaoSpec` describing the DAO at the given address, from which
+   * `DaoSpecService.deploy` can create a copy of the DAO, for example on Ganache to try out
+   * proposals before submitting them to the original.
+   *
+   * Includes the DAO's schemes with their permissions and parameters, the parameters of their voting machines,
+   * its global constraints, and every account that holds reputation or tokens, as founders.
+   * Schemes and voting machines that were not deployed by the running version of Arc.js are given by address,
+   * and so can only be reproduced on the same network.
+   * See [Exporting a DAO](/Daos.md#exportingdaos).
+   * @param avatarAddress The DAO avatar's address
+   */
+  public static async exportSpec(avatarAddress: Address): Promise<DaoSpec> {
+
+    const dao = await DAO.at(avatarAddress);
+
+    if (!dao) {
+      throw new Error(`DAO.exportSpec: no DAO was found at ${avatarAddress}`);
+    }
+
+    const web3 = await Utils.getWeb3();
+    const fromWei = (amount: BigNumber): string => web3.fromWei(amount).toString(10);
+
+    const spec: DaoSpec = {
+      name: dao.name,
+      specVersion: 1,
+      tokenName: await dao.getTokenName(),
+      tokenSymbol: await dao.getTokenSymbol(),
+      universalController: dao.hasUController,
+    };
+
+    const tokenCap = await dao.token.getTokenCap();
+    if (tokenCap.gt(0)) {
+      spec.tokenCap = fromWei(tokenCap);
+    }
+
+    /**
+     * founders: everyone who holds reputation or tokens
+     */
+    const holders = new Set<Address>(
+      (await dao.getParticipants()).map((participant: Participant) => participant.address));
+
+    (await dao.token.Transfer({}, { fromBlock: 0 }).get())
+      .forEach((event: DecodedLogEntryEvent<TransferEventResult>) => { holders.add(event.args.to); });
+
+    spec.founders = new Array<DaoSpecFounder>();
+
+    for (const address of holders) {
+      const reputation = await dao.reputation.getBalanceOf(address);
+      const tokens = await dao.getTokenBalance(address);
+      if (reputation.gt(0) || tokens.gt(0)) {
+        spec.founders.push({ address, reputation: fromWei(reputation), tokens: fromWei(tokens) });
+      }
+    }
+
+    /**
+     * schemes
+     */
+    spec.schemes = new Array<DaoSpecScheme>();
+
+    for (const scheme of await dao.getSchemes()) {
+      const permissions = await dao.controller.getSchemePermissions(scheme.address, avatarAddress) as string;
+      const wrapper = scheme.wrapper as IUniversalSchemeWrapper;
+
+      if (wrapper && WrapperService.universalSchemeFactories[wrapper.name]) {
+        const schemeParams = await wrapper.getSchemeParameters(avatarAddress);
+        const specScheme: DaoSpecScheme = Object.assign({ name: wrapper.name, permissions },
+          DAO.exportableParams(schemeParams,
+            ["voteParametersHash", "votingMachineAddress", "voteRemoveParametersHash"]));
+
+        if (schemeParams.votingMachineAddress) {
+          const votingMachine = WrapperService.wrappersByAddress.get(
+            schemeParams.votingMachineAddress.toLowerCase()) as IVotingMachineWrapper;
+          specScheme.votingMachineParams = votingMachine ?
+            Object.assign({ votingMachineName: votingMachine.name },
+              DAO.exportableParams(await votingMachine.getParameters(schemeParams.voteParametersHash))) :
+            { votingMachineAddress: schemeParams.votingMachineAddress };
+          if (!votingMachine) {
+            LoggingService.warn(
+              `DAO.exportSpec: cannot export the parameters of voting machine ${schemeParams.votingMachineAddress}`);
+          }
+        }
+        spec.schemes.push(specScheme);
+      } else {
+        LoggingService.warn(
+          `DAO.exportSpec: scheme ${scheme.address} was not deployed by Arc.js, exporting its address`);
+        spec.schemes.push({
+          address: scheme.address,
+          name: wrapper ? wrapper.name : undefined,
+          parametersHash: await dao.controller.getSchemeParameters(scheme.address, avatarAddress),
+          permissions,
+        });
+      }
+    }
+
+    /**
+     * global constraints, which can only be added by proposal through the GlobalConstraintRegistrar
+     */
+    const constraints = await dao.getGlobalConstraints();
+
+    if (constraints.length) {
+      if (!spec.schemes.some((scheme: DaoSpecScheme) => scheme.name === "GlobalConstraintRegistrar")) {
+        LoggingService.warn(
+          "DAO.exportSpec: omitting global constraints because the DAO has no GlobalConstraintRegistrar");
+      } else {
+        spec.globalConstraints = new Array<DaoSpecGlobalConstraint>();
+        for (const constraint of constraints) {
+          if (constraint.wrapper && (constraint.wrapper.name === "TokenCapGC")) {
+            const params = await (constraint.wrapper as TokenCapGCWrapper).getParameters(constraint.paramsHash);
+            spec.globalConstraints.push({
+              name: "TokenCapGC",
+              params: Object.assign({ cap: fromWei(params.cap) },
+                (params.token === dao.token.address) ? {} : { token: params.token }),
+            });
+          } else {
+            spec.globalConstraints.push({ address: constraint.address, parametersHash: constraint.paramsHash });
+          }
+        }
+      }
+    }
+
+    return spec;
+  }
+
+  /**
+   * Returns the given parameters without the named ones, with BigNumbers as strings
+   */
+  private static exportableParams(params: any, omit: Array<string> = []): any {
+    const result: any = {};
+    for (const key of Object.keys(params)) {
+      if (!omit.includes(key)) {
+        const value = params[key];
+        result[key] = (value instanceof BigNumber) || (value && value.isBigNumber) ? value.toString(10) : value;
+      }
+    }
+    return result;
+  }
+
   /**
    * Truffle contract wrapper for the DAO's Avatar
    */
@@ -168,7 +319,8 @@ export class DAO {
     // return all global constraints if name is not given
     const constraints = await this._getConstraints();
     if (name) {
-      return constraints.filter((s: DaoGlobalConstraintInfo) => s.wrapper.name && (s.wrapper.name === name));
+      return constraints.filter((s: DaoGlobalConstraintInfo) =>
+        s.wrapper && s.wrapper.name && (s.wrapper.name === name));
     } else {
       return constraints;
     }
@@ -0,0 +1,555 @@
+import { BigNumber } from "bignumber.js";
+import { Address, Hash, SchemePermissions } from "./commonTypes";
+import { DAO, DaoSchemeInfo, NewDaoConfig } from "./dao";
+import { LoggingService } from "./loggingService";
+import { Utils } from "./utils";
+import { FounderConfig, NewDaoVotingMachineConfig, SchemeConfig } from "./wrappers/daoCreator";
+import { WrapperService } from "./wrapperService";
+
+/**
+ * A declarative description of a DAO, as may be written in a JSON or YAML file, from which
+ * `DaoSpecService.deploy` creates the DAO.  See [DAO Specifications](/Daos.md#daospecs).
+ */
+export interface DaoSpec {
+  /**
+   * Version of the specification format.  Currently must be 1.
+   */
+  specVersion: number;
+  /**
+   * The name of the new DAO
+   */
+  name: string;
+  /**
+   * The name of the DAO's token
+   */
+  tokenName: string;
+  /**
+   * The symbol of the DAO's token
+   */
+  tokenSymbol: string;
+  /**
+   * Optional cap on the number of tokens, in whole tokens.  Default is no cap.
+   */
+  tokenCap?: string | number;
+  /**
+   * true to use the UniversalController contract, false to instantiate and use a new Controller contract.
+   * Default is true.
+   */
+  universalController?: boolean;
+  /**
+   * Address of a DaoCreator to use.  Default is the DaoCreator deployed by the running version of Arc.js.
+   */
+  daoCreatorAddress?: Address;
+  /**
+   * Optional founders of the DAO.  Default is none.
+   */
+  founders?: Array<DaoSpecFounder>;
+  /**
+   * Default voting machine parameters for the schemes, passed as-is to the voting machine
+   */
+  votingMachineParams?: NewDaoVotingMachineConfig;
+  /**
+   * Schemes to register with the DAO
+   */
+  schemes?: Array<DaoSpecScheme>;
+  /**
+   * Global constraints to propose adding to the DAO through its GlobalConstraintRegistrar
+   */
+  globalConstraints?: Array<DaoSpecGlobalConstraint>;
+}
+
+export interface DaoSpecFounder {
+  /**
+   * The founder's address
+   */
+  address: Address;
+  /**
+   * Amount of the DAO's tokens to mint to the founder, in whole tokens
+   */
+  tokens: string | number;
+  /**
+   * Amount of reputation to mint to the founder, in whole units
+   */
+  reputation: string | number;
+}
+
+export interface DaoSpecScheme extends SchemeConfig {
+  /**
+   * Permissions to grant the scheme beyond those it requires, either as a string like "0x0000000a"
+   * or as an array of names from `SchemePermissions`, like `["CanRegisterSchemes"]`.
+   */
+  permissions?: any;
+}
+
+export interface DaoSpecGlobalConstraint {
+  /**
+   * Name of the Arc global constraint, like "TokenCapGC".  Omit only when `address` and `parametersHash` are given.
+   */
+  name?: string;
+  /**
+   * Address of the global constraint.  Default is that deployed by the running version of Arc.js.
+   */
+  address?: Address;
+  /**
+   * Parameters of the global constraint, passed to its wrapper's `setParameters`.
+   * For TokenCapGC, `token` defaults to the DAO's token and `cap` is given in whole tokens.
+   */
+  params?: any;
+  /**
+   * Hash of parameters already registered with the global constraint.  When given, `params` is ignored.
+   */
+  parametersHash?: Hash;
+}
+
+/**
+ * Report of a DAO created by `DaoSpecService.deploy`.
+ */
+export interface DaoDeploymentReport {
+  specVersion: number;
+  name: string;
+  networkName: string;
+  networkId: number;
+  /**
+   * ISO 8601 time at which the DAO was created
+   */
+  createdAt: string;
+  avatar: Address;
+  controller: Address;
+  token: Address;
+  reputation: Address;
+  schemes: Array<{ name?: string, address: Address, permissions: string }>;
+  /**
+   * The proposals to add the DAO's global constraints, upon which the DAO must vote
+   */
+  globalConstraintProposals: Array<{ name?: string, address: Address, parametersHash: Hash, proposalId: Hash }>;
+}
+
+/**
+ * Thrown by `DaoSpecService` when a `DaoSpec` is not valid.
+ */
+export class DaoSpecValidationError extends Error {
+  constructor(
+    /**
+     * A readable message for each problem found, like `schemes[1].name: unknown scheme "Foo"`
+     */
+    public errors: Array<string>) {
+    super(`invalid DAO specification:\n  ${errors.join("\n  ")}`);
+    this.name = "DaoSpecValidationError";
+  }
+}
+
+/**
+ * Loads, validates and deploys DAO specifications.  See [DAO Specifications](/Daos.md#daospecs).
+ */
+export class DaoSpecService {
+
+  /**
+   * The versions of the specification format that this version of Arc.js can deploy
+   */
+  public static supportedSpecVersions: Array<number> = [1];
+
+  /**
+   * Returns the `DaoSpec` in the given JSON or YAML file.  Does not validate it.
+   * Only for use in Node.js.
+   * @param filePath Files ending with ".json" are parsed as JSON, others as YAML.
+   */
+  public static async load(filePath: string): Promise<DaoSpec> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    const text = await fs.readFile(filePath, "utf8");
+    return DaoSpecService.parse(text, /\.json$/i.test(filePath) ? "json" : "yaml");
+  }
+
+  /**
+   * Returns the `DaoSpec` in the given text.  Does not validate it.
+   * @param text
+   * @param format "json" or "yaml".  Default is "yaml", of which JSON is a subset.
+   */
+  public static parse(text: string, format: "json" | "yaml" = "yaml"): DaoSpec {
+    try {
+      /* tslint:disable-next-line:no-var-requires */
+      return (format === "json") ? JSON.parse(text) : require("js-yaml").safeLoad(text);
+    } catch (ex) {
+      throw new DaoSpecValidationError([`unable to parse the ${format}: ${ex.message || ex}`]);
+    }
+  }
+
+  /**
+   * Returns a readable message for each problem found in the given spec, empty if it is valid.
+   * @param spec
+   */
+  public static validate(spec: DaoSpec): Array<string> {
+    const errors = new Array<string>();
+
+    if (!spec || (typeof spec !== "object") || Array.isArray(spec)) {
+      return ["the specification must be an object"];
+    }
+
+    DaoSpecService.checkKeys(spec, "", DaoSpecService.specKeys, errors);
+
+    if (!DaoSpecService.supportedSpecVersions.includes(spec.specVersion)) {
+      errors.push(`specVersion: must be one of ${DaoSpecService.supportedSpecVersions.join(", ")}`);
+    }
+
+    for (const key of ["name", "tokenName", "tokenSymbol"]) {
+      if (!DaoSpecService.isNonEmptyString((spec as any)[key])) {
+        errors.push(`${key}: is required`);
+      }
+    }
+
+    if ((spec.tokenCap !== undefined) && !DaoSpecService.isAmount(spec.tokenCap)) {
+      errors.push("tokenCap: must be a non-negative number");
+    }
+
+    if ((spec.universalController !== undefined) && (typeof spec.universalController !== "boolean")) {
+      errors.push("universalController: must be true or false");
+    }
+
+    if ((spec.daoCreatorAddress !== undefined) && !DaoSpecService.isAddress(spec.daoCreatorAddress)) {
+      errors.push("daoCreatorAddress: must be an address");
+    }
+
+    if (DaoSpecService.checkArray(spec.founders, "founders", errors)) {
+      const addresses = new Set<string>();
+      spec.founders.forEach((founder: DaoSpecFounder, i: number) => {
+        const path = `founders[${i}]`;
+        if (DaoSpecService.checkObject(founder, path, errors)) {
+          DaoSpecService.checkKeys(founder, path, ["address", "tokens", "reputation"], errors);
+          if (!DaoSpecService.isAddress(founder.address)) {
+            errors.push(`${path}.address: must be an address`);
+          } else if (addresses.has(founder.address.toLowerCase())) {
+            errors.push(`${path}.address: ${founder.address} appears more than once`);
+          } else {
+            addresses.add(founder.address.toLowerCase());
+          }
+          for (const key of ["tokens", "reputation"]) {
+            if (!DaoSpecService.isAmount((founder as any)[key])) {
+              errors.push(`${path}.${key}: must be a non-negative number`);
+            }
+          }
+        }
+      });
+    }
+
+    DaoSpecService.validateVotingMachineParams(spec.votingMachineParams, "votingMachineParams", errors);
+
+    const schemeNames = new Set<string>();
+
+    if (DaoSpecService.checkArray(spec.schemes, "schemes", errors)) {
+      spec.schemes.forEach((scheme: DaoSpecScheme, i: number) => {
+        const path = `schemes[${i}]`;
+        if (DaoSpecService.checkObject(scheme, path, errors)) {
+          /**
+           * Other schemes may be wrapped by custom wrappers that take parameters of their own,
+           * so only the keys of Arc schemes are known here.
+           */
+          if (DaoSpecService.universalSchemeNames.includes(scheme.name)) {
+            DaoSpecService.checkKeys(scheme, path,
+              DaoSpecService.schemeKeys.concat(DaoSpecService.schemeParameterKeys[scheme.name] || []), errors);
+          }
+          if (scheme.address !== undefined && !DaoSpecService.isAddress(scheme.address)) {
+            errors.push(`${path}.address: must be an address`);
+          }
+          if (scheme.name === undefined) {
+            if (scheme.address === undefined) {
+              errors.push(`${path}: requires a name or an address`);
+            }
+          } else if (!DaoSpecService.isNonEmptyString(scheme.name)) {
+            errors.push(`${path}.name: must be a string`);
+          } else if (!scheme.address && !DaoSpecService.universalSchemeNames.includes(scheme.name)) {
+            errors.push(`${path}.name: "${scheme.name}" is not a scheme deployed by Arc.js, so requires an address` +
+              ` (known schemes are ${DaoSpecService.universalSchemeNames.join(", ")})`);
+          } else if (schemeNames.has(scheme.name) && !scheme.address) {
+            errors.push(`${path}.name: ${scheme.name} appears more than once`);
+          } else {
+            schemeNames.add(scheme.name);
+          }
+          if ((scheme.permissions !== undefined) && (DaoSpecService.toPermissions(scheme.permissions) === undefined)) {
+            errors.push(`${path}.permissions: must be a hex string like "0x0000000a" or an array of ` +
+              `${Object.keys(SchemePermissions).filter((key: string) => isNaN(Number(key))).join(", ")}`);
+          }
+          if ((scheme.parametersHash !== undefined) && !/^0x[0-9a-f]{64}$/i.test(scheme.parametersHash)) {
+            errors.push(`${path}.parametersHash: must be a 32-byte hex string`);
+          }
+          DaoSpecService.validateVotingMachineParams(scheme.votingMachineParams, `${path}.votingMachineParams`, errors);
+        }
+      });
+    }
+
+    if (DaoSpecService.checkArray(spec.globalConstraints, "globalConstraints", errors)) {
+      if (spec.globalConstraints.length && !schemeNames.has("GlobalConstraintRegistrar")) {
+        errors.push("globalConstraints: require the GlobalConstraintRegistrar scheme");
+      }
+      spec.globalConstraints.forEach((constraint: DaoSpecGlobalConstraint, i: number) => {
+        const path = `globalConstraints[${i}]`;
+        if (DaoSpecService.checkObject(constraint, path, errors)) {
+          DaoSpecService.checkKeys(constraint, path, ["name", "address", "params", "parametersHash"], errors);
+          if ((constraint.address !== undefined) && !DaoSpecService.isAddress(constraint.address)) {
+            errors.push(`${path}.address: must be an address`);
+          }
+          if ((constraint.parametersHash !== undefined) && !/^0x[0-9a-f]{64}$/i.test(constraint.parametersHash)) {
+            errors.push(`${path}.parametersHash: must be a 32-byte hex string`);
+          }
+          if (constraint.name === undefined) {
+            if ((constraint.address === undefined) || (constraint.parametersHash === undefined)) {
+              errors.push(`${path}: requires a name, or else an address and parametersHash`);
+            }
+          } else if (!DaoSpecService.globalConstraintNames.includes(constraint.name)) {
+            errors.push(`${path}.name: unknown global constraint "${constraint.name}"` +
+              ` (known global constraints are ${DaoSpecService.globalConstraintNames.join(", ")})`);
+          } else if ((constraint.name === "TokenCapGC") && (constraint.parametersHash === undefined) &&
+            (!constraint.params || !DaoSpecService.isAmount(constraint.params.cap))) {
+            errors.push(`${path}.params.cap: must be a non-negative number`);
+          }
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Throws a `DaoSpecValidationError` if the given spec is not valid.
+   * @param spec
+   */
+  public static assertValid(spec: DaoSpec): void {
+    const errors = DaoSpecService.validate(spec);
+    if (errors.length) {
+      throw new DaoSpecValidationError(errors);
+    }
+  }
+
+  /**
+   * Returns the options for `DAO.new` described by the given valid spec.
+   * @param spec
+   */
+  public static async toNewDaoConfig(spec: DaoSpec): Promise<NewDaoConfig> {
+    const web3 = await Utils.getWeb3();
+
+    const config: NewDaoConfig = {
+      founders: (spec.founders || []).map((founder: DaoSpecFounder): FounderConfig => ({
+        address: founder.address,
+        reputation: web3.toWei(founder.reputation.toString()),
+        tokens: web3.toWei(founder.tokens.toString()),
+      })),
+      name: spec.name,
+      schemes: (spec.schemes || []).map((scheme: DaoSpecScheme): SchemeConfig =>
+        Object.assign({}, scheme, (scheme.permissions !== undefined) ?
+          { permissions: DaoSpecService.toPermissions(scheme.permissions) } : {})),
+      tokenName: spec.tokenName,
+      tokenSymbol: spec.tokenSymbol,
+    };
+
+    if (spec.tokenCap !== undefined) {
+      config.tokenCap = web3.toWei(spec.tokenCap.toString());
+    }
+    if (spec.universalController !== undefined) {
+      config.universalController = spec.universalController;
+    }
+    if (spec.daoCreatorAddress) {
+      config.daoCreatorAddress = spec.daoCreatorAddress;
+    }
+    if (spec.votingMachineParams) {
+      config.votingMachineParams = Object.assign({}, spec.votingMachineParams);
+    }
+
+    return config;
+  }
+
+  /**
+   * Validate the given spec, create the DAO it describes, and propose adding its global constraints.
+   * Returns a report of what was created.  Throws `DaoSpecValidationError` if the spec is not valid.
+   * @param spec
+   */
+  public static async deploy(spec: DaoSpec): Promise<DaoDeploymentReport> {
+
+    DaoSpecService.assertValid(spec);
+
+    const dao = await DAO.new(await DaoSpecService.toNewDaoConfig(spec));
+
+    LoggingService.info(`DaoSpecService.deploy: created DAO ${spec.name} at ${dao.avatar.address}`);
+
+    const schemes = await Promise.all((await dao.getSchemes()).map(async (scheme: DaoSchemeInfo) => ({
+      address: scheme.address,
+      name: scheme.wrapper ? scheme.wrapper.name : undefined,
+      permissions: await dao.controller.getSchemePermissions(scheme.address, dao.avatar.address) as string,
+    })));
+
+    const report: DaoDeploymentReport = {
+      avatar: dao.avatar.address,
+      controller: dao.controller.address,
+      createdAt: new Date().toISOString(),
+      globalConstraintProposals: [],
+      name: spec.name,
+      networkId: await Utils.getNetworkId(),
+      networkName: await Utils.getNetworkName(),
+      reputation: dao.reputation.address,
+      schemes,
+      specVersion: spec.specVersion,
+      token: dao.token.address,
+    };
+
+    if (spec.globalConstraints && spec.globalConstraints.length) {
+      const registrar = WrapperService.wrappers.GlobalConstraintRegistrar;
+      const votingMachineHash = (await registrar.getSchemeParameters(dao.avatar.address)).voteParametersHash;
+
+      for (const constraint of spec.globalConstraints) {
+        const wrapper = constraint.name ?
+          (constraint.address ?
+            await (WrapperService.factories[constraint.name] || WrapperService.customFactories.get(constraint.name))
+              .at(constraint.address) :
+            WrapperService.wrappers[constraint.name]) :
+          undefined;
+        const address = wrapper ? wrapper.address : constraint.address;
+
+        let parametersHash = constraint.parametersHash;
+
+        if (!parametersHash) {
+          const params = Object.assign({}, constraint.params);
+          if (constraint.name === "TokenCapGC") {
+            params.token = params.token || dao.token.address;
+            params.cap = (await Utils.getWeb3()).toWei(params.cap.toString());
+          }
+          parametersHash = (await wrapper.setParameters(params)).result;
+        }
+
+        const result = await registrar.proposeToAddModifyGlobalConstraint({
+          avatar: dao.avatar.address,
+          globalConstraint: address,
+          globalConstraintParametersHash: parametersHash,
+          votingMachineHash,
+        });
+
+        report.globalConstraintProposals.push({
+          address,
+          name: constraint.name,
+          parametersHash,
+          proposalId: await result.getProposalIdFromMinedTx(),
+        });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Converts permissions given in a spec to `SchemePermissions`.  Returns undefined if they are not valid.
+   * @param permissions
+   */
+  public static toPermissions(permissions: any): SchemePermissions | undefined {
+    if (typeof permissions === "string") {
+      return /^0x[0-9a-f]{1,8}$/i.test(permissions) ? Utils.permissionsStringToNumber(permissions) : undefined;
+    } else if (typeof permissions === "number") {
+      return (Number.isInteger(permissions) && (permissions >= 0) && (permissions <= SchemePermissions.All)) ?
+        permissions : undefined;
+    } else if (Array.isArray(permissions)) {
+      let result = SchemePermissions.None;
+      for (const name of permissions) {
+        const value = (typeof name === "string") && isNaN(Number(name)) ? (SchemePermissions as any)[name] : undefined;
+        if (typeof value !== "number") {
+          return undefined;
+        }
+        /* tslint:disable-next-line:no-bitwise */
+        result |= value;
+      }
+      return result;
+    }
+    return undefined;
+  }
+
+  private static specKeys: Array<string> = [
+    "specVersion", "name", "tokenName", "tokenSymbol", "tokenCap", "universalController",
+    "daoCreatorAddress", "founders", "votingMachineParams", "schemes", "globalConstraints",
+  ];
+
+  private static universalSchemeNames: Array<string> = [
+    "ContributionReward",
+    "GlobalConstraintRegistrar",
+    "SchemeRegistrar",
+    "UpgradeScheme",
+    "VestingScheme",
+    "VoteInOrganizationScheme",
+  ];
+
+  private static schemeKeys: Array<string> = [
+    "name", "address", "permissions", "parametersHash", "votingMachineParams",
+  ];
+
+  /**
+   * Scheme parameters, beyond those of the voting machine, that Arc schemes take
+   */
+  private static schemeParameterKeys: { [name: string]: Array<string> } = {
+    ContributionReward: ["orgNativeTokenFee"],
+    SchemeRegistrar: ["voteRemoveParametersHash"],
+  };
+
+  private static votingMachineNames: Array<string> = ["AbsoluteVote", "GenesisProtocol"];
+
+  private static globalConstraintNames: Array<string> = ["TokenCapGC"];
+
+  private static validateVotingMachineParams(params: any, path: string, errors: Array<string>): void {
+    if ((params === undefined) || !DaoSpecService.checkObject(params, path, errors)) {
+      return;
+    }
+    if ((params.votingMachineAddress !== undefined) && !DaoSpecService.isAddress(params.votingMachineAddress)) {
+      errors.push(`${path}.votingMachineAddress: must be an address`);
+    }
+    if ((params.votingMachineName !== undefined) && !params.votingMachineAddress &&
+      !DaoSpecService.votingMachineNames.includes(params.votingMachineName)) {
+      errors.push(`${path}.votingMachineName: unknown voting machine "${params.votingMachineName}"` +
+        ` (known voting machines are ${DaoSpecService.votingMachineNames.join(", ")})`);
+    }
+  }
+
+  private static checkKeys(object: any, path: string, allowedKeys: Array<string>, errors: Array<string>): void {
+    for (const key of Object.keys(object)) {
+      if (!allowedKeys.includes(key)) {
+        errors.push(`${path ? `${path}.` : ""}${key}: is not a recognized property`);
+      }
+    }
+  }
+
+  /**
+   * Returns true if the value is a non-null object, adding an error if it isn't
+   */
+  private static checkObject(value: any, path: string, errors: Array<string>): boolean {
+    if (!value || (typeof value !== "object") || Array.isArray(value)) {
+      errors.push(`${path}: must be an object`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Returns true if the value is an array, adding an error if it is neither an array nor undefined
+   */
+  private static checkArray(value: any, path: string, errors: Array<string>): boolean {
+    if (value === undefined) {
+      return false;
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: must be a list`);
+      return false;
+    }
+    return true;
+  }
+
+  private static isNonEmptyString(value: any): boolean {
+    return (typeof value === "string") && (value.trim().length > 0);
+  }
+
+  private static isAddress(value: any): boolean {
+    return (typeof value === "string") && /^0x[0-9a-f]{40}$/i.test(value);
+  }
+
+  private static isAmount(value: any): boolean {
+    if ((typeof value !== "string") && (typeof value !== "number")) {
+      return false;
+    }
+    try {
+      return new BigNumber(value).gte(0);
+    } catch (ex) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,609 @@
+import { Address, Hash, SchemePermissions } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { DAO, DaoGlobalConstraintInfo, DaoSchemeInfo } from "./dao";
+import { DaoSpecGlobalConstraint, DaoSpecService } from "./daoSpecService";
+import {
+  ArcTransactionProposalResult,
+  ArcTransactionResult,
+  IContractWrapper,
+  IUniversalSchemeWrapper,
+  IVotingMachineWrapper,
+} from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { Utils } from "./utils";
+import { SchemeConfig, SchemesConfig } from "./wrappers/daoCreator";
+import { WrapperService } from "./wrapperService";
+
+/**
+ * The configuration a DAO should have, as given to `DaoUpgradePlanner.plan`.  A `DaoSpec` or
+ * `NewDaoConfig` will do, though only their schemes, voting machine parameters and global constraints
+ * are considered.
+ */
+export interface DaoUpgradeTarget extends SchemesConfig {
+  globalConstraints?: Array<DaoSpecGlobalConstraint>;
+}
+
+/**
+ * How a scheme differs between the DAO and the target.  For added schemes the "current" properties are
+ * undefined, for removed schemes the "target" properties are undefined.
+ */
+export interface DaoSchemeDiff {
+  /**
+   * Name of the scheme, if it is wrapped by Arc.js
+   */
+  name?: string;
+  address: Address;
+  currentPermissions?: SchemePermissions;
+  targetPermissions?: SchemePermissions;
+  currentParametersHash?: Hash;
+  targetParametersHash?: Hash;
+  /**
+   * Hash of the voting machine parameters, when known
+   */
+  currentVoteParametersHash?: Hash;
+  targetVoteParametersHash?: Hash;
+  /**
+   * For modified schemes, what has changed
+   */
+  changes: Array<"permissions" | "parameters" | "votingParameters">;
+}
+
+/**
+ * How a global constraint differs between the DAO and the target.
+ */
+export interface DaoGlobalConstraintDiff {
+  name?: string;
+  address: Address;
+  currentParametersHash?: Hash;
+  targetParametersHash?: Hash;
+}
+
+export interface DaoConfigurationDiff {
+  addedSchemes: Array<DaoSchemeDiff>;
+  modifiedSchemes: Array<DaoSchemeDiff>;
+  removedSchemes: Array<DaoSchemeDiff>;
+  addedGlobalConstraints: Array<DaoGlobalConstraintDiff>;
+  modifiedGlobalConstraints: Array<DaoGlobalConstraintDiff>;
+  removedGlobalConstraints: Array<DaoGlobalConstraintDiff>;
+}
+
+export type DaoUpgradePlanFunctionName =
+  "proposeToAddModifyGlobalConstraint" |
+  "proposeToAddModifyScheme" |
+  "proposeToRemoveGlobalConstraint" |
+  "proposeToRemoveScheme" |
+  "proposeUpgradingScheme" |
+  "setParameters";
+
+/**
+ * A contract wrapper with whichever of the functions that plan steps call it has
+ */
+type PlanStepWrapper = IContractWrapper & {
+  [functionName in DaoUpgradePlanFunctionName]?: (options: any) => Promise<ArcTransactionResult>;
+};
+
+/**
+ * A single transaction in a `DaoUpgradePlan`: a call to `functionName` on the wrapper of the contract
+ * named `contractName` at `contractAddress`, with `options`.
+ */
+export interface DaoUpgradePlanStep {
+  /**
+   * Readable description of the step
+   */
+  description: string;
+  /**
+   * Like "SchemeRegistrar" or "AbsoluteVote"
+   */
+  contractName: string;
+  contractAddress: Address;
+  /**
+   * Like "setParameters" or "proposeToAddModifyScheme"
+   */
+  functionName: DaoUpgradePlanFunctionName;
+  options: any;
+  /**
+   * true if the step submits a proposal upon which the DAO must vote
+   */
+  isProposal: boolean;
+}
+
+export interface DaoUpgradePlan {
+  avatar: Address;
+  diff: DaoConfigurationDiff;
+  /**
+   * The transactions to send, in order: first registering any new parameters, then the proposals
+   * in the order in which they should be executed.
+   */
+  steps: Array<DaoUpgradePlanStep>;
+  /**
+   * Readable reasons why the plan cannot fully reach the target.  `DaoUpgradePlanner.execute`
+   * refuses to execute a plan having problems.
+   */
+  problems: Array<string>;
+}
+
+export interface DaoUpgradePlanStepResult {
+  step: DaoUpgradePlanStep;
+  tx: Hash;
+  /**
+   * The id of the proposal, when the step is a proposal
+   */
+  proposalId?: Hash;
+}
+
+/**
+ * Computes the differences between a DAO's current schemes and global constraints and a target configuration,
+ * and the proposals needed to get from one to the other.  See [Planning Changes to a DAO](/Daos.md#upgradeplans).
+ */
+export class DaoUpgradePlanner {
+
+  /**
+   * Returns a promise of the plan to bring the DAO at the given address to the target configuration.
+   * Makes no transactions.
+   * @param avatarAddress
+   * @param target
+   */
+  public static async plan(avatarAddress: Address, target: DaoUpgradeTarget): Promise<DaoUpgradePlan> {
+
+    const dao = await DAO.at(avatarAddress);
+
+    if (!dao) {
+      throw new Error(`DaoUpgradePlanner.plan: no DAO was found at ${avatarAddress}`);
+    }
+
+    const problems = new Array<string>();
+    const diff: DaoConfigurationDiff = {
+      addedGlobalConstraints: [],
+      addedSchemes: [],
+      modifiedGlobalConstraints: [],
+      modifiedSchemes: [],
+      removedGlobalConstraints: [],
+      removedSchemes: [],
+    };
+
+    /**
+     * parameters that must be registered before proposing, and the proposals themselves
+     */
+    const parameterSteps = new Array<DaoUpgradePlanStep>();
+    const requiredParameters = new Map<string, Array<DaoUpgradePlanStep>>();
+    const proposalSteps = new Array<{ order: number, step: DaoUpgradePlanStep }>();
+
+    const requireParameters = (key: string): void => {
+      for (const step of (requiredParameters.get(key) || [])) {
+        if (!parameterSteps.some((s: DaoUpgradePlanStep) =>
+          (s.contractAddress === step.contractAddress) && (s.description === step.description))) {
+          parameterSteps.push(step);
+        }
+      }
+    };
+
+    /**
+     * schemes
+     */
+    const currentSchemes = await DaoUpgradePlanner.getCurrentSchemes(dao);
+    const targetSchemes = await DaoUpgradePlanner.getTargetSchemes(target, requiredParameters, problems);
+
+    for (const targetScheme of targetSchemes) {
+      const currentScheme = currentSchemes.find((s: DaoSchemeDiff) => s.address === targetScheme.address);
+      if (!currentScheme) {
+        diff.addedSchemes.push(targetScheme);
+      } else {
+        const schemeDiff = Object.assign({}, targetScheme, {
+          currentParametersHash: currentScheme.currentParametersHash,
+          currentPermissions: currentScheme.currentPermissions,
+          currentVoteParametersHash: currentScheme.currentVoteParametersHash,
+        });
+        if (schemeDiff.currentPermissions !== schemeDiff.targetPermissions) {
+          schemeDiff.changes.push("permissions");
+        }
+        if (schemeDiff.currentParametersHash !== schemeDiff.targetParametersHash) {
+          schemeDiff.changes.push("parameters");
+          if (schemeDiff.currentVoteParametersHash && schemeDiff.targetVoteParametersHash &&
+            (schemeDiff.currentVoteParametersHash !== schemeDiff.targetVoteParametersHash)) {
+            schemeDiff.changes.push("votingParameters");
+          }
+        }
+        if (schemeDiff.changes.length) {
+          diff.modifiedSchemes.push(schemeDiff);
+        }
+      }
+    }
+
+    diff.removedSchemes = currentSchemes.filter((currentScheme: DaoSchemeDiff) =>
+      !targetSchemes.some((s: DaoSchemeDiff) => s.address === currentScheme.address));
+
+    const schemeRegistrar = currentSchemes.find((s: DaoSchemeDiff) => s.name === "SchemeRegistrar");
+    const upgradeScheme = currentSchemes.find((s: DaoSchemeDiff) => s.name === "UpgradeScheme");
+
+    /**
+     * A change to the DAO's UpgradeScheme's address or parameters is made by the UpgradeScheme itself
+     */
+    const newUpgradeScheme = upgradeScheme &&
+      [...diff.addedSchemes, ...diff.modifiedSchemes].find((s: DaoSchemeDiff) =>
+        (s.name === "UpgradeScheme") &&
+        ((s.address !== upgradeScheme.address) || (s.targetParametersHash !== upgradeScheme.currentParametersHash)) &&
+        ((s.address === upgradeScheme.address) ||
+          diff.removedSchemes.some((r: DaoSchemeDiff) => r.address === upgradeScheme.address)));
+
+    if (newUpgradeScheme) {
+      requireParameters(newUpgradeScheme.address);
+      proposalSteps.push({
+        order: 6,
+        step: {
+          contractAddress: upgradeScheme.address,
+          contractName: "UpgradeScheme",
+          description: `propose to replace the UpgradeScheme with ${newUpgradeScheme.address}`,
+          functionName: "proposeUpgradingScheme",
+          isProposal: true,
+          options: {
+            avatar: avatarAddress,
+            scheme: newUpgradeScheme.address,
+            schemeParametersHash: newUpgradeScheme.targetParametersHash,
+          },
+        },
+      });
+    }
+
+    const schemeRegistrarStep = (
+      order: number,
+      description: string,
+      functionName: DaoUpgradePlanFunctionName,
+      options: any): void => {
+      if (!schemeRegistrar) {
+        problems.push(`cannot ${description}: the DAO has no SchemeRegistrar`);
+        return;
+      }
+      proposalSteps.push({
+        order,
+        step: {
+          contractAddress: schemeRegistrar.address,
+          contractName: "SchemeRegistrar",
+          description,
+          functionName,
+          isProposal: true,
+          options: Object.assign({ avatar: avatarAddress }, options),
+        },
+      });
+    };
+
+    for (const scheme of [...diff.addedSchemes, ...diff.modifiedSchemes]) {
+      if (scheme === newUpgradeScheme) {
+        continue; // see proposeUpgradingScheme above
+      }
+      requireParameters(scheme.address);
+      const isAdded = diff.addedSchemes.includes(scheme);
+      schemeRegistrarStep(
+        (schemeRegistrar && (scheme.address === schemeRegistrar.address)) ? 7 : (isAdded ? 1 : 2),
+        `propose to ${isAdded ? "add" : "modify"} ${DaoUpgradePlanner.describe(scheme)}`,
+        "proposeToAddModifyScheme",
+        {
+          permissions: scheme.targetPermissions,
+          schemeAddress: scheme.address,
+          schemeName: scheme.name || null,
+          schemeParametersHash: scheme.targetParametersHash,
+        });
+    }
+
+    for (const scheme of diff.removedSchemes) {
+      if (newUpgradeScheme && (scheme.address === upgradeScheme.address)) {
+        continue; // replaced by proposeUpgradingScheme
+      }
+      schemeRegistrarStep(
+        (schemeRegistrar && (scheme.address === schemeRegistrar.address)) ? 8 : 5,
+        `propose to remove ${DaoUpgradePlanner.describe(scheme)}`,
+        "proposeToRemoveScheme",
+        { schemeAddress: scheme.address });
+    }
+
+    /**
+     * global constraints
+     */
+    const currentConstraints = (await dao.getGlobalConstraints()).map((gc: DaoGlobalConstraintInfo) => ({
+      address: gc.address,
+      currentParametersHash: gc.paramsHash,
+      name: gc.wrapper ? gc.wrapper.name : undefined,
+    }));
+    const targetConstraints =
+      await DaoUpgradePlanner.getTargetConstraints(dao, target, requiredParameters, problems);
+
+    for (const targetConstraint of targetConstraints) {
+      const currentConstraint = currentConstraints.find((c: DaoGlobalConstraintDiff) =>
+        c.address === targetConstraint.address);
+      if (!currentConstraint) {
+        diff.addedGlobalConstraints.push(targetConstraint);
+      } else if (currentConstraint.currentParametersHash !== targetConstraint.targetParametersHash) {
+        diff.modifiedGlobalConstraints.push(
+          Object.assign({}, targetConstraint, { currentParametersHash: currentConstraint.currentParametersHash }));
+      }
+    }
+
+    diff.removedGlobalConstraints = currentConstraints.filter((currentConstraint: DaoGlobalConstraintDiff) =>
+      !targetConstraints.some((c: DaoGlobalConstraintDiff) => c.address === currentConstraint.address));
+
+    const constraintChanges = [...diff.addedGlobalConstraints, ...diff.modifiedGlobalConstraints];
+
+    if (constraintChanges.length || diff.removedGlobalConstraints.length) {
+      const registrar = currentSchemes.find((s: DaoSchemeDiff) => s.name === "GlobalConstraintRegistrar");
+
+      if (!registrar) {
+        problems.push("cannot change global constraints: the DAO has no GlobalConstraintRegistrar");
+      } else {
+        const registrarStep = (
+          order: number,
+          description: string,
+          functionName: DaoUpgradePlanFunctionName,
+          options: any): void => {
+          proposalSteps.push({
+            order,
+            step: {
+              contractAddress: registrar.address,
+              contractName: "GlobalConstraintRegistrar",
+              description,
+              functionName,
+              isProposal: true,
+              options: Object.assign({ avatar: avatarAddress }, options),
+            },
+          });
+        };
+
+        for (const constraint of constraintChanges) {
+          requireParameters(constraint.address);
+          registrarStep(3,
+            `propose to ${diff.addedGlobalConstraints.includes(constraint) ? "add" : "modify"} ` +
+            `global constraint ${DaoUpgradePlanner.describe(constraint)}`,
+            "proposeToAddModifyGlobalConstraint",
+            {
+              globalConstraint: constraint.address,
+              globalConstraintParametersHash: constraint.targetParametersHash,
+              // the voting machine parameters for voting on the constraint's eventual removal
+              votingMachineHash: registrar.currentVoteParametersHash,
+            });
+        }
+
+        for (const constraint of diff.removedGlobalConstraints) {
+          registrarStep(4,
+            `propose to remove global constraint ${DaoUpgradePlanner.describe(constraint)}`,
+            "proposeToRemoveGlobalConstraint",
+            { globalConstraintAddress: constraint.address });
+        }
+      }
+    }
+
+    return {
+      avatar: avatarAddress,
+      diff,
+      problems,
+      steps: [
+        ...parameterSteps,
+        ...proposalSteps
+          .sort((a: { order: number }, b: { order: number }) => a.order - b.order)
+          .map((s: { step: DaoUpgradePlanStep }) => s.step),
+      ],
+    };
+  }
+
+  /**
+   * Send the transactions of the given plan, in order, each awaiting the previous one to be mined.
+   * Returns the transaction hash and, for proposals, the proposal id of each step.
+   * Throws an exception if the plan has problems.
+   * @param plan
+   */
+  public static async execute(plan: DaoUpgradePlan): Promise<Array<DaoUpgradePlanStepResult>> {
+
+    if (plan.problems.length) {
+      throw new Error(`DaoUpgradePlanner.execute: the plan has problems:\n  ${plan.problems.join("\n  ")}`);
+    }
+
+    const results = new Array<DaoUpgradePlanStepResult>();
+
+    for (const step of plan.steps) {
+      const wrapper: PlanStepWrapper =
+        await WrapperService.getContractWrapper(step.contractName, step.contractAddress);
+
+      if (!wrapper) {
+        throw new Error(`DaoUpgradePlanner.execute: ${step.contractName} was not found at ${step.contractAddress}`);
+      }
+
+      const func = wrapper[step.functionName];
+
+      if (!func) {
+        throw new Error(`DaoUpgradePlanner.execute: ${step.contractName} has no function ${step.functionName}`);
+      }
+
+      LoggingService.info(`DaoUpgradePlanner.execute: ${step.description}`);
+
+      const txResult = await func.call(wrapper, step.options);
+      const result: DaoUpgradePlanStepResult = { step, tx: txResult.tx };
+
+      if (txResult instanceof ArcTransactionProposalResult) {
+        result.proposalId = await txResult.getProposalIdFromMinedTx();
+      } else {
+        // avoid nonce collisions
+        await txResult.watchForTxMined();
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private static describe(item: { name?: string, address: Address }): string {
+    return item.name ? `${item.name} (${item.address})` : item.address;
+  }
+
+  private static async getCurrentSchemes(dao: DAO): Promise<Array<DaoSchemeDiff>> {
+    const avatarAddress = dao.avatar.address;
+
+    return Promise.all((await dao.getSchemes()).map(async (scheme: DaoSchemeInfo): Promise<DaoSchemeDiff> => {
+      const wrapper = scheme.wrapper as IUniversalSchemeWrapper;
+      let currentVoteParametersHash: Hash;
+
+      if (wrapper && wrapper.getSchemeParameters) {
+        try {
+          currentVoteParametersHash = (await wrapper.getSchemeParameters(avatarAddress)).voteParametersHash;
+        } catch (ex) {
+          // not a universal scheme
+        }
+      }
+
+      return {
+        address: scheme.address,
+        changes: [],
+        currentParametersHash: await dao.controller.getSchemeParameters(scheme.address, avatarAddress),
+        currentPermissions: SchemePermissions.fromString(
+          await dao.controller.getSchemePermissions(scheme.address, avatarAddress)),
+        currentVoteParametersHash,
+        name: wrapper ? wrapper.name : undefined,
+      };
+    }));
+  }
+
+  /**
+   * Computes the parameters hashes and permissions the target's schemes should have, just as
+   * `DaoCreator.setSchemes` would, noting in `requiredParameters` the `setParameters` calls
+   * needed to register the parameters.
+   */
+  private static async getTargetSchemes(
+    target: DaoUpgradeTarget,
+    requiredParameters: Map<string, Array<DaoUpgradePlanStep>>,
+    problems: Array<string>): Promise<Array<DaoSchemeDiff>> {
+
+    const defaultVotingMachineParams = Object.assign(
+      { votingMachineName: ConfigService.get("defaultVotingMachine") },
+      target.votingMachineParams || {});
+
+    const targetSchemes = new Array<DaoSchemeDiff>();
+
+    for (const scheme of (target.schemes || [])) {
+      const wrapper = scheme.name ?
+        await WrapperService.getContractWrapper(scheme.name, scheme.address) as IUniversalSchemeWrapper : undefined;
+      const address = wrapper ? wrapper.address : (scheme.address && scheme.address.toLowerCase());
+
+      if (!address) {
+        problems.push(`scheme ${scheme.name || ""}: was not found`);
+        continue;
+      }
+
+      const permissions = DaoSpecService.toPermissions(scheme.permissions || 0);
+
+      if (permissions === undefined) {
+        problems.push(`scheme ${scheme.name || address}: invalid permissions`);
+        continue;
+      }
+
+      const targetScheme: DaoSchemeDiff = {
+        address,
+        changes: [],
+        name: wrapper ? wrapper.name : undefined,
+        targetParametersHash: scheme.parametersHash,
+        /* tslint:disable-next-line:no-bitwise */
+        targetPermissions: (wrapper ? wrapper.getDefaultPermissions() : 0) | permissions |
+          SchemePermissions.IsRegistered,
+      };
+
+      const isUniversal = wrapper && !!wrapper.contract.getParametersHash && !!wrapper.contract.setParameters;
+
+      if (isUniversal && !scheme.parametersHash) {
+        const steps = new Array<DaoUpgradePlanStep>();
+        const votingMachineParams = Object.assign({}, defaultVotingMachineParams, scheme.votingMachineParams || {});
+        const votingMachine = await WrapperService.getContractWrapper(
+          votingMachineParams.votingMachineName,
+          votingMachineParams.votingMachineAddress) as IVotingMachineWrapper;
+
+        if (!votingMachine) {
+          problems.push(`scheme ${scheme.name}: voting machine ${votingMachineParams.votingMachineName} was not found`);
+          continue;
+        }
+
+        votingMachineParams.votingMachineAddress = votingMachine.address;
+        targetScheme.targetVoteParametersHash = await votingMachine.getParametersHash(votingMachineParams);
+        steps.push(DaoUpgradePlanner.setParametersStep(
+          votingMachine, votingMachineParams, targetScheme.targetVoteParametersHash));
+
+        const schemeParams = DaoUpgradePlanner.getSchemeParams(scheme);
+        Object.assign(schemeParams, {
+          voteParametersHash: targetScheme.targetVoteParametersHash,
+          votingMachineAddress: votingMachine.address,
+        });
+        targetScheme.targetParametersHash = await wrapper.getParametersHash(schemeParams);
+        steps.push(DaoUpgradePlanner.setParametersStep(wrapper, schemeParams, targetScheme.targetParametersHash));
+
+        requiredParameters.set(address, steps);
+      } else if (!targetScheme.targetParametersHash) {
+        targetScheme.targetParametersHash = Utils.NULL_HASH;
+      }
+
+      targetSchemes.push(targetScheme);
+    }
+
+    return targetSchemes;
+  }
+
+  private static async getTargetConstraints(
+    dao: DAO,
+    target: DaoUpgradeTarget,
+    requiredParameters: Map<string, Array<DaoUpgradePlanStep>>,
+    problems: Array<string>): Promise<Array<DaoGlobalConstraintDiff>> {
+
+    const targetConstraints = new Array<DaoGlobalConstraintDiff>();
+
+    for (const constraint of (target.globalConstraints || [])) {
+      const wrapper = constraint.name ?
+        await WrapperService.getContractWrapper(constraint.name, constraint.address) as IUniversalSchemeWrapper :
+        undefined;
+      const address = wrapper ? wrapper.address : (constraint.address && constraint.address.toLowerCase());
+
+      if (!address) {
+        problems.push(`global constraint ${constraint.name || ""}: was not found`);
+        continue;
+      }
+
+      let parametersHash = constraint.parametersHash;
+
+      if (!parametersHash) {
+        if (!wrapper) {
+          problems.push(`global constraint ${address}: requires a parametersHash`);
+          continue;
+        }
+        const params = Object.assign({}, constraint.params);
+        if (constraint.name === "TokenCapGC") {
+          params.token = params.token || dao.token.address;
+          params.cap = (await Utils.getWeb3()).toWei((params.cap || 0).toString());
+        }
+        parametersHash = await wrapper.getParametersHash(params);
+        requiredParameters.set(address, [DaoUpgradePlanner.setParametersStep(wrapper, params, parametersHash)]);
+      }
+
+      targetConstraints.push({
+        address,
+        name: wrapper ? wrapper.name : constraint.name,
+        targetParametersHash: parametersHash,
+      });
+    }
+
+    return targetConstraints;
+  }
+
+  /**
+   * Returns the scheme's own parameters from its `SchemeConfig`
+   */
+  private static getSchemeParams(scheme: SchemeConfig): any {
+    const params = Object.assign({}, scheme);
+    for (const key of ["name", "address", "permissions", "votingMachineParams", "parametersHash"]) {
+      delete params[key];
+    }
+    return params;
+  }
+
+  private static setParametersStep(wrapper: IContractWrapper, params: any, hash: Hash): DaoUpgradePlanStep {
+    return {
+      contractAddress: wrapper.address,
+      contractName: wrapper.name,
+      description: `register parameters ${hash} with ${wrapper.name}`,
+      functionName: "setParameters",
+      isProposal: false,
+      options: params,
+    };
+  }
+}
@@ -0,0 +1,286 @@
+import { BigNumber } from "bignumber.js";
+import { DecodedLogEntryEvent } from "web3";
+import { Hash } from "./commonTypes";
+import { LoggingService } from "./loggingService";
+
+/**
+ * The events that `Web3EventService` has fetched for a single contract, event and filter,
+ * from `fromBlock` up to and including `lastSyncedBlock`.
+ */
+export interface CachedEvents {
+  /**
+   * Identifies the network, contract, event, argument filter and starting block
+   */
+  key: string;
+  /**
+   * The id of the network from which the events were fetched
+   */
+  networkId: number;
+  /**
+   * First block from which the events were fetched
+   */
+  fromBlock: number;
+  /**
+   * Last block from which the events were fetched.  The next sync starts with the block after it.
+   */
+  lastSyncedBlock: number;
+  /**
+   * Hash of `lastSyncedBlock`, used to tell whether the cached events still belong to the chain.
+   */
+  lastSyncedBlockHash: Hash;
+  /**
+   * The decoded events, in the order in which they were fetched
+   */
+  events: Array<DecodedLogEntryEvent<any>>;
+}
+
+/**
+ * Stores the events fetched by `EventFetcher.get` and `EntityFetcher.get` so that later calls
+ * need only fetch events from blocks that have been mined since.
+ * Supply an implementation to `InitializeArcJs` (see `InitializeArcOptions.eventCacheStore`)
+ * or to `Web3EventService.setEventCacheStore`.
+ *
+ * All methods are asynchronous so that implementations may use asynchronous storage.
+ * See [Caching Events](/Events.md#cachingevents).
+ */
+export interface IEventCacheStore {
+  /**
+   * Returns promise of the cached events with the given key, or undefined if not found.
+   */
+  get(key: string): Promise<CachedEvents | undefined>;
+  /**
+   * Add or replace the cached events with the given `key`.
+   */
+  set(cachedEvents: CachedEvents): Promise<void>;
+  /**
+   * Remove the cached events with the given key.  Does nothing if they are not found.
+   */
+  remove(key: string): Promise<void>;
+  /**
+   * Remove everything from the store.
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * An `IEventCacheStore` that keeps events in memory.  It does not persist across application instances.
+ */
+export class InMemoryEventCacheStore implements IEventCacheStore {
+
+  protected cache: Map<string, CachedEvents> = new Map<string, CachedEvents>();
+
+  public get(key: string): Promise<CachedEvents | undefined> {
+    return Promise.resolve(this.cache.get(key));
+  }
+
+  public set(cachedEvents: CachedEvents): Promise<void> {
+    this.cache.set(cachedEvents.key, cachedEvents);
+    return Promise.resolve();
+  }
+
+  public remove(key: string): Promise<void> {
+    this.cache.delete(key);
+    return Promise.resolve();
+  }
+
+  public clear(): Promise<void> {
+    this.cache.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Base class for `IEventCacheStore`s that persist each `CachedEvents` as a string,
+ * preserving the `BigNumber`s among the event args.
+ */
+export abstract class SerializingEventCacheStore implements IEventCacheStore {
+
+  private static isBigNumber(value: any): boolean {
+    // instanceof alone won't work because there may be multiple versions of BigNumber
+    return (value instanceof BigNumber) ||
+      (!!value && ((value.isBigNumber === true) || (!!value.constructor && (value.constructor.name === "BigNumber"))));
+  }
+
+  private static serialize(cachedEvents: CachedEvents): string {
+    const encode = (value: any): any => {
+      if (SerializingEventCacheStore.isBigNumber(value)) {
+        return { _bigNumber: value.toString(10) };
+      } else if (Array.isArray(value)) {
+        return value.map(encode);
+      } else if (value && (typeof value === "object")) {
+        const encoded: any = {};
+        Object.keys(value).forEach((key: string) => { encoded[key] = encode(value[key]); });
+        return encoded;
+      }
+      return value;
+    };
+    return JSON.stringify(Object.assign({}, cachedEvents, {
+      events: cachedEvents.events.map((event: DecodedLogEntryEvent<any>) =>
+        Object.assign({}, event, { args: encode(event.args) })),
+    }));
+  }
+
+  private static deserialize(serialized: string): CachedEvents {
+    return JSON.parse(serialized, (key: string, value: any): any =>
+      (value && (typeof value._bigNumber === "string")) ? new BigNumber(value._bigNumber) : value);
+  }
+
+  public async get(key: string): Promise<CachedEvents | undefined> {
+    try {
+      const serialized = await this.read(key);
+      return serialized ? SerializingEventCacheStore.deserialize(serialized) : undefined;
+    } catch (ex) {
+      LoggingService.error(`SerializingEventCacheStore: unable to load cached events: ${ex}`);
+      return undefined;
+    }
+  }
+
+  public set(cachedEvents: CachedEvents): Promise<void> {
+    return this.write(cachedEvents.key, SerializingEventCacheStore.serialize(cachedEvents));
+  }
+
+  public remove(key: string): Promise<void> {
+    return this.erase(key);
+  }
+
+  public clear(): Promise<void> {
+    return this.eraseAll();
+  }
+
+  /**
+   * Returns promise of the serialized events saved under the given key, or undefined if not found.
+   */
+  protected abstract read(key: string): Promise<string | undefined>;
+  /**
+   * Persist the given serialized events under the given key.
+   */
+  protected abstract write(key: string, serialized: string): Promise<void>;
+  /**
+   * Remove the events saved under the given key.
+   */
+  protected abstract erase(key: string): Promise<void>;
+  /**
+   * Remove every saved event.
+   */
+  protected abstract eraseAll(): Promise<void>;
+}
+
+/**
+ * An `IEventCacheStore` that persists events in JSON files, one per key, in the given directory.
+ * Only for use in Node.js.
+ */
+export class JsonFileEventCacheStore extends SerializingEventCacheStore {
+
+  /**
+   * @param directoryPath Path to the directory in which to save the files.
+   * The directory is created if it doesn't already exist.
+   */
+  constructor(private directoryPath: string) {
+    super();
+    if (!directoryPath) {
+      throw new Error("JsonFileEventCacheStore: directoryPath is not defined");
+    }
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    const filePath = this.getFilePath(key);
+    if (!(await fs.pathExists(filePath))) {
+      return undefined;
+    }
+    return fs.readFile(filePath, "utf8");
+  }
+
+  protected write(key: string, serialized: string): Promise<void> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    return fs.outputFile(this.getFilePath(key), serialized, "utf8");
+  }
+
+  protected erase(key: string): Promise<void> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    return fs.remove(this.getFilePath(key));
+  }
+
+  protected eraseAll(): Promise<void> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    return fs.emptyDir(this.directoryPath);
+  }
+
+  private getFilePath(key: string): string {
+    /* tslint:disable-next-line:no-var-requires */
+    const crypto = require("crypto");
+    /* tslint:disable-next-line:no-var-requires */
+    const path = require("path");
+    return path.join(this.directoryPath, `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
+
+/**
+ * An `IEventCacheStore` that persists events in the browser's IndexedDB.
+ */
+export class IndexedDbEventCacheStore extends SerializingEventCacheStore {
+
+  private static storeName: string = "events";
+
+  private db: Promise<IDBDatabase>;
+
+  /**
+   * @param databaseName Name of the IndexedDB database in which to save the events.
+   */
+  constructor(private databaseName: string = "arcjs.eventCache") {
+    super();
+    if ((typeof window === "undefined") || !window.indexedDB) {
+      throw new Error("IndexedDbEventCacheStore: IndexedDB is not available");
+    }
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    return this.request<string | undefined>("readonly",
+      (store: IDBObjectStore): IDBRequest => store.get(key));
+  }
+
+  protected async write(key: string, serialized: string): Promise<void> {
+    await this.request("readwrite", (store: IDBObjectStore): IDBRequest => store.put(serialized, key));
+  }
+
+  protected async erase(key: string): Promise<void> {
+    await this.request("readwrite", (store: IDBObjectStore): IDBRequest => store.delete(key));
+  }
+
+  protected async eraseAll(): Promise<void> {
+    await this.request("readwrite", (store: IDBObjectStore): IDBRequest => store.clear());
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>(
+        (resolve: (db: IDBDatabase) => void, reject: (error: Error) => void): void => {
+          const request = window.indexedDB.open(this.databaseName, 1);
+          request.onupgradeneeded = (): void => {
+            request.result.createObjectStore(IndexedDbEventCacheStore.storeName);
+          };
+          request.onsuccess = (): void => { resolve(request.result); };
+          request.onerror = (): void => { reject(request.error as any); };
+        });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve: (result: T) => void, reject: (error: Error) => void): void => {
+      const request = makeRequest(
+        db.transaction(IndexedDbEventCacheStore.storeName, mode).objectStore(IndexedDbEventCacheStore.storeName));
+      request.onsuccess = (): void => { resolve(request.result); };
+      request.onerror = (): void => { reject(request.error as any); };
+    });
+  }
+}
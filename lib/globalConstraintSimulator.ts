@@ -0,0 +1,188 @@
+import { BigNumber } from "bignumber.js";
+import { Address } from "./commonTypes";
+import { DAO, DaoGlobalConstraintInfo } from "./dao";
+import { StandardTokenFactory } from "./wrappers/standardToken";
+import { GetTokenCapGcParamsResult, TokenCapGCWrapper } from "./wrappers/tokenCapGC";
+
+/**
+ * Predicts whether a DAO's global constraints would reject an action before you propose it,
+ * such as a `ContributionReward` whose native token reward would exceed the cap set by `TokenCapGC`.
+ *
+ * See [Simulating Global Constraints](/Proposals.md#globalconstraintsimulation).
+ */
+export class GlobalConstraintSimulator {
+
+  /**
+   * Returns the promise of a prediction of whether the DAO's registered global constraints,
+   * and the cap of the DAO's native token, would reject the given action, given the current
+   * total supply of the tokens.
+   * @param options
+   */
+  public static async simulate(options: SimulateGlobalConstraintsOptions): Promise<GlobalConstraintSimulation> {
+
+    if (!options.avatarAddress) {
+      throw new Error("avatarAddress is not defined");
+    }
+
+    if (!options.action) {
+      throw new Error("action is not defined");
+    }
+
+    const dao = await DAO.at(options.avatarAddress);
+    const nativeTokenAmount = GlobalConstraintSimulator.getNativeTokenAmount(options.action);
+    const totalSupply = await dao.token.getTotalSupply();
+    const projectedTotalSupply = totalSupply.add(nativeTokenAmount);
+    const violations = new Array<GlobalConstraintViolation>();
+    const unpredictable = new Array<DaoGlobalConstraintInfo>();
+
+    const tokenCap = await dao.token.getTokenCap();
+
+    if (tokenCap.gt(0) && projectedTotalSupply.gt(tokenCap)) {
+      violations.push({
+        address: dao.token.address,
+        cap: tokenCap,
+        name: "DAOToken",
+        reason: `the total supply of ${projectedTotalSupply.toString(10)} would exceed the token's cap`,
+        tokenAddress: dao.token.address,
+        totalSupply: projectedTotalSupply,
+      });
+    }
+
+    for (const constraint of await dao.getGlobalConstraints()) {
+      if (!constraint.wrapper || (constraint.wrapper.name !== "TokenCapGC")) {
+        unpredictable.push(constraint);
+        continue;
+      }
+
+      const params: GetTokenCapGcParamsResult =
+        await (constraint.wrapper as TokenCapGCWrapper).getParameters(constraint.paramsHash);
+
+      if (!params.token || /^0x0*$/.test(params.token)) {
+        continue; // TokenCapGC.post lets everything pass
+      }
+
+      const supply = (params.token.toLowerCase() === dao.token.address.toLowerCase()) ? projectedTotalSupply :
+        await (await StandardTokenFactory.at(params.token)).getTotalSupply();
+
+      if (supply.gt(params.cap)) {
+        violations.push({
+          address: constraint.address,
+          cap: params.cap,
+          name: "TokenCapGC",
+          phase: "post",
+          reason: `the total supply of ${supply.toString(10)} would exceed the cap of ${params.cap.toString(10)}`,
+          tokenAddress: params.token,
+          totalSupply: supply,
+        });
+      }
+    }
+
+    return {
+      allowed: violations.length === 0,
+      nativeTokenAmount,
+      projectedTotalSupply,
+      totalSupply,
+      unpredictable,
+      violations,
+    };
+  }
+
+  /**
+   * Returns the number of the DAO's native tokens that the action would mint
+   */
+  private static getNativeTokenAmount(action: SimulatedDaoAction): BigNumber {
+    switch (action.type) {
+      case "ContributionReward":
+        return new BigNumber(action.nativeTokenReward || 0).mul(action.numberOfPeriods);
+      case "MintTokens":
+        return new BigNumber(action.amount);
+      default: {
+        // fails to compile if a type of action is not handled above
+        const unknownAction: never = action;
+        throw new Error(`unknown action: ${JSON.stringify(unknownAction)}`);
+      }
+    }
+  }
+}
+
+/**
+ * A `ContributionReward` proposal, as would be given to `ContributionRewardWrapper.proposeContributionReward`.
+ * Its native token reward is minted for every period when it is redeemed.
+ */
+export interface SimulatedContributionRewardAction {
+  type: "ContributionReward";
+  /**
+   * Reward in the DAO's native token per period, in Wei
+   */
+  nativeTokenReward?: BigNumber | string;
+  numberOfPeriods: number;
+}
+
+/**
+ * Minting the DAO's native token through its controller, as `DaoToken.mint` does when called by the DAO.
+ */
+export interface SimulatedMintTokensAction {
+  type: "MintTokens";
+  /**
+   * In Wei
+   */
+  amount: BigNumber | string;
+}
+
+export type SimulatedDaoAction = SimulatedContributionRewardAction | SimulatedMintTokensAction;
+
+export interface SimulateGlobalConstraintsOptions {
+  avatarAddress: Address;
+  action: SimulatedDaoAction;
+}
+
+export interface GlobalConstraintViolation {
+  /**
+   * Address of the global constraint, or of the token when its own cap is exceeded
+   */
+  address: Address;
+  /**
+   * In Wei
+   */
+  cap: BigNumber;
+  /**
+   * "TokenCapGC", or "DAOToken" when the token's own cap is exceeded
+   */
+  name: string;
+  /**
+   * Whether the constraint's `pre` or `post` check would fail.  Undefined when the token's own cap is exceeded.
+   */
+  phase?: "pre" | "post";
+  reason: string;
+  tokenAddress: Address;
+  /**
+   * The total supply of the token after the action, in Wei
+   */
+  totalSupply: BigNumber;
+}
+
+export interface GlobalConstraintSimulation {
+  /**
+   * True if no constraint is predicted to reject the action.  Constraints in `unpredictable`
+   * may yet reject it.
+   */
+  allowed: boolean;
+  /**
+   * The number of native tokens the action would mint, in Wei
+   */
+  nativeTokenAmount: BigNumber;
+  /**
+   * The total supply of the native token after the action, in Wei
+   */
+  projectedTotalSupply: BigNumber;
+  /**
+   * The current total supply of the native token, in Wei
+   */
+  totalSupply: BigNumber;
+  /**
+   * Registered global constraints whose checks cannot be predicted because they were not deployed
+   * by the running version of Arc.js or are not `TokenCapGC`
+   */
+  unpredictable: Array<DaoGlobalConstraintInfo>;
+  violations: Array<GlobalConstraintViolation>;
+}
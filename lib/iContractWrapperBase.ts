@@ -1,8 +1,11 @@
 import BigNumber from "bignumber.js";
+import { DecodedLogEntry } from "web3";
 import { Address, Hash, SchemePermissions } from "./commonTypes";
 import {
+  ArcTransactionRevertedError,
   TransactionReceiptTruffle,
-  TransactionService
+  TransactionService,
+  TransactionSimulation
 } from "./transactionService";
 import { IIntVoteInterface } from "./wrappers/iIntVoteInterface";
 
@@ -45,6 +48,14 @@ export interface IVotingMachineWrapper extends IContractWrapper {
   getParametersArray(paramsHash: Hash): Promise<Array<any>>;
 }
 
+/**
+ * The minimum requirements for a global constraint wrapper.
+ */
+export interface IGlobalConstraintWrapper extends IContractWrapper {
+  getParametersHash(params: any): Promise<Hash>;
+  setParameters(params: any): Promise<ArcTransactionDataResult<Hash>>;
+}
+
 export interface IContractWrapperFactory<TWrapper extends IContractWrapper> {
   new: (...rest: Array<any>) => Promise<TWrapper>;
   at: (address: string) => Promise<TWrapper>;
@@ -102,14 +113,16 @@ export class ArcTransactionResult {
   /**
    * Returns promise of a mined transaction once it has been mined,
    * converted to a TransactionReceiptTruffle (with readable logs).
+   *
+   * Rejects with an `ArcTransactionRevertedError` if the transaction was reverted.
    */
   public async watchForTxMined(): Promise<TransactionReceiptTruffle> {
     if (!this.tx) {
       return null;
     }
-    return TransactionService.watchForMinedTransaction(
+    return this.throwIfReverted(await TransactionService.watchForMinedTransaction(
       this.tx,
-      this.contract) as Promise<TransactionReceiptTruffle | null>;
+      this.contract) as TransactionReceiptTruffle);
   }
 
   /**
@@ -117,6 +130,8 @@ export class ArcTransactionResult {
    * converted to a TransactionReceiptTruffle (with readable logs),
    * according to the optional `requiredDepth`.
    *
+   * Rejects with an `ArcTransactionRevertedError` if the transaction was reverted.
+   *
    * @param requiredDepth Optional minimum block depth required to resolve the promise.
    * Default comes from the `ConfigService`.
    */
@@ -124,9 +139,9 @@ export class ArcTransactionResult {
     if (!this.tx) {
       return null;
     }
-    return TransactionService.watchForConfirmedTransaction(this.tx,
+    return this.throwIfReverted(await TransactionService.watchForConfirmedTransaction(this.tx,
       this.contract,
-      requiredDepth) as Promise<TransactionReceiptTruffle | null>;
+      requiredDepth) as TransactionReceiptTruffle);
   }
 
   /**
@@ -146,6 +161,16 @@ export class ArcTransactionResult {
     const txMined = await this.watchForTxMined();
     return TransactionService.getValueFromLogs(txMined, valueName, eventName, index);
   }
+
+  private async throwIfReverted(txReceipt: TransactionReceiptTruffle): Promise<TransactionReceiptTruffle> {
+    if (txReceipt && txReceipt.receipt && (txReceipt.receipt.status !== "0x1")) {
+      throw new ArcTransactionRevertedError(
+        txReceipt.transactionHash,
+        await TransactionService.getRevertReason(txReceipt.transactionHash),
+        txReceipt);
+    }
+    return txReceipt;
+  }
 }
 /**
  * Base or actual type returned by all contract wrapper methods that generate a transaction and initiate a proposal.
@@ -188,6 +213,64 @@ export class ArcTransactionDataResult<TData> extends ArcTransactionResult {
   }
 }
 
+/**
+ * Type returned by contract wrapper methods that generate a transaction when they are invoked with
+ * `simulate: true` (see `TxGeneratingFunctionOptions.simulate`).  No transaction has been sent, so
+ * `tx` is undefined, and the methods that get or watch for the mined transaction return null.
+ */
+export class SimulatedTransactionResult extends ArcTransactionResult implements TransactionSimulation {
+  /**
+   * True if the transaction would succeed
+   */
+  public succeeded: boolean;
+  /**
+   * The estimated amount of gas that the transaction would use.  Undefined when the transaction would fail.
+   */
+  public gas?: number;
+  /**
+   * The reason given by the contract for reverting, when available
+   */
+  public revertReason?: string;
+  /**
+   * The error returned by the node, when the transaction would fail
+   */
+  public error?: Error;
+  /**
+   * The decoded events that the transaction would emit.  Undefined when the transaction would fail
+   * or when the node does not support simulating them.
+   */
+  public events?: Array<DecodedLogEntry<any>>;
+  /**
+   * The error returned by the node when reverting the EVM snapshot within which the transaction was simulated.
+   * When set, the simulated transactions may remain on the chain.
+   */
+  public revertSnapshotError?: Error;
+
+  constructor(
+    contract: any,
+    simulation: TransactionSimulation) {
+    super(undefined, contract);
+    Object.assign(this, simulation);
+  }
+}
+
+/**
+ * Type returned by contract wrapper methods that generate a transaction and any other result, such as
+ * `setParameters`, when they are invoked with `simulate: true`.
+ */
+export class SimulatedTransactionDataResult<TData> extends SimulatedTransactionResult {
+  constructor(
+    contract: any,
+    simulation: TransactionSimulation,
+    /**
+     * Additional data being returned.
+     */
+    public result: TData) {
+    super(contract, simulation);
+    this.result = result;
+  }
+}
+
 /**
  * Common scheme parameters for schemes that are able to create proposals.
  */
@@ -1,8 +1,10 @@
 /* tslint:disable:no-var-requires */
 /* tslint:disable-next-line:no-reference */
 /// <reference path="../custom_typings/web3.d.ts" />
+export * from "./accountPortfolio";
 export * from "./accountService";
 export * from "./avatarService";
+export * from "./batchReader";
 export * from "./commonTypes";
 export * from "./configService";
 export {
@@ -41,25 +43,48 @@ export * from "./wrappers/vestingScheme";
 export * from "./wrappers/voteInOrganizationScheme";
 export * from "./iContractWrapperBase";
 export * from "./dao";
+export * from "./daoSpecService";
+export * from "./daoUpgradePlanner";
+export * from "./globalConstraintSimulator";
 export * from "./contractWrapperBase";
 export * from "./schemeWrapperBase";
 export * from "./uSchemeWrapperBase";
 export * from "./contractWrapperFactory";
+export * from "./customContractWrapper";
 export * from "./pubSubEventService";
 export * from "./web3EventService";
+export * from "./eventCache";
 export * from "./proposalService";
 export * from "./proposalGeneratorBase";
+export * from "./proposalKeeper";
+export * from "./proposalTimeline";
+export * from "./redemptionService";
+export * from "./reputationAnalytics";
+export * from "./providerService";
 export * from "./loggingService";
+export * from "./nonceService";
+export * from "./signer";
 export * from "./transactionService";
+export * from "./transactionStore";
 export * from "./utils";
+export * from "./vestingAgreementBatch";
+export * from "./vestingSchedule";
+export * from "./webSocketProvider";
 
 import { Web3 } from "web3";
 import { AccountService } from "./accountService";
 import { ConfigService } from "./configService";
 import { ContractWrapperFactory } from "./contractWrapperFactory";
+import { DAO } from "./dao";
+import { IEventCacheStore } from "./eventCache";
 import { LoggingService, LogLevel } from "./loggingService";
+import { ProposalService } from "./proposalService";
 import { PubSubEventService } from "./pubSubEventService";
+import { ISigner } from "./signer";
+import { TransactionService } from "./transactionService";
+import { ITransactionStore } from "./transactionStore";
 import { Utils } from "./utils";
+import { Web3EventService } from "./web3EventService";
 import { WrapperService, WrapperServiceInitializeOptions } from "./wrapperService";
 const deployedContractAddresses = require("../migration.json");
 
@@ -99,6 +124,28 @@ export interface InitializeArcOptions extends WrapperServiceInitializeOptions {
    * ```
    */
   deployedContractAddresses?: any;
+  /**
+   * Optional store in which to cache the events fetched by `EventFetcher.get` and `EntityFetcher.get`,
+   * so that later calls need only fetch events from blocks mined since.
+   * See [Caching Events](/Events.md#cachingevents).
+   * Default is not to cache events.
+   */
+  eventCacheStore?: IEventCacheStore;
+  /**
+   * Optional signer with which to sign every transaction locally, sending it using `eth_sendRawTransaction`.
+   * Use this when the node has no unlocked accounts.  The signer's address becomes the default account.
+   * See [Signing Transactions Offline](/Transactions.md#signingtransactions).
+   * Default is to have the node sign transactions.
+   */
+  signer?: ISigner;
+  /**
+   * Optional store in which to persist transactions that have been sent but not yet confirmed.
+   * When given, Arc.js will resume watching for the pending transactions found in the store
+   * that were sent on the current network, re-publishing their `TxTracking.*` lifecycle events.
+   * See [Persisting Pending Transactions](/Transactions.md#persistingtransactions).
+   * Default is an `InMemoryTransactionStore`.
+   */
+  transactionStore?: ITransactionStore;
   /**
    * If `true` and `window.ethereum` is present, instantiate Web3 using it as the provider.
    * Ignored if `useWeb3` is given.
@@ -154,6 +201,7 @@ export async function InitializeArcJs(options: InitializeArcOptions = {}): Promi
      */
     ContractWrapperFactory.setConfigService(ConfigService);
     ContractWrapperFactory.clearContractCache();
+    ProposalService.setDaoFactory(DAO);
     /**
      * Initialize LoggingService here to avoid circular dependency involving ConfigService and PubSubService
      */
@@ -175,6 +223,8 @@ export async function InitializeArcJs(options: InitializeArcOptions = {}): Promi
       ConfigService.set("providerUrl", `${networkDefaults.host}`);
     }
 
+    Utils.setSigner(options.signer);
+
     /**
      * throws an exception if web3 cannot be initialized (no connection).
      */
@@ -211,6 +261,15 @@ export async function InitializeArcJs(options: InitializeArcOptions = {}): Promi
 
     await WrapperService.initialize(options);
 
+    if (options.eventCacheStore) {
+      Web3EventService.setEventCacheStore(options.eventCacheStore);
+    }
+
+    if (options.transactionStore) {
+      TransactionService.setTransactionStore(options.transactionStore);
+      await TransactionService.resumePendingTransactions();
+    }
+
     return web3;
   } catch (ex) {
     /* tslint:disable-next-line:no-bitwise */
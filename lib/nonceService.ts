@@ -0,0 +1,200 @@
+import { promisify } from "es6-promisify";
+import { Address, Hash } from "./commonTypes";
+import { LoggingService } from "./loggingService";
+import { Utils } from "./utils";
+
+/**
+ * Assigns nonces to transactions sent by Arc.js so that an application can send several
+ * transactions at once from the same account without them competing for the same nonce.
+ *
+ * Nonces are reserved locally, per account, on top of the count of pending transactions reported
+ * by the node.  When a transaction fails to be sent, its nonce is released to be reused by the next
+ * transaction, and once no more nonces are reserved for the account, the account is resynchronized
+ * with the node.
+ *
+ * Enable with the "[manageNonces](/Configuration.md#managenonces)" configuration setting.
+ */
+export class NonceService {
+
+  /**
+   * Returns promise of the nonce to use for the next transaction to be sent from the given account.
+   * The nonce remains reserved until you call either `markSent` or `release`.
+   * @param account
+   */
+  public static async reserve(account: Address): Promise<number> {
+
+    if (!account) {
+      throw new Error("NonceService.reserve: account is not defined");
+    }
+
+    const queue = NonceService.getQueue(account);
+
+    /**
+     * serialize reservations for the account so that no two can obtain the same nonce
+     */
+    const reservation = queue.lock.then(async (): Promise<number> => {
+
+      const pendingCount = await NonceService.getPendingTransactionCount(account);
+
+      // released nonces that the node has since seen used are no longer available
+      queue.released = queue.released.filter((n: number): boolean => n >= pendingCount);
+
+      let nonce: number;
+
+      if (queue.released.length) {
+        queue.released.sort((a: number, b: number): number => a - b);
+        nonce = queue.released.shift();
+      } else {
+        nonce = Math.max(typeof queue.nextNonce === "undefined" ? 0 : queue.nextNonce, pendingCount);
+        queue.nextNonce = nonce + 1;
+      }
+
+      queue.reserved.add(nonce);
+      LoggingService.debug(`NonceService: reserved nonce ${nonce} for ${account}`);
+      return nonce;
+    });
+
+    // don't let a failed reservation block the ones that follow
+    queue.lock = reservation.then((): void => undefined, (): void => undefined);
+
+    return reservation;
+  }
+
+  /**
+   * Indicate that a transaction has been sent with the given reserved nonce.
+   * @param account
+   * @param nonce
+   * @param txHash
+   */
+  public static markSent(account: Address, nonce: number, txHash: Hash): void {
+    const queue = NonceService.getQueue(account);
+    queue.reserved.delete(nonce);
+    queue.lastSentTx = txHash;
+    queue.lastSentNonce = nonce;
+  }
+
+  /**
+   * Indicate that the transaction with the given reserved nonce could not be sent, making the nonce
+   * available again.  Resynchronizes the account with the node if no other nonces remain reserved.
+   * @param account
+   * @param nonce
+   */
+  public static release(account: Address, nonce: number): void {
+    const queue = NonceService.getQueue(account);
+    if (queue.reserved.delete(nonce)) {
+      queue.released.push(nonce);
+      LoggingService.debug(`NonceService: released nonce ${nonce} for ${account}`);
+    }
+    if (!queue.reserved.size) {
+      NonceService.resync(account);
+    }
+  }
+
+  /**
+   * Forget locally-tracked nonces for the given account, or for all accounts, so that
+   * the next nonce will be obtained from the node.  Does not affect nonces that are currently reserved.
+   * @param account Optional, default is all accounts
+   */
+  public static resync(account?: Address): void {
+    const accounts = account ? [account.toLowerCase()] : Array.from(NonceService.queues.keys());
+    for (const key of accounts) {
+      const queue = NonceService.queues.get(key);
+      if (queue) {
+        LoggingService.debug(`NonceService: resynchronizing ${key}`);
+        queue.nextNonce = queue.reserved.size ? Math.max(...Array.from(queue.reserved)) + 1 : undefined;
+        queue.released = [];
+      }
+    }
+  }
+
+  /**
+   * Returns the state of the nonce queue of the given account, or of all accounts.
+   * @param account Optional, default is all accounts
+   */
+  public static getState(account?: Address): Array<NonceQueueState> {
+    const accounts = account ? [account.toLowerCase()] : Array.from(NonceService.queues.keys());
+    return accounts
+      .filter((key: Address): boolean => NonceService.queues.has(key))
+      .map((key: Address): NonceQueueState => {
+        const queue = NonceService.queues.get(key);
+        return {
+          account: key,
+          lastSentNonce: queue.lastSentNonce,
+          lastSentTx: queue.lastSentTx,
+          nextNonce: queue.nextNonce,
+          releasedNonces: queue.released.slice().sort((a: number, b: number): number => a - b),
+          reservedNonces: Array.from(queue.reserved).sort((a: number, b: number): number => a - b),
+        };
+      });
+  }
+
+  /**
+   * Forget everything about every account.
+   */
+  public static clear(): void {
+    NonceService.queues.clear();
+  }
+
+  private static queues: Map<Address, NonceQueue> = new Map<Address, NonceQueue>();
+
+  private static getQueue(account: Address): NonceQueue {
+    const key = account.toLowerCase();
+    let queue = NonceService.queues.get(key);
+    if (!queue) {
+      queue = {
+        lock: Promise.resolve(),
+        nextNonce: undefined,
+        released: new Array<number>(),
+        reserved: new Set<number>(),
+      };
+      NonceService.queues.set(key, queue);
+    }
+    return queue;
+  }
+
+  private static async getPendingTransactionCount(account: Address): Promise<number> {
+    const web3 = await Utils.getWeb3();
+    return promisify((callback: any): void => web3.eth.getTransactionCount(account, "pending", callback))()
+      .then((count: number | string): number => Number(count));
+  }
+}
+
+/**
+ * The state of the nonces of a single account, as returned by `NonceService.getState`.
+ */
+export interface NonceQueueState {
+  /**
+   * The account, in lowercase
+   */
+  account: Address;
+  /**
+   * The nonce that will be reserved next unless one is released first, or unless the node reports
+   * a greater count of pending transactions.  Undefined when it will be obtained from the node.
+   */
+  nextNonce: number | undefined;
+  /**
+   * Nonces that are reserved for transactions that are being sent
+   */
+  reservedNonces: Array<number>;
+  /**
+   * Nonces that were released by transactions that failed to be sent and will be reused
+   */
+  releasedNonces: Array<number>;
+  /**
+   * The nonce of the most recently sent transaction, if any
+   */
+  lastSentNonce?: number;
+  /**
+   * The hash of the most recently sent transaction, if any
+   */
+  lastSentTx?: Hash;
+}
+
+interface NonceQueue {
+  lock: Promise<any>;
+  nextNonce: number | undefined;
+  reserved: Set<number>;
+  released: Array<number>;
+  lastSentNonce?: number;
+  lastSentTx?: Hash;
+}
@@ -1,8 +1,16 @@
-import { Address } from "./commonTypes";
+import { Address, Hash } from "./commonTypes";
 import { ContractWrapperFactory } from "./contractWrapperFactory";
-import { ProposalService } from "./proposalService";
+import { DecodedLogEntryEvent } from "./iContractWrapperBase";
+import {
+  ArcProposal,
+  ArcProposalBase,
+  ArcProposalState,
+  EventHasPropertyId,
+  ProposalService
+} from "./proposalService";
 import { USchemeWrapperBase } from "./uSchemeWrapperBase";
-import { Web3EventService } from "./web3EventService";
+import { EventFetcherFactory, Web3EventService } from "./web3EventService";
+import { SchemeProposalExecutedEventResult } from "./wrappers/commonEventInterfaces";
 import { IntVoteInterfaceFactory, IntVoteInterfaceWrapper } from "./wrappers/intVoteInterface";
 
 /**
@@ -13,6 +21,7 @@ import { IntVoteInterfaceFactory, IntVoteInterfaceWrapper } from "./wrappers/int
  * place, we define this as a `USchemeWrapperBase`.
  */
 export abstract class ProposalGeneratorBase extends USchemeWrapperBase {
+  public abstract ProposalExecuted: EventFetcherFactory<SchemeProposalExecutedEventResult>;
   protected proposalService: ProposalService;
   protected votingMachineFactory: ContractWrapperFactory<IntVoteInterfaceWrapper>;
 
@@ -38,4 +47,84 @@ export abstract class ProposalGeneratorBase extends USchemeWrapperBase {
     const votingMachineAddress = await this.getVotingMachineAddress(avatarAddress);
     return this.votingMachineFactory.at(votingMachineAddress);
   }
+
+  /**
+   * Returns the promise of every proposal, votable, executed or closed, that this scheme
+   * has created for the given avatar since the given block, as `ArcProposal`s.
+   * Proposals are checked for votability against the scheme's current voting machine.
+   * See [ProposalService.getProposals](/arc.js/api/classes/ProposalService#getProposals) to
+   * get the proposals of all of a DAO's schemes at once.
+   * @param avatarAddress
+   * @param fromBlock Default is 0
+   */
+  public async getArcProposals(avatarAddress: Address, fromBlock: number = 0): Promise<Array<ArcProposal>> {
+
+    if (!avatarAddress) {
+      throw new Error("avatarAddress is not set");
+    }
+
+    const votingMachine = await this.getVotingMachine(avatarAddress);
+
+    const proposers = new Map<Hash, Address>();
+    for (const event of await votingMachine.NewProposal({ _organization: avatarAddress }, { fromBlock }).get()) {
+      proposers.set(event.args._proposalId, event.args._proposer);
+    }
+
+    const winningVotes = new Map<Hash, number>();
+    for (const event of await this.ProposalExecuted({ _avatar: avatarAddress }, { fromBlock }).get()) {
+      winningVotes.set(event.args._proposalId, Number(event.args._param));
+    }
+
+    const proposals = new Array<ArcProposal>();
+
+    for (const source of this.getArcProposalSources()) {
+      for (const event of await source.proposalsEventFetcher({ _avatar: avatarAddress }, { fromBlock }).get()) {
+        const proposalId = event.args._proposalId;
+        const winningVote = winningVotes.get(proposalId);
+        let state: ArcProposalState;
+
+        if (typeof winningVote !== "undefined") {
+          state = ArcProposalState.Executed;
+        } else {
+          state = (await votingMachine.isVotable({ proposalId })) ? ArcProposalState.Votable : ArcProposalState.Closed;
+        }
+
+        proposals.push(await source.toArcProposal(event, {
+          avatarAddress,
+          blockNumber: event.blockNumber,
+          proposalId,
+          proposerAddress: proposers.get(proposalId),
+          schemeAddress: this.address,
+          schemeName: this.name,
+          state,
+          transactionHash: event.transactionHash,
+          votingMachineAddress: votingMachine.address,
+          winningVote,
+        }));
+      }
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Returns the events by which this scheme creates proposals, with how to convert each
+   * to an `ArcProposal`.
+   */
+  protected abstract getArcProposalSources(): Array<ArcProposalSource<any>>;
+}
+
+/**
+ * An event by which a scheme creates proposals, and how to convert it to an `ArcProposal`.
+ */
+export interface ArcProposalSource<TEventArgs extends EventHasPropertyId> {
+  /**
+   * Fetches the events that announce new proposals.  Must be filterable by `_avatar`.
+   */
+  proposalsEventFetcher: EventFetcherFactory<TEventArgs>;
+  /**
+   * Returns the promise of the `ArcProposal` for the given event, given the properties
+   * common to all `ArcProposal`s.
+   */
+  toArcProposal: (event: DecodedLogEntryEvent<TEventArgs>, proposal: ArcProposalBase) => Promise<ArcProposal>;
 }
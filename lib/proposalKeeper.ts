@@ -0,0 +1,397 @@
+import { BigNumber } from "bignumber.js";
+import { promisify } from "es6-promisify";
+import { Transaction } from "web3";
+import { Address, Hash } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { ArcTransactionResult } from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { ArcProposal, ArcProposalState, ProposalService } from "./proposalService";
+import { ProposalTimeline } from "./proposalTimeline";
+import { PubSubEventService } from "./pubSubEventService";
+import {
+  TransactionReceiptTruffle,
+  TransactionReplacement,
+  TransactionService
+} from "./transactionService";
+import { Utils } from "./utils";
+import { UtilsInternal } from "./utilsInternal";
+import { GenesisProtocolFactory } from "./wrappers/genesisProtocol";
+import { IntVoteInterfaceFactory } from "./wrappers/intVoteInterface";
+
+/**
+ * Watches the votable proposals of a set of DAOs and executes those whose outcome has been decided
+ * or whose voting period has ended, as nobody else is obliged to do so.
+ *
+ * Each execution is published on the topic given by `ProposalKeeper.ExecutionEventTopic`, with
+ * a `ProposalExecutionReport` as payload, and the outcome of each check on the topic given by
+ * `ProposalKeeper.CheckedEventTopic`, with a `ProposalKeeperReport` as payload.
+ *
+ * See [Executing Proposals Automatically](/Proposals.md#proposalkeeper).
+ */
+export class ProposalKeeper {
+
+  public static ExecutionEventTopic: string = "ProposalKeeper.execution";
+  public static CheckedEventTopic: string = "ProposalKeeper.checked";
+
+  private options: ProposalKeeperOptions;
+  private attempts: Map<Hash, number> = new Map<Hash, number>();
+  private timerId: any;
+  /**
+   * The check underway, shared by `start` and callers of `check`
+   */
+  private checking: Promise<ProposalKeeperReport>;
+
+  constructor(options: ProposalKeeperOptions) {
+
+    if (!options || !options.avatarAddresses || !options.avatarAddresses.length) {
+      throw new Error("ProposalKeeper: avatarAddresses is not defined");
+    }
+
+    this.options = Object.assign({
+      gasPriceIncreaseFactor: ConfigService.get("proposalKeeperGasPriceIncreaseFactor"),
+      maxGasPrice: ConfigService.get("proposalKeeperMaxGasPrice"),
+      maxRetries: ConfigService.get("proposalKeeperMaxRetries"),
+      pollInterval: ConfigService.get("proposalKeeperPollInterval"),
+      speedUpAfter: ConfigService.get("proposalKeeperSpeedUpAfter"),
+    }, options);
+
+    const minimumFactor = TransactionService.minimumReplacementGasPriceFactor;
+
+    if (this.options.gasPriceIncreaseFactor < minimumFactor) {
+      throw new Error(`ProposalKeeper: gasPriceIncreaseFactor must be at least ${minimumFactor}`);
+    }
+  }
+
+  /**
+   * True while the keeper is checking periodically
+   */
+  public get isRunning(): boolean {
+    return !!this.timerId;
+  }
+
+  /**
+   * Check now, and then every `pollInterval` milliseconds until `stop` is called.
+   * A check is skipped if the previous one has not yet completed.
+   */
+  public start(): void {
+    if (this.timerId) {
+      return;
+    }
+
+    const tick = async (): Promise<void> => {
+      if (this.checking) {
+        return; // prevent reentrance
+      }
+      try {
+        await this.check();
+      } catch (ex) {
+        LoggingService.error(`ProposalKeeper: check failed: ${ex}`);
+      }
+    };
+
+    this.timerId = setInterval(tick, this.options.pollInterval);
+
+    // don't keep node.js running just to execute proposals
+    if (this.timerId.unref) {
+      this.timerId.unref();
+    }
+
+    tick();
+  }
+
+  /**
+   * Stop checking periodically.  Executions already underway will run to completion.
+   */
+  public stop(): void {
+    if (this.timerId) {
+      clearInterval(this.timerId);
+      this.timerId = undefined;
+    }
+  }
+
+  /**
+   * Find the executable proposals of every avatar and execute them, one at a time.
+   * Returns the promise of a report of what was done.  When a check is already underway,
+   * returns the promise of its report instead of starting another.
+   */
+  public check(): Promise<ProposalKeeperReport> {
+    if (!this.checking) {
+      const clear = (): void => { this.checking = undefined; };
+      this.checking = this.checkProposals();
+      this.checking.then(clear, clear);
+    }
+    return this.checking;
+  }
+
+  private async checkProposals(): Promise<ProposalKeeperReport> {
+    const now = (await UtilsInternal.lastBlockDate()).getTime() / 1000;
+    const report: ProposalKeeperReport = {
+      abandoned: new Array<Hash>(),
+      executions: new Array<ProposalExecutionReport>(),
+      timestamp: now,
+    };
+
+    for (const avatarAddress of this.options.avatarAddresses) {
+      let proposals: Array<ArcProposal>;
+
+      try {
+        proposals = await ProposalService.getProposals({
+          avatarAddress,
+          schemes: this.options.schemes,
+          states: [ArcProposalState.Votable],
+        });
+      } catch (ex) {
+        LoggingService.error(`ProposalKeeper: unable to get the proposals of ${avatarAddress}: ${ex}`);
+        continue;
+      }
+
+      for (const proposal of proposals) {
+        if ((this.attempts.get(proposal.proposalId) || 0) > this.options.maxRetries) {
+          report.abandoned.push(proposal.proposalId);
+          continue;
+        }
+
+        const reason = await this.getExecutableReason(proposal, now);
+
+        if (typeof reason !== "undefined") {
+          const execution = await this.execute(proposal, reason);
+          report.executions.push(execution);
+          PubSubEventService.publish(ProposalKeeper.ExecutionEventTopic, execution);
+        }
+      }
+    }
+
+    PubSubEventService.publish(ProposalKeeper.CheckedEventTopic, report);
+
+    return report;
+  }
+
+  /**
+   * Returns why the given proposal may be executed, or undefined if it may not.
+   */
+  private async getExecutableReason(proposal: ArcProposal, now: number): Promise<ExecutableReason | undefined> {
+    try {
+      if (typeof proposal.genesisProtocolState !== "undefined") {
+        const genesisProtocol = await GenesisProtocolFactory.at(proposal.votingMachineAddress);
+        const deadlines = await ProposalTimeline.getDeadlines(genesisProtocol, proposal.proposalId);
+
+        if (deadlines.preBoostedPhaseEnds && (now >= deadlines.preBoostedPhaseEnds)) {
+          return ExecutableReason.PreBoostedPhaseExpired;
+        }
+
+        if (deadlines.boostedPhaseEnds && (now >= deadlines.boostedPhaseEnds)) {
+          return ExecutableReason.BoostedPhaseEnded;
+        }
+
+        return undefined;
+      }
+
+      /**
+       * Other voting machines execute a proposal as soon as it is decided, unless a
+       * vote has left it decided but unexecuted, so see whether executing it would do so.
+       */
+      const votingMachine = await IntVoteInterfaceFactory.at(proposal.votingMachineAddress);
+      const simulation = await votingMachine.execute({
+        proposalId: proposal.proposalId,
+        simulate: true,
+      });
+
+      if (simulation.succeeded && simulation.events &&
+        simulation.events.some((event: { event: string }) => event.event === "ExecuteProposal")) {
+        return ExecutableReason.Decided;
+      }
+    } catch (ex) {
+      LoggingService.error(`ProposalKeeper: unable to determine whether ${proposal.proposalId} is executable: ${ex}`);
+    }
+
+    return undefined;
+  }
+
+  private async execute(proposal: ArcProposal, reason: ExecutableReason): Promise<ProposalExecutionReport> {
+    const attempt = (this.attempts.get(proposal.proposalId) || 0) + 1;
+    const execution: ProposalExecutionReport = {
+      attempt,
+      avatarAddress: proposal.avatarAddress,
+      proposalId: proposal.proposalId,
+      reason,
+      schemeName: proposal.schemeName,
+      succeeded: false,
+      votingMachineAddress: proposal.votingMachineAddress,
+      willRetry: false,
+    };
+
+    LoggingService.info(`ProposalKeeper: executing ${proposal.proposalId} (${ExecutableReason[reason]})`);
+
+    try {
+      const votingMachine = await IntVoteInterfaceFactory.at(proposal.votingMachineAddress);
+      const result = await votingMachine.execute({ proposalId: proposal.proposalId });
+      execution.tx = result.tx;
+
+      const receipt = await this.watchForTxMined(result);
+      execution.tx = receipt.transactionHash;
+      execution.succeeded = true;
+      this.attempts.delete(proposal.proposalId);
+    } catch (ex) {
+      execution.error = ex;
+      execution.willRetry = attempt <= this.options.maxRetries;
+      this.attempts.set(proposal.proposalId, attempt);
+      LoggingService.error(`ProposalKeeper: failed to execute ${proposal.proposalId}: ${ex}`);
+    }
+
+    return execution;
+  }
+
+  /**
+   * Returns the promise of the receipt of the given transaction, or of its replacement, once mined,
+   * speeding it up whenever it has been pending for `speedUpAfter` milliseconds, until its gas price
+   * would exceed `maxGasPrice`.
+   */
+  private async watchForTxMined(result: ArcTransactionResult): Promise<TransactionReceiptTruffle> {
+    const mined = result.watchForTxMined();
+
+    if (!this.options.speedUpAfter) {
+      return mined;
+    }
+
+    while (true) {
+      const receipt = await Promise.race([mined, UtilsInternal.sleep(this.options.speedUpAfter)]);
+
+      if (receipt) {
+        return receipt;
+      }
+
+      const replacements = TransactionService.getReplacements(result.tx);
+      const pendingTx = replacements.length ?
+        replacements[replacements.length - 1].tx : result.tx;
+      const gasPrice = await this.getGasPrice(pendingTx, replacements);
+      let newGasPrice = gasPrice.mul(this.options.gasPriceIncreaseFactor).ceil();
+
+      if (this.options.maxGasPrice) {
+        newGasPrice = BigNumber.min(newGasPrice, this.options.maxGasPrice);
+      }
+
+      if (newGasPrice.lte(gasPrice)) {
+        // can go no higher, so wait as long as it takes
+        return mined;
+      }
+
+      LoggingService.info(
+        `ProposalKeeper: speeding up ${pendingTx} to a gas price of ${newGasPrice.toString(10)}`);
+
+      try {
+        await TransactionService.speedUp(pendingTx, newGasPrice);
+      } catch (ex) {
+        // most likely mined in the meantime
+        LoggingService.warn(`ProposalKeeper: unable to speed up ${pendingTx}: ${ex}`);
+        return mined;
+      }
+    }
+  }
+
+  private async getGasPrice(txHash: Hash, replacements: Array<TransactionReplacement>): Promise<BigNumber> {
+    if (replacements.length) {
+      return new BigNumber(replacements[replacements.length - 1].gasPrice);
+    }
+    const web3 = await Utils.getWeb3();
+    const tx = await promisify((callback: any): void => web3.eth.getTransaction(txHash, callback))() as Transaction;
+    return new BigNumber(tx.gasPrice);
+  }
+}
+
+/**
+ * Why the `ProposalKeeper` executed a proposal
+ */
+export enum ExecutableReason {
+  /**
+   * A GenesisProtocol proposal was neither boosted nor decided before its pre-boosted phase expired
+   */
+  PreBoostedPhaseExpired,
+  /**
+   * A boosted GenesisProtocol proposal's boosted phase, including any quiet ending period, has ended
+   */
+  BoostedPhaseEnded,
+  /**
+   * The voting machine has enough votes to decide the proposal
+   */
+  Decided,
+}
+
+export interface ProposalKeeperOptions {
+  /**
+   * The DAOs whose proposals are to be executed
+   */
+  avatarAddresses: Array<Address>;
+  /**
+   * Factor by which to raise the gas price of an execution each time it is sped up.
+   * Must be at least 1.1.  Default comes from the "proposalKeeperGasPriceIncreaseFactor"
+   * configuration setting.
+   */
+  gasPriceIncreaseFactor?: number;
+  /**
+   * The most, in Wei, to which an execution will be sped up.  Default comes from the
+   * "proposalKeeperMaxGasPrice" configuration setting.
+   */
+  maxGasPrice?: BigNumber | string | number;
+  /**
+   * The number of times to retry a failed execution, in subsequent checks, before abandoning
+   * the proposal.  Default comes from the "proposalKeeperMaxRetries" configuration setting.
+   */
+  maxRetries?: number;
+  /**
+   * Milliseconds between the checks made after calling `start`.  Default comes from the
+   * "proposalKeeperPollInterval" configuration setting.
+   */
+  pollInterval?: number;
+  /**
+   * Optional names or addresses of the schemes whose proposals are to be executed.  Default is all of them.
+   */
+  schemes?: Array<string>;
+  /**
+   * Milliseconds to wait for an execution to be mined before speeding it up.  0 never speeds up.
+   * Default comes from the "proposalKeeperSpeedUpAfter" configuration setting.
+   */
+  speedUpAfter?: number;
+}
+
+/**
+ * Payload of `ProposalKeeper.execution`
+ */
+export interface ProposalExecutionReport {
+  /**
+   * 1 for the first attempt to execute the proposal, 2 for the first retry, and so on
+   */
+  attempt: number;
+  avatarAddress: Address;
+  /**
+   * Why the execution failed
+   */
+  error?: Error;
+  proposalId: Hash;
+  reason: ExecutableReason;
+  schemeName: string;
+  succeeded: boolean;
+  /**
+   * Hash of the execution transaction, or of the replacement that was mined
+   */
+  tx?: Hash;
+  votingMachineAddress: Address;
+  /**
+   * True if the execution failed and will be retried in the next check
+   */
+  willRetry: boolean;
+}
+
+/**
+ * Payload of `ProposalKeeper.checked`
+ */
+export interface ProposalKeeperReport {
+  /**
+   * Votable proposals that were not checked because their executions have failed more than `maxRetries` times
+   */
+  abandoned: Array<Hash>;
+  executions: Array<ProposalExecutionReport>;
+  /**
+   * Timestamp of the last block as of the check, in seconds
+   */
+  timestamp: number;
+}
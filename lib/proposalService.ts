@@ -1,14 +1,27 @@
 import { BigNumber } from "bignumber.js";
 import { Address, Hash } from "./commonTypes";
+import { DAO } from "./dao";
+import { ProposalGeneratorBase } from "./proposalGeneratorBase";
 import {
   EntityFetcherFactory,
   EventFetcherFactory,
   TransformEventCallback,
   Web3EventService
 } from "./web3EventService";
+import { ContributionProposal } from "./wrappers/contributionReward";
+import {
+  GenesisProtocolFactory,
+  GetProposalStatusResult,
+  ProposalState
+} from "./wrappers/genesisProtocol";
+import { VotableGlobalConstraintProposal } from "./wrappers/globalConstraintRegistrar";
 import {
   IntVoteInterfaceWrapper,
 } from "./wrappers/intVoteInterface";
+import { VotableSchemeRegistrarProposal } from "./wrappers/schemeRegistrar";
+import { VotableUpgradeSchemeProposal } from "./wrappers/upgradeScheme";
+import { AgreementProposal } from "./wrappers/vestingScheme";
+import { VotableVoteInOrganizationProposal } from "./wrappers/voteInOrganizationScheme";
 
 import { DecodedLogEntryEvent } from "web3";
 import {
@@ -26,6 +39,74 @@ import {
  */
 export class ProposalService {
 
+  /**
+   * Simulate dependency injection, avoiding circular dependencies.  Called by `InitializeArcJs`.
+   * @hidden
+   */
+  public static setDaoFactory(daoFactory: typeof DAO): void {
+    this.daoFactory = daoFactory;
+  }
+
+  /**
+   * Returns the promise of the proposals created by every `ProposalGeneratorBase` scheme registered
+   * with the given DAO, votable, executed or closed, as `ArcProposal`s sorted by the block in which
+   * they were created.  When the voting machine is the deployed `GenesisProtocol`, each proposal also
+   * includes its `GenesisProtocol` state and status.
+   *
+   * See [Querying Proposals](/Proposals.md#queryingproposals).
+   * @param options
+   */
+  public static async getProposals(options: GetProposalsOptions = {} as GetProposalsOptions)
+    : Promise<Array<ArcProposal>> {
+
+    if (!options.avatarAddress) {
+      throw new Error("avatarAddress is not defined");
+    }
+
+    const dao = await this.daoFactory.at(options.avatarAddress);
+    const genesisProtocol = await GenesisProtocolFactory.deployed();
+    const schemes = options.schemes ? options.schemes.map((s: string) => s.toLowerCase()) : undefined;
+    const proposer = options.proposer ? options.proposer.toLowerCase() : undefined;
+    const proposals = new Array<ArcProposal>();
+
+    for (const scheme of await dao.getSchemes()) {
+      const wrapper = scheme.wrapper as ProposalGeneratorBase;
+
+      if (!wrapper || (typeof wrapper.getArcProposals !== "function")) {
+        continue;
+      }
+
+      if (schemes &&
+        !schemes.includes(wrapper.name.toLowerCase()) &&
+        !schemes.includes(scheme.address.toLowerCase())) {
+        continue;
+      }
+
+      for (const proposal of await wrapper.getArcProposals(options.avatarAddress, options.fromBlock)) {
+
+        if (options.states && !options.states.includes(proposal.state)) {
+          continue;
+        }
+
+        if (proposer && (!proposal.proposerAddress || (proposal.proposerAddress.toLowerCase() !== proposer))) {
+          continue;
+        }
+
+        if (proposal.votingMachineAddress === genesisProtocol.address) {
+          proposal.genesisProtocolState = await genesisProtocol.getState({ proposalId: proposal.proposalId });
+          proposal.genesisProtocolStatus =
+            await genesisProtocol.getProposalStatus({ proposalId: proposal.proposalId });
+        }
+
+        proposals.push(proposal);
+      }
+    }
+
+    return proposals.sort((a: ArcProposal, b: ArcProposal) => a.blockNumber - b.blockNumber);
+  }
+
+  private static daoFactory: typeof DAO;
+
   constructor(private web3EventService: Web3EventService) {
 
   }
@@ -189,3 +270,135 @@ export interface GetProposalEventsOptions<TProposal, TEventArgs extends EventHas
 export interface ProposalEntity {
   votingMachine: IntVoteInterfaceWrapper;
 }
+
+export enum ArcProposalState {
+  /**
+   * Can be voted on
+   */
+  Votable,
+  /**
+   * Has been executed by its scheme.  See `winningVote`.
+   */
+  Executed,
+  /**
+   * Can no longer be voted on but was not executed, for example because its voting period expired
+   */
+  Closed,
+}
+
+/**
+ * The properties common to every `ArcProposal`.
+ */
+export interface ArcProposalBase {
+  avatarAddress: Address;
+  /**
+   * The block in which the proposal was created
+   */
+  blockNumber: number;
+  /**
+   * Present when the voting machine is `GenesisProtocol`
+   */
+  genesisProtocolState?: ProposalState;
+  /**
+   * Present when the voting machine is `GenesisProtocol`
+   */
+  genesisProtocolStatus?: GetProposalStatusResult;
+  proposalId: Hash;
+  /**
+   * The account that created the proposal, as reported by the voting machine
+   */
+  proposerAddress?: Address;
+  /**
+   * Address of the scheme that created the proposal
+   */
+  schemeAddress: Address;
+  /**
+   * Name of the scheme that created the proposal, like "ContributionReward"
+   */
+  schemeName: string;
+  state: ArcProposalState;
+  /**
+   * The transaction in which the proposal was created
+   */
+  transactionHash: Hash;
+  votingMachineAddress: Address;
+  /**
+   * The vote choice that won, present when the proposal has been executed
+   */
+  winningVote?: number;
+}
+
+export interface ContributionRewardArcProposal extends ArcProposalBase {
+  type: "ContributionReward";
+  contribution: ContributionProposal;
+}
+
+export interface SchemeRegistrarArcProposal extends ArcProposalBase {
+  type: "AddScheme" | "RemoveScheme";
+  schemeProposal: VotableSchemeRegistrarProposal;
+}
+
+export interface UpgradeSchemeArcProposal extends ArcProposalBase {
+  type: "UpgradeController" | "UpgradeUpgradeScheme";
+  upgradeProposal: VotableUpgradeSchemeProposal;
+}
+
+export interface GlobalConstraintArcProposal extends ArcProposalBase {
+  type: "AddGlobalConstraint" | "RemoveGlobalConstraint";
+  globalConstraintProposal: VotableGlobalConstraintProposal;
+}
+
+export interface VestingAgreementArcProposal extends ArcProposalBase {
+  type: "VestingAgreement";
+  /**
+   * Present while the proposal is votable.  VestingScheme deletes it once the vote has ended.
+   */
+  agreement?: AgreementProposal;
+  /**
+   * Present when the proposal has been executed, 0 if it was rejected
+   */
+  agreementId?: number;
+}
+
+export interface VoteInOrganizationArcProposal extends ArcProposalBase {
+  type: "VoteInOrganization";
+  voteProposal: VotableVoteInOrganizationProposal;
+}
+
+/**
+ * A proposal created by any of the Arc proposal-generating schemes.  Switch on `type`
+ * to narrow it to the scheme-specific proposal.
+ */
+export type ArcProposal =
+  ContributionRewardArcProposal |
+  SchemeRegistrarArcProposal |
+  UpgradeSchemeArcProposal |
+  GlobalConstraintArcProposal |
+  VestingAgreementArcProposal |
+  VoteInOrganizationArcProposal;
+
+export type ArcProposalType = ArcProposal["type"];
+
+export interface GetProposalsOptions {
+  /**
+   * The DAO whose proposals are to be returned
+   */
+  avatarAddress: Address;
+  /**
+   * Optionally only return proposals created since this block.  Default is 0.
+   */
+  fromBlock?: number;
+  /**
+   * Optionally only return proposals created by this account
+   */
+  proposer?: Address;
+  /**
+   * Optionally only return proposals created by these schemes, given by name, like "ContributionReward",
+   * or by address.  Default is all of the DAO's proposal-generating schemes.
+   */
+  schemes?: Array<string>;
+  /**
+   * Optionally only return proposals in these states.  Default is all states.
+   */
+  states?: Array<ArcProposalState>;
+}
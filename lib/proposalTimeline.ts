@@ -0,0 +1,345 @@
+import { promisify } from "es6-promisify";
+import { BlockWithoutTransactionData } from "web3";
+import { Hash } from "./commonTypes";
+import { DecodedLogEntryEvent } from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { PubSubEventService } from "./pubSubEventService";
+import { Utils } from "./utils";
+import { EventFetcher, EventFetcherFactory } from "./web3EventService";
+import {
+  ExecutionState,
+  GenesisProtocolWrapper,
+  ProposalState
+} from "./wrappers/genesisProtocol";
+
+/**
+ * The lifecycle of a single GenesisProtocol proposal: every event that GenesisProtocol has fired
+ * for the proposal, the state transitions that followed from them, and the upcoming deadlines.
+ *
+ * A proposal's state only changes in transactions that fire one of its events, so we
+ * determine the transitions by reading the proposal's state as of each block in which it fired an event.
+ * This requires a node that can serve contract state as of past blocks, as ganache and archive nodes do.
+ *
+ * After `refresh` or while `watch`ing, each new transition is published on the topic given by
+ * `ProposalTimeline.stateChangedEventTopic`, with a `ProposalStateTransition` as payload.
+ *
+ * See [Proposal Timelines](/Proposals.md#proposaltimelines).
+ */
+export class ProposalTimeline {
+
+  /**
+   * Returns the topic on which the transitions of the given proposal are published,
+   * like "Proposal.0x123.stateChanged".
+   * @param proposalId
+   */
+  public static stateChangedEventTopic(proposalId: Hash): string {
+    return `Proposal.${proposalId}.stateChanged`;
+  }
+
+  /**
+   * Returns the promise of the timeline of the given proposal, reconstructed from all of the proposal's
+   * events to date.  The transitions found here are not published.
+   * @param genesisProtocol
+   * @param proposalId
+   */
+  public static async create(genesisProtocol: GenesisProtocolWrapper, proposalId: Hash): Promise<ProposalTimeline> {
+
+    if (!genesisProtocol) {
+      throw new Error("genesisProtocol is not defined");
+    }
+
+    if (!proposalId) {
+      throw new Error("proposalId is not defined");
+    }
+
+    const timeline = new ProposalTimeline(genesisProtocol, proposalId);
+    await timeline.update(false);
+    return timeline;
+  }
+
+  /**
+   * Returns the promise of the deadlines that apply to the given proposal in its current state,
+   * without reconstructing its timeline.
+   * @param genesisProtocol
+   * @param proposalId
+   */
+  public static async getDeadlines(
+    genesisProtocol: GenesisProtocolWrapper,
+    proposalId: Hash): Promise<ProposalDeadlines> {
+
+    const proposal = await genesisProtocol.getProposal(proposalId);
+    const params = await genesisProtocol.getParameters(proposal.paramsHash);
+    const boostedPhaseEnds = proposal.boostedPhaseTime + proposal.currentBoostedVotePeriodLimit;
+
+    switch (proposal.state) {
+      case ProposalState.PreBoosted:
+        return { preBoostedPhaseEnds: proposal.submittedTime + params.preBoostedVotePeriodLimit };
+      case ProposalState.Boosted:
+        return { boostedPhaseEnds, quietEndingPeriodBegins: boostedPhaseEnds - params.quietEndingPeriod };
+      case ProposalState.QuietEndingPeriod:
+        return { boostedPhaseEnds };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * The proposal's events in the order in which they were fired
+   */
+  public events: Array<ProposalTimelineEvent> = new Array<ProposalTimelineEvent>();
+  /**
+   * The proposal's state transitions in the order in which they occurred
+   */
+  public transitions: Array<ProposalStateTransition> = new Array<ProposalStateTransition>();
+  /**
+   * The proposal's current state
+   */
+  public state: ProposalState = ProposalState.None;
+  /**
+   * The deadlines that apply in the proposal's current state
+   */
+  public deadlines: ProposalDeadlines = {};
+
+  private nextBlock: number = 0;
+  private blockTimestamps: Map<number, number> = new Map<number, number>();
+  private watchedFetchers: Array<EventFetcher<any>> = new Array<EventFetcher<any>>();
+  private updating: Promise<Array<ProposalStateTransition>> = Promise.resolve([]);
+
+  private constructor(
+    public readonly genesisProtocol: GenesisProtocolWrapper,
+    public readonly proposalId: Hash) {
+  }
+
+  /**
+   * Bring the timeline up to date with events fired since it was last updated, publishing
+   * any new transitions.  Returns the promise of the new transitions.
+   */
+  public refresh(): Promise<Array<ProposalStateTransition>> {
+    return this.updating = this.updating.then(
+      () => this.update(true),
+      () => this.update(true));
+  }
+
+  /**
+   * Refresh the timeline whenever GenesisProtocol fires an event for the proposal.
+   * Call `stopWatching` when you are done.
+   */
+  public watch(): void {
+    if (this.watchedFetchers.length) {
+      return;
+    }
+
+    for (const fetcherFactory of this.eventFetcherFactories()) {
+      const fetcher = fetcherFactory.fetcher({ _proposalId: this.proposalId }, { fromBlock: "latest" });
+      fetcher.watch((error: Error): void => {
+        if (error) {
+          LoggingService.error(`ProposalTimeline: error watching ${fetcherFactory.name}: ${error}`);
+          return;
+        }
+        this.refresh().catch((ex: Error): void => {
+          LoggingService.error(`ProposalTimeline: error refreshing ${this.proposalId}: ${ex}`);
+        });
+      });
+      this.watchedFetchers.push(fetcher);
+    }
+  }
+
+  /**
+   * Stop watching for the proposal's events.
+   */
+  public stopWatching(): void {
+    for (const fetcher of this.watchedFetchers) {
+      fetcher.stopWatching();
+    }
+    this.watchedFetchers = new Array<EventFetcher<any>>();
+  }
+
+  private async update(publish: boolean): Promise<Array<ProposalStateTransition>> {
+    const events = await this.fetchEvents(this.nextBlock);
+    const newTransitions = new Array<ProposalStateTransition>();
+
+    try {
+      for (let i = 0; i < events.length;) {
+        const blockNumber = events[i].blockNumber;
+        const blockEvents = new Array<ProposalTimelineEvent>();
+
+        for (; (i < events.length) && (events[i].blockNumber === blockNumber); ++i) {
+          blockEvents.push(events[i]);
+        }
+
+        /**
+         * Read the state before recording anything for the block, so that if this throws, the next
+         * update starts again from this block without recording its events twice.
+         */
+        const state = await this.getStateAtBlock(blockNumber);
+
+        this.events.push(...blockEvents);
+
+        if (state !== this.state) {
+          const executeEvent = blockEvents.find((e: ProposalTimelineEvent) => e.name === "GPExecuteProposal");
+          const lastEvent = executeEvent || blockEvents[blockEvents.length - 1];
+          const transition: ProposalStateTransition = {
+            blockNumber,
+            executionState: executeEvent ? Number(executeEvent.args._executionState) : undefined,
+            fromState: this.state,
+            proposalId: this.proposalId,
+            timestamp: lastEvent.timestamp,
+            toState: state,
+            transactionHash: lastEvent.transactionHash,
+          };
+          this.transitions.push(transition);
+          newTransitions.push(transition);
+          this.state = state;
+        }
+
+        this.nextBlock = blockNumber + 1;
+      }
+
+      if (events.length) {
+        this.deadlines = await ProposalTimeline.getDeadlines(this.genesisProtocol, this.proposalId);
+      }
+    } finally {
+      // publish the transitions we have recorded, even if a later block failed
+      if (publish) {
+        for (const transition of newTransitions) {
+          PubSubEventService.publish(ProposalTimeline.stateChangedEventTopic(this.proposalId), transition);
+        }
+      }
+    }
+
+    return newTransitions;
+  }
+
+  private async fetchEvents(fromBlock: number): Promise<Array<ProposalTimelineEvent>> {
+    const events = new Array<ProposalTimelineEvent>();
+
+    for (const fetcherFactory of this.eventFetcherFactories()) {
+      const fetched: Array<DecodedLogEntryEvent<any>> =
+        await fetcherFactory.fetcher({ _proposalId: this.proposalId }, { fromBlock }).get();
+
+      for (const event of fetched) {
+        events.push({
+          args: event.args,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          name: fetcherFactory.name,
+          timestamp: await this.getBlockTimestamp(event.blockNumber),
+          transactionHash: event.transactionHash,
+        });
+      }
+    }
+
+    return events.sort((a: ProposalTimelineEvent, b: ProposalTimelineEvent) =>
+      (a.blockNumber - b.blockNumber) || (a.logIndex - b.logIndex));
+  }
+
+  private eventFetcherFactories():
+    Array<{ name: ProposalTimelineEventName, fetcher: EventFetcherFactory<any> }> {
+    const gp = this.genesisProtocol;
+    return [
+      { name: "NewProposal", fetcher: gp.NewProposal },
+      { name: "Stake", fetcher: gp.Stake },
+      { name: "VoteProposal", fetcher: gp.VoteProposal },
+      { name: "GPExecuteProposal", fetcher: gp.GPExecuteProposal },
+      { name: "ExecuteProposal", fetcher: gp.ExecuteProposal },
+      { name: "Redeem", fetcher: gp.Redeem },
+      { name: "RedeemReputation", fetcher: gp.RedeemReputation },
+      { name: "RedeemDaoBounty", fetcher: gp.RedeemDaoBounty },
+    ];
+  }
+
+  /**
+   * The proposal's state as of the end of the given block
+   */
+  private async getStateAtBlock(blockNumber: number): Promise<ProposalState> {
+    const state = await promisify((callback: any): void =>
+      this.genesisProtocol.contract.contract.state.call(this.proposalId, blockNumber, callback))();
+    return Number(state);
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    let timestamp = this.blockTimestamps.get(blockNumber);
+
+    if (typeof timestamp === "undefined") {
+      const web3 = await Utils.getWeb3();
+      const block = await promisify((callback: any): void =>
+        web3.eth.getBlock(blockNumber, callback))() as BlockWithoutTransactionData;
+      timestamp = block.timestamp;
+      this.blockTimestamps.set(blockNumber, timestamp);
+    }
+
+    return timestamp;
+  }
+}
+
+export type ProposalTimelineEventName =
+  "NewProposal" |
+  "Stake" |
+  "VoteProposal" |
+  "GPExecuteProposal" |
+  "ExecuteProposal" |
+  "Redeem" |
+  "RedeemReputation" |
+  "RedeemDaoBounty";
+
+export interface ProposalTimelineEvent {
+  /**
+   * The event's args, typed according to `name`, for example `GpStakeEventResult` for "Stake"
+   */
+  args: any;
+  blockNumber: number;
+  logIndex: number;
+  name: ProposalTimelineEventName;
+  /**
+   * Timestamp of the block, in seconds
+   */
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+/**
+ * Payload of `Proposal.[proposalId].stateChanged`
+ */
+export interface ProposalStateTransition {
+  /**
+   * The block in which the transition occurred
+   */
+  blockNumber: number;
+  /**
+   * When the proposal was executed or closed, how it was executed
+   */
+  executionState?: ExecutionState;
+  fromState: ProposalState;
+  proposalId: Hash;
+  /**
+   * Timestamp of the block in which the transition occurred, in seconds
+   */
+  timestamp: number;
+  toState: ProposalState;
+  /**
+   * The transaction in which the transition occurred
+   */
+  transactionHash: Hash;
+}
+
+/**
+ * The deadlines that apply to a proposal in its current state, as timestamps in seconds.
+ * Deadlines pass without any change in the proposal's state until someone executes the proposal.
+ */
+export interface ProposalDeadlines {
+  /**
+   * While boosted or in the quiet ending period, when the proposal's boosted phase will end
+   * and it may be executed.  Votes during the quiet ending period that change the winning vote
+   * postpone this.
+   */
+  boostedPhaseEnds?: number;
+  /**
+   * While pre-boosted, when the proposal will expire if not boosted or decided
+   */
+  preBoostedPhaseEnds?: number;
+  /**
+   * While boosted, when the quiet ending period begins.  A vote after this that changes
+   * the winning vote moves the proposal into the quiet ending period.
+   */
+  quietEndingPeriodBegins?: number;
+}
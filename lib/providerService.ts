@@ -0,0 +1,449 @@
+import { promisify } from "es6-promisify";
+import { providers as Web3Providers } from "web3";
+import { ConfigService } from "./configService";
+import { LoggingService } from "./loggingService";
+import { IEventSubscription, PubSubEventService } from "./pubSubEventService";
+import { WebSocketProvider } from "./webSocketProvider";
+
+/**
+ * A node to which Arc.js may connect, as given in the "providerUrls" configuration setting.
+ */
+export interface ProviderEndpoint {
+  /**
+   * Like "https://mainnet.infura.io" or "ws://127.0.0.1:8546"
+   */
+  url: string;
+  /**
+   * Endpoints with lower numbers are preferred over those with higher numbers.  Default is 0.
+   */
+  priority?: number;
+  /**
+   * Relative likelihood of choosing this endpoint over others of the same priority.  Default is 1.
+   */
+  weight?: number;
+}
+
+/**
+ * The state of a `ProviderEndpoint`, as last determined by `ProviderService`.
+ */
+export interface ProviderEndpointStatus extends ProviderEndpoint {
+  /**
+   * false when the endpoint has failed a request or health check, or lags too many blocks behind
+   * the other endpoints
+   */
+  healthy: boolean;
+  /**
+   * The block number the endpoint last reported, if any
+   */
+  blockNumber?: number;
+  /**
+   * The last error the endpoint returned, if any
+   */
+  lastError?: string;
+}
+
+/**
+ * Payload of the `ProviderService.provider.changed` event.
+ */
+export interface ProviderChangedEventInfo {
+  /**
+   * Url of the endpoint now in use
+   */
+  url: string;
+  /**
+   * Url of the endpoint previously in use, if any
+   */
+  previousUrl?: string;
+}
+
+/**
+ * Manages the pool of nodes given by the "providerUrls" configuration setting, sending
+ * requests to the preferred healthy node and failing over to another when a node fails.
+ *
+ * For more information, see [Provider Pools](/Configuration.md#providerpools).
+ */
+export class ProviderService {
+
+  public static ProviderChangedEventTopic: string = "ProviderService.provider.changed";
+
+  /**
+   * Returns a provider that sends requests to the given endpoints, and begins checking their health
+   * periodically as given by the "providerHealthCheckInterval" configuration setting.
+   * `Utils.getWeb3` calls this when the "providerUrls" configuration setting is given.
+   * @param endpoints Urls or `ProviderEndpoint`s
+   */
+  public static createProvider(endpoints: Array<string | ProviderEndpoint>): FallbackProvider {
+    if (!endpoints || !endpoints.length) {
+      throw new Error("ProviderService.createProvider: endpoints are not defined");
+    }
+
+    ProviderService.endHealthChecks();
+
+    ProviderService.provider = new FallbackProvider(endpoints.map((endpoint: string | ProviderEndpoint) =>
+      (typeof endpoint === "string") ? { url: endpoint } : endpoint));
+
+    const interval: number = ConfigService.get("providerHealthCheckInterval");
+
+    if (interval) {
+      ProviderService.healthCheckTimerId = setInterval(async () => {
+        if (ProviderService.healthCheckLock) {
+          return; // prevent reentrance
+        }
+        ProviderService.healthCheckLock = true;
+        try {
+          await ProviderService.checkHealth();
+        } finally {
+          ProviderService.healthCheckLock = false;
+        }
+      }, interval);
+
+      // don't keep node.js running just to check health
+      if (ProviderService.healthCheckTimerId.unref) {
+        ProviderService.healthCheckTimerId.unref();
+      }
+    }
+
+    return ProviderService.provider;
+  }
+
+  /**
+   * Returns the provider created by `createProvider`, or undefined if there is none.
+   */
+  public static getProvider(): FallbackProvider | undefined {
+    return ProviderService.provider;
+  }
+
+  /**
+   * Returns the status of each endpoint in the pool, in the order given.
+   */
+  public static getEndpointStatus(): Array<ProviderEndpointStatus> {
+    return ProviderService.provider ? ProviderService.provider.getEndpointStatus() : [];
+  }
+
+  /**
+   * Returns the url of the endpoint to which requests are currently being sent, or undefined if there is no pool.
+   */
+  public static getCurrentUrl(): string | undefined {
+    return ProviderService.provider ? ProviderService.provider.getCurrentUrl() : undefined;
+  }
+
+  /**
+   * Check the health of every endpoint now, choosing another endpoint if the one in use has become unhealthy
+   * or one that is preferred has become healthy.
+   */
+  public static checkHealth(): Promise<void> {
+    return ProviderService.provider ? ProviderService.provider.checkHealth() : Promise.resolve();
+  }
+
+  /**
+   * Stop periodically checking the health of the endpoints.
+   */
+  public static endHealthChecks(): void {
+    if (ProviderService.healthCheckTimerId) {
+      clearInterval(ProviderService.healthCheckTimerId);
+      ProviderService.healthCheckTimerId = undefined;
+    }
+  }
+
+  /**
+   * Subscribe to be notified whenever requests begin to be sent to a different endpoint, like this:
+   *
+   * ```typescript
+   * ProviderService.subscribeToProviderChanges((info: ProviderChangedEventInfo): void => { ... });
+   * ```
+   * @param callback
+   * @returns A subscription to the event.  Unsubscribe by calling `[theSubscription].unsubscribe()`.
+   */
+  public static subscribeToProviderChanges(callback: (info: ProviderChangedEventInfo) => void): IEventSubscription {
+    return PubSubEventService.subscribe(ProviderService.ProviderChangedEventTopic,
+      (topic: string, info: ProviderChangedEventInfo): any => callback(info));
+  }
+
+  private static provider: FallbackProvider;
+  private static healthCheckTimerId: any;
+  private static healthCheckLock: boolean = false;
+}
+
+/**
+ * A Web3 provider that sends each request to the endpoint currently in use, failing over
+ * to other endpoints, in order of preference, when it fails.
+ *
+ * @hidden - for internal use only
+ */
+export class FallbackProvider {
+
+  /**
+   * Methods that create a filter on the node, returning its id
+   */
+  private static newFilterMethods: Array<string> =
+    ["eth_newFilter", "eth_newBlockFilter", "eth_newPendingTransactionFilter"];
+  /**
+   * Methods that refer to a filter by the id given as their first parameter
+   */
+  private static filterMethods: Array<string> =
+    ["eth_getFilterChanges", "eth_getFilterLogs", "eth_uninstallFilter"];
+
+  private endpoints: Array<Endpoint>;
+  private current: Endpoint;
+  /**
+   * The endpoint on which each filter was created, by filter id.  Other nodes don't know the filter.
+   */
+  private filterEndpoints: Map<string, Endpoint> = new Map<string, Endpoint>();
+
+  constructor(endpoints: Array<ProviderEndpoint>) {
+    this.endpoints = endpoints.map((endpoint: ProviderEndpoint): Endpoint => ({
+      healthy: true,
+      priority: endpoint.priority || 0,
+      provider: /^wss?:\/\//i.test(endpoint.url) ?
+        new WebSocketProvider(endpoint.url) : new Web3Providers.HttpProvider(endpoint.url),
+      url: endpoint.url,
+      weight: (typeof endpoint.weight === "number") ? endpoint.weight : 1,
+    }));
+    this.selectEndpoint();
+  }
+
+  public sendAsync(payload: any, callback: (error: Error, response: any) => void): void {
+    if (this.isSplitBatch(payload)) {
+      // the filters may be on different endpoints, so send each request to its own
+      Promise.all(payload.map((request: any): Promise<any> =>
+        promisify((requestCallback: any): void => this.sendAsync(request, requestCallback))()))
+        .then(
+          (responses: Array<any>): void => callback(null, responses),
+          (error: Error): void => callback(error, null));
+      return;
+    }
+
+    const tried = new Set<Endpoint>();
+
+    const attempt = (endpoint: Endpoint): void => {
+      tried.add(endpoint);
+      endpoint.provider.sendAsync(payload, (error: Error, response: any): void => {
+        if (!error) {
+          this.trackFilters(payload, response, endpoint);
+          return callback(null, response);
+        }
+
+        this.markUnhealthy(endpoint, error);
+
+        const next = this.canFailOver(payload) ? this.getNextEndpoint(tried) : undefined;
+
+        if (next) {
+          LoggingService.debug(`FallbackProvider: ${endpoint.url} failed, trying ${next.url}: ${error}`);
+          attempt(next);
+        } else {
+          callback(error, null);
+        }
+      });
+    };
+
+    attempt(this.getEndpointFor(payload));
+  }
+
+  public send(payload: any): any {
+    if (this.isSplitBatch(payload)) {
+      return payload.map((request: any): any => this.send(request));
+    }
+
+    const tried = new Set<Endpoint>();
+    let endpoint = this.getEndpointFor(payload);
+
+    while (true) {
+      tried.add(endpoint);
+      try {
+        const response = endpoint.provider.send(payload);
+        this.trackFilters(payload, response, endpoint);
+        return response;
+      } catch (ex) {
+        this.markUnhealthy(endpoint, ex);
+        endpoint = this.canFailOver(payload) ? this.getNextEndpoint(tried) : undefined;
+        if (!endpoint) {
+          throw ex;
+        }
+      }
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.endpoints.some((endpoint: Endpoint): boolean => endpoint.healthy);
+  }
+
+  public getCurrentUrl(): string {
+    return this.current.url;
+  }
+
+  public getEndpointStatus(): Array<ProviderEndpointStatus> {
+    return this.endpoints.map((endpoint: Endpoint): ProviderEndpointStatus => ({
+      blockNumber: endpoint.blockNumber,
+      healthy: endpoint.healthy,
+      lastError: endpoint.lastError,
+      priority: endpoint.priority,
+      url: endpoint.url,
+      weight: endpoint.weight,
+    }));
+  }
+
+  public async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async (endpoint: Endpoint): Promise<void> => {
+      try {
+        const response: any = await promisify((callback: any): void =>
+          endpoint.provider.sendAsync({ id: 1, jsonrpc: "2.0", method: "eth_blockNumber", params: [] }, callback))();
+        if (response.error) {
+          throw new Error(response.error.message || response.error);
+        }
+        endpoint.blockNumber = Number(response.result);
+        endpoint.lastError = undefined;
+        endpoint.healthy = true;
+      } catch (ex) {
+        endpoint.blockNumber = undefined;
+        this.markUnhealthy(endpoint, ex);
+      }
+    }));
+
+    const maxBlockLag: number = ConfigService.get("providerMaxBlockLag");
+    const highestBlock = Math.max(...this.endpoints
+      .filter((endpoint: Endpoint): boolean => endpoint.healthy)
+      .map((endpoint: Endpoint): number => endpoint.blockNumber));
+
+    this.endpoints
+      .filter((endpoint: Endpoint): boolean =>
+        endpoint.healthy && ((highestBlock - endpoint.blockNumber) > maxBlockLag))
+      .forEach((endpoint: Endpoint): void => {
+        endpoint.healthy = false;
+        endpoint.lastError = `${highestBlock - endpoint.blockNumber} blocks behind`;
+        LoggingService.debug(`FallbackProvider: ${endpoint.url} is ${endpoint.lastError}`);
+      });
+
+    const bestPriority = this.getBestPriority();
+
+    if (!this.current.healthy || (this.current.priority > bestPriority)) {
+      this.selectEndpoint();
+    }
+  }
+
+  /**
+   * Lowest priority number among the healthy endpoints, or among all of them if none are healthy
+   */
+  private getBestPriority(): number {
+    const healthy = this.endpoints.filter((endpoint: Endpoint): boolean => endpoint.healthy);
+    return Math.min(...(healthy.length ? healthy : this.endpoints).map((endpoint: Endpoint): number =>
+      endpoint.priority));
+  }
+
+  /**
+   * Choose among the healthy endpoints of the best priority, weighted randomly, the one to which
+   * to send requests.  Publishes `ProviderService.provider.changed` if it's different.
+   */
+  private selectEndpoint(): void {
+    const bestPriority = this.getBestPriority();
+    const anyHealthy = this.endpoints.some((endpoint: Endpoint): boolean => endpoint.healthy);
+    const candidates = this.endpoints.filter((endpoint: Endpoint): boolean =>
+      (endpoint.healthy || !anyHealthy) && (endpoint.priority === bestPriority));
+
+    const totalWeight = candidates.reduce((sum: number, endpoint: Endpoint): number => sum + endpoint.weight, 0);
+    let choice = Math.random() * totalWeight;
+    let selected = candidates[candidates.length - 1];
+    for (const candidate of candidates) {
+      choice -= candidate.weight;
+      if (choice < 0) {
+        selected = candidate;
+        break;
+      }
+    }
+
+    if (selected !== this.current) {
+      const previousUrl = this.current ? this.current.url : undefined;
+      this.current = selected;
+      LoggingService.info(`FallbackProvider: now using ${selected.url}`);
+      PubSubEventService.publish(ProviderService.ProviderChangedEventTopic,
+        { previousUrl, url: selected.url } as ProviderChangedEventInfo);
+    }
+  }
+
+  private markUnhealthy(endpoint: Endpoint, error: Error): void {
+    endpoint.healthy = false;
+    endpoint.lastError = error && error.message ? error.message : `${error}`;
+    if (endpoint === this.current) {
+      this.selectEndpoint();
+    }
+  }
+
+  /**
+   * Returns the endpoint to try after those already tried: the one currently in use if not yet tried,
+   * else the untried endpoint of best priority, healthy ones first.
+   * @param tried
+   */
+  private getNextEndpoint(tried: Set<Endpoint>): Endpoint | undefined {
+    if (!tried.has(this.current)) {
+      return this.current;
+    }
+    return this.endpoints
+      .filter((endpoint: Endpoint): boolean => !tried.has(endpoint))
+      .sort((a: Endpoint, b: Endpoint): number =>
+        ((a.healthy === b.healthy) ? 0 : a.healthy ? -1 : 1) || (a.priority - b.priority))[0];
+  }
+
+  /**
+   * Whether the request may be sent to another endpoint after failing.  Not `eth_sendTransaction`,
+   * because the node signs the transaction with an account that other nodes may not have, nor requests
+   * that refer to a filter, because other nodes don't know the filter.
+   * @param payload
+   */
+  private canFailOver(payload: any): boolean {
+    return Array.isArray(payload) ?
+      payload.every((request: any): boolean => this.canFailOver(request)) :
+      ((payload.method !== "eth_sendTransaction") && !this.isFilterRequest(payload));
+  }
+
+  /**
+   * The endpoint to which to send the request: the one on which its filter was created, if it refers
+   * to a filter that we know of, else the one currently in use.
+   * @param payload
+   */
+  private getEndpointFor(payload: any): Endpoint {
+    return (this.isFilterRequest(payload) && this.filterEndpoints.get(payload.params[0])) || this.current;
+  }
+
+  /**
+   * Remember the endpoint on which each filter created by the request was created, and forget the
+   * filters it uninstalled.
+   * @param payload
+   * @param response
+   * @param endpoint
+   */
+  private trackFilters(payload: any, response: any, endpoint: Endpoint): void {
+    if (Array.isArray(payload)) {
+      payload.forEach((request: any, i: number): void => {
+        this.trackFilters(request, Array.isArray(response) ? response[i] : undefined, endpoint);
+      });
+    } else if (response && response.result) {
+      if (FallbackProvider.newFilterMethods.indexOf(payload.method) !== -1) {
+        this.filterEndpoints.set(response.result, endpoint);
+      } else if (payload.method === "eth_uninstallFilter") {
+        this.filterEndpoints.delete(payload.params[0]);
+      }
+    }
+  }
+
+  private isFilterRequest(payload: any): boolean {
+    return !Array.isArray(payload) && (FallbackProvider.filterMethods.indexOf(payload.method) !== -1);
+  }
+
+  /**
+   * Whether the payload is a batch of requests that must be sent separately because some of them
+   * refer to filters, like the batches in which web3 polls its filters
+   * @param payload
+   */
+  private isSplitBatch(payload: any): boolean {
+    return Array.isArray(payload) && payload.some((request: any): boolean => this.isFilterRequest(request));
+  }
+}
+
+interface Endpoint {
+  url: string;
+  priority: number;
+  weight: number;
+  provider: any;
+  healthy: boolean;
+  blockNumber?: number;
+  lastError?: string;
+}
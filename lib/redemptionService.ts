@@ -0,0 +1,404 @@
+import { BigNumber } from "bignumber.js";
+import { Address, Hash } from "./commonTypes";
+import { DAO, DaoSchemeInfo } from "./dao";
+import { ArcTransactionResult, SimulatedTransactionResult } from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { SimulateOptions } from "./transactionService";
+import {
+  ContributionProposal,
+  ContributionRewardRedeemParams,
+  ContributionRewardWrapper,
+  ProposalRewards
+} from "./wrappers/contributionReward";
+import { ExecutedGenesisProposal, GenesisProtocolFactory } from "./wrappers/genesisProtocol";
+import { RedeeemableResult, RedeemerWrapper } from "./wrappers/redeemer";
+import { WrapperService } from "./wrapperService";
+
+/**
+ * Finds the rewards that a set of beneficiaries have yet to redeem from the executed proposals
+ * of a DAO, and redeems them.
+ *
+ * Rewards of GenesisProtocol proposals, and of ContributionReward proposals voted on by GenesisProtocol,
+ * are redeemed using the Redeemer contract.  Rewards of other ContributionReward proposals are
+ * redeemed using `ContributionRewardWrapper.redeemContributionReward`.
+ *
+ * See [Redeeming Rewards](/Proposals.md#redeemingrewards).
+ */
+export class RedemptionService {
+
+  /**
+   * Returns the promise of a plan to redeem every reward that the given beneficiaries can redeem
+   * right now from the given DAO's executed proposals, most valuable per unit of gas first.
+   * Rewards that could not be redeemed right now, for example because the DAO has too little ETH
+   * to pay them, are omitted.
+   * @param options
+   */
+  public static async getRedemptionPlan(options: GetRedemptionPlanOptions): Promise<Array<RedemptionPlanItem>> {
+
+    if (!options.avatarAddress) {
+      throw new Error("avatarAddress is not defined");
+    }
+
+    if (!options.beneficiaryAddresses || !options.beneficiaryAddresses.length) {
+      throw new Error("beneficiaryAddresses is not defined");
+    }
+
+    const avatarAddress = options.avatarAddress;
+    const beneficiaries = options.beneficiaryAddresses.map((address: Address) => address.toLowerCase());
+    const fromBlock = options.fromBlock || 0;
+    const weights = Object.assign({}, RedemptionService.defaultWeights, options.weights);
+    const redeemer = WrapperService.wrappers.Redeemer;
+    const genesisProtocolAddress = redeemer ? await redeemer.getGenesisProtocolAddress() : undefined;
+    const contributionRewardAddress = redeemer ? await redeemer.getContributionRewardAddress() : undefined;
+
+    const items = new Array<RedemptionPlanItem>();
+    /**
+     * The ContributionReward proposals whose rewards the Redeemer redeems, with their beneficiaries
+     */
+    const redeemerContributions = new Map<Hash, Address>();
+    const dao = await DAO.at(avatarAddress);
+
+    for (const scheme of await dao.getSchemes("ContributionReward") as Array<DaoSchemeInfo>) {
+      const contributionReward = scheme.wrapper as ContributionRewardWrapper;
+      const coveredByRedeemer = (contributionReward.address === contributionRewardAddress) &&
+        ((await contributionReward.getVotingMachineAddress(avatarAddress)) === genesisProtocolAddress);
+
+      const proposals: Array<ContributionProposal> =
+        await contributionReward.getExecutedProposals(avatarAddress)({}, { fromBlock }).get();
+
+      for (const proposal of proposals) {
+        if (coveredByRedeemer) {
+          redeemerContributions.set(proposal.proposalId, proposal.beneficiaryAddress.toLowerCase());
+        } else if (beneficiaries.indexOf(proposal.beneficiaryAddress.toLowerCase()) !== -1) {
+          const item = await RedemptionService.planContributionRewardRedemption(
+            contributionReward, avatarAddress, proposal);
+          if (item) {
+            items.push(item);
+          }
+        }
+      }
+    }
+
+    if (redeemer) {
+      const genesisProtocol = await GenesisProtocolFactory.at(genesisProtocolAddress);
+      const proposals: Array<ExecutedGenesisProposal> =
+        await genesisProtocol.ExecutedProposals({ _organization: avatarAddress }, { fromBlock }).get();
+
+      for (const proposal of proposals) {
+        for (const beneficiaryAddress of beneficiaries) {
+          const item = await RedemptionService.planRedeemerRedemption(
+            redeemer,
+            avatarAddress,
+            beneficiaryAddress,
+            proposal.proposalId,
+            redeemerContributions.get(proposal.proposalId) === beneficiaryAddress);
+          if (item) {
+            items.push(item);
+          }
+        }
+      }
+    }
+
+    for (const item of items) {
+      item.value = RedemptionService.computeValue(item.amounts, weights);
+      item.valuePerGas = item.value.div(item.gas);
+    }
+
+    return items
+      .filter((item: RedemptionPlanItem) => item.value.gt(0))
+      .sort((a: RedemptionPlanItem, b: RedemptionPlanItem) => b.valuePerGas.comparedTo(a.valuePerGas));
+  }
+
+  /**
+   * Redeem the rewards in the given plan, one transaction at a time in the order given, waiting for
+   * each to be mined.  A redemption that fails does not prevent the rest from being attempted.
+   * Returns the promise of the outcome of each redemption.
+   * @param plan As returned by `getRedemptionPlan`
+   */
+  public static async redeem(plan: Array<RedemptionPlanItem>): Promise<Array<RedemptionResult>> {
+    const results = new Array<RedemptionResult>();
+
+    for (const item of plan) {
+      const result: RedemptionResult = { item, succeeded: false };
+
+      try {
+        const txResult = await RedemptionService.sendRedemption(item);
+        result.tx = txResult.tx;
+        await txResult.watchForTxMined();
+        result.succeeded = true;
+      } catch (ex) {
+        result.error = ex;
+        LoggingService.error(
+          `RedemptionService: failed to redeem ${item.proposalId} for ${item.beneficiaryAddress}: ${ex}`);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private static defaultWeights: RedemptionWeights = {
+    eth: 1,
+    externalToken: 1,
+    nativeToken: 1,
+    reputation: 1,
+    stakingToken: 1,
+  };
+
+  private static async planRedeemerRedemption(
+    redeemer: RedeemerWrapper,
+    avatarAddress: Address,
+    beneficiaryAddress: Address,
+    proposalId: Hash,
+    includeContributionReward: boolean): Promise<RedemptionPlanItem | undefined> {
+
+    const options = { avatarAddress, beneficiaryAddress, proposalId };
+    const redeemables = await redeemer.redeemables(options);
+    const zero = new BigNumber(0);
+
+    const amounts: RedemptionAmounts = {
+      eth: includeContributionReward ? redeemables.contributionRewardEther : zero,
+      externalToken: includeContributionReward ? redeemables.contributionRewardExternalToken : zero,
+      nativeToken: includeContributionReward ? redeemables.contributionRewardNativeToken : zero,
+      reputation: redeemables.proposerReputationAmount
+        .add(redeemables.stakerReputationAmount)
+        .add(redeemables.voterReputationAmount)
+        .add(includeContributionReward ? redeemables.contributionRewardReputation : zero),
+      stakingToken: redeemables.stakerTokenAmount
+        .add(redeemables.voterTokenAmount)
+        .add(redeemables.daoStakingBountyReward),
+    };
+
+    if (RedemptionService.isEmpty(amounts)) {
+      return undefined;
+    }
+
+    const simulation = await redeemer.redeem({ avatarAddress, beneficiaryAddress, proposalId, simulate: true });
+
+    if (!simulation.succeeded) {
+      LoggingService.info(`RedemptionService: cannot redeem ${proposalId} for ${beneficiaryAddress}: ` +
+        RedemptionService.why(simulation));
+      return undefined;
+    }
+
+    return {
+      amounts,
+      avatarAddress,
+      beneficiaryAddress,
+      gas: simulation.gas,
+      method: "Redeemer",
+      proposalId,
+      redeemables,
+      schemeAddress: redeemer.address,
+    } as RedemptionPlanItem;
+  }
+
+  private static async planContributionRewardRedemption(
+    contributionReward: ContributionRewardWrapper,
+    avatarAddress: Address,
+    proposal: ContributionProposal): Promise<RedemptionPlanItem | undefined> {
+
+    const rewards = (await contributionReward.getBeneficiaryRewards({
+      avatar: avatarAddress,
+      beneficiaryAddress: proposal.beneficiaryAddress,
+      proposalId: proposal.proposalId,
+    }))[0];
+
+    if (!rewards) {
+      return undefined;
+    }
+
+    const zero = new BigNumber(0);
+    /**
+     * omit ETH and external tokens that the DAO cannot currently afford, as redeeming them would fail
+     */
+    const amounts: RedemptionAmounts = {
+      eth: (rewards.ethRewardRedeemable.gt(0) && rewards.ethAvailableToReward.gte(rewards.ethRewardRedeemable)) ?
+        rewards.ethRewardRedeemable : zero,
+      externalToken: (rewards.externalTokenRewardRedeemable.gt(0) &&
+        rewards.externalTokensAvailableToReward.gte(rewards.externalTokenRewardRedeemable)) ?
+        rewards.externalTokenRewardRedeemable : zero,
+      nativeToken: rewards.nativeTokenRewardRedeemable,
+      reputation: rewards.reputationChangeRedeemable,
+      stakingToken: zero,
+    };
+
+    if (RedemptionService.isEmpty(amounts)) {
+      return undefined;
+    }
+
+    const item = {
+      amounts,
+      avatarAddress,
+      beneficiaryAddress: proposal.beneficiaryAddress,
+      contributionRewards: rewards,
+      method: "ContributionReward",
+      proposalId: proposal.proposalId,
+      schemeAddress: contributionReward.address,
+    } as RedemptionPlanItem;
+
+    const simulateOptions: SimulateOptions = { simulate: true };
+    const simulation = await contributionReward.redeemContributionReward(
+      Object.assign(RedemptionService.getContributionRewardRedeemParams(item), simulateOptions));
+
+    if (!simulation.succeeded) {
+      LoggingService.info(
+        `RedemptionService: cannot redeem ${proposal.proposalId} from ContributionReward: ` +
+        RedemptionService.why(simulation));
+      return undefined;
+    }
+
+    item.gas = simulation.gas;
+
+    return item;
+  }
+
+  private static async sendRedemption(item: RedemptionPlanItem): Promise<ArcTransactionResult> {
+    if (item.method === "Redeemer") {
+      const redeemer = WrapperService.wrappers.Redeemer;
+      return redeemer.redeem({
+        avatarAddress: item.avatarAddress,
+        beneficiaryAddress: item.beneficiaryAddress,
+        proposalId: item.proposalId,
+      });
+    } else {
+      const contributionReward = await WrapperService.factories.ContributionReward.at(item.schemeAddress);
+      return contributionReward.redeemContributionReward(RedemptionService.getContributionRewardRedeemParams(item));
+    }
+  }
+
+  private static getContributionRewardRedeemParams(item: RedemptionPlanItem): ContributionRewardRedeemParams {
+    return {
+      avatar: item.avatarAddress,
+      ethers: item.amounts.eth.gt(0),
+      externalTokens: item.amounts.externalToken.gt(0),
+      nativeTokens: item.amounts.nativeToken.gt(0),
+      proposalId: item.proposalId,
+      reputation: !item.amounts.reputation.isZero(),
+    };
+  }
+
+  /**
+   * A negative amount, like the reputation taken away by a ContributionReward, counts against the value,
+   * so redemptions that cost the beneficiary more than they pay are left out of the plan.
+   */
+  private static computeValue(amounts: RedemptionAmounts, weights: RedemptionWeights): BigNumber {
+    return Object.keys(weights).reduce((value: BigNumber, key: keyof RedemptionWeights) =>
+      value.add(amounts[key].mul(weights[key])), new BigNumber(0));
+  }
+
+  private static isEmpty(amounts: RedemptionAmounts): boolean {
+    return Object.keys(amounts).every((key: keyof RedemptionAmounts) => amounts[key].isZero());
+  }
+
+  private static why(simulation: SimulatedTransactionResult): string {
+    return simulation.revertReason || (simulation.error ? simulation.error.message : "unknown reason");
+  }
+}
+
+export interface GetRedemptionPlanOptions {
+  /**
+   * The DAO whose executed proposals are to be scanned
+   */
+  avatarAddress: Address;
+  /**
+   * The accounts whose rewards are to be redeemed
+   */
+  beneficiaryAddresses: Array<Address>;
+  /**
+   * Block from which to scan for executed proposals.  Default is 0.
+   */
+  fromBlock?: number;
+  /**
+   * How much to value each kind of reward, per Wei, when prioritizing the plan.  Default is 1 for each.
+   */
+  weights?: Partial<RedemptionWeights>;
+}
+
+/**
+ * Amounts of each kind of reward, in Wei
+ */
+export interface RedemptionAmounts {
+  eth: BigNumber;
+  /**
+   * The external token of a ContributionReward proposal
+   */
+  externalToken: BigNumber;
+  /**
+   * The DAO's native token
+   */
+  nativeToken: BigNumber;
+  /**
+   * Negative when a ContributionReward proposal takes reputation away from its beneficiary
+   */
+  reputation: BigNumber;
+  /**
+   * GenesisProtocol's staking token
+   */
+  stakingToken: BigNumber;
+}
+
+export interface RedemptionWeights {
+  eth: number;
+  externalToken: number;
+  nativeToken: number;
+  reputation: number;
+  stakingToken: number;
+}
+
+export interface RedemptionPlanItem {
+  /**
+   * The rewards that will be redeemed
+   */
+  amounts: RedemptionAmounts;
+  avatarAddress: Address;
+  /**
+   * The account whose rewards will be redeemed
+   */
+  beneficiaryAddress: Address;
+  /**
+   * When `method` is "ContributionReward", the remaining rewards of the proposal
+   */
+  contributionRewards?: ProposalRewards;
+  /**
+   * The estimated amount of gas the redemption will use
+   */
+  gas: number;
+  /**
+   * "Redeemer" when redeemed using `RedeemerWrapper.redeem`, "ContributionReward" when redeemed
+   * using `ContributionRewardWrapper.redeemContributionReward`.
+   */
+  method: "Redeemer" | "ContributionReward";
+  proposalId: Hash;
+  /**
+   * When `method` is "Redeemer", the amounts returned by `RedeemerWrapper.redeemables`
+   */
+  redeemables?: RedeeemableResult;
+  /**
+   * Address of the Redeemer or ContributionReward contract that will redeem the rewards
+   */
+  schemeAddress: Address;
+  /**
+   * The sum of the weighted `amounts`, where negative amounts reduce the value.  Always positive,
+   * as items of no value are left out of the plan.
+   */
+  value: BigNumber;
+  /**
+   * `value` divided by `gas`, by which the plan is ordered
+   */
+  valuePerGas: BigNumber;
+}
+
+export interface RedemptionResult {
+  /**
+   * Why the redemption failed
+   */
+  error?: Error;
+  item: RedemptionPlanItem;
+  succeeded: boolean;
+  /**
+   * Hash of the redemption transaction, if it was sent
+   */
+  tx?: Hash;
+}
@@ -0,0 +1,380 @@
+import { BigNumber } from "bignumber.js";
+import { BatchReader } from "./batchReader";
+import { Address, Hash } from "./commonTypes";
+import { DAO, Participant } from "./dao";
+import { DecodedLogEntryEvent } from "./iContractWrapperBase";
+import { UtilsInternal } from "./utilsInternal";
+import { ReputationBurnEventResult, ReputationMintEventResult } from "./wrappers/reputation";
+
+/**
+ * Reports how a DAO's reputation is distributed among its holders at a given block,
+ * how concentrated it is, and how it changed between two blocks.
+ *
+ * See [Analyzing Reputation](/Daos.md#reputationanalytics).
+ */
+export class ReputationAnalytics {
+
+  /**
+   * Returns the promise of every account holding reputation in the DAO at the given block,
+   * with its balance and share of the total supply, ordered by descending reputation.
+   * @param options
+   */
+  public static async getSnapshot(options: GetReputationSnapshotOptions): Promise<ReputationSnapshot> {
+
+    if (!options.avatarAddress) {
+      throw new Error("avatarAddress is not defined");
+    }
+
+    const blockNumber = (typeof options.blockNumber === "number") ?
+      options.blockNumber : await UtilsInternal.lastBlockNumber();
+
+    const dao = await DAO.at(options.avatarAddress);
+    const reader = new BatchReader();
+
+    /**
+     * every account that ever held reputation was minted some
+     */
+    const participants = await dao.getParticipants({ toBlock: blockNumber });
+
+    const balances = participants.map((participant: Participant): Promise<BigNumber> =>
+      reader.add((): Promise<BigNumber> => dao.reputation.getBalanceOfAt(participant.address, blockNumber)));
+    const totalSupplyPromise =
+      reader.add((): Promise<BigNumber> => dao.reputation.getTotalSupplyAt(blockNumber));
+
+    await reader.execute();
+
+    const totalSupply = await totalSupplyPromise;
+    const holders = new Array<ReputationHolder>();
+
+    for (let i = 0; i < participants.length; ++i) {
+      const reputation = await balances[i];
+      if (reputation.gt(0)) {
+        holders.push({
+          address: participants[i].address,
+          reputation,
+          share: reputation.div(totalSupply).toNumber(),
+        });
+      }
+    }
+
+    holders.sort((a: ReputationHolder, b: ReputationHolder): number => b.reputation.comparedTo(a.reputation));
+
+    return {
+      avatarAddress: dao.avatar.address,
+      blockNumber,
+      holders,
+      reputationAddress: dao.reputation.address,
+      totalSupply,
+    };
+  }
+
+  /**
+   * Returns measures of how concentrated the reputation in the given snapshot is.
+   * @param snapshot
+   * @param topN The numbers of largest holders whose combined share to return.  Default is [1, 5, 10].
+   */
+  public static getConcentration(
+    snapshot: ReputationSnapshot,
+    topN: Array<number> = [1, 5, 10]): ReputationConcentration {
+
+    const total = snapshot.holders.reduce(
+      (sum: BigNumber, holder: ReputationHolder): BigNumber => sum.add(holder.reputation), new BigNumber(0));
+
+    const descending = snapshot.holders.map((holder: ReputationHolder): BigNumber => holder.reputation)
+      .sort((a: BigNumber, b: BigNumber): number => b.comparedTo(a));
+
+    const count = descending.length;
+
+    if (total.eq(0)) {
+      return {
+        gini: 0,
+        holderCount: 0,
+        nakamoto: 0,
+        topShares: topN.map((n: number): TopHoldersShare => ({ holderCount: n, share: 0 })),
+      };
+    }
+
+    /**
+     * G = 2 * sum(i * x_i) / (n * sum(x_i)) - (n + 1) / n, with x_i in ascending order, i from 1
+     */
+    const weightedSum = descending.reduce(
+      (sum: BigNumber, reputation: BigNumber, i: number): BigNumber => sum.add(reputation.mul(count - i)),
+      new BigNumber(0));
+
+    const gini = weightedSum.mul(2).div(total.mul(count)).sub(new BigNumber(count + 1).div(count));
+
+    let nakamoto = 0;
+    let accumulated = new BigNumber(0);
+    while (accumulated.mul(2).lte(total)) {
+      accumulated = accumulated.add(descending[nakamoto++]);
+    }
+
+    return {
+      gini: gini.toNumber(),
+      holderCount: count,
+      nakamoto,
+      topShares: topN.map((n: number): TopHoldersShare => ({
+        holderCount: n,
+        share: descending.slice(0, n)
+          .reduce((sum: BigNumber, reputation: BigNumber): BigNumber => sum.add(reputation), new BigNumber(0))
+          .div(total).toNumber(),
+      })),
+    };
+  }
+
+  /**
+   * Returns the promise of how each account's reputation changed from one snapshot of a DAO to a later one,
+   * with the `Mint` and `Burn` events that changed it, ordered by descending change.
+   * @param from
+   * @param to
+   */
+  public static async diff(from: ReputationSnapshot, to: ReputationSnapshot): Promise<ReputationDiff> {
+
+    if (from.reputationAddress !== to.reputationAddress) {
+      throw new Error("the snapshots are not of the same reputation");
+    }
+
+    if (from.blockNumber > to.blockNumber) {
+      throw new Error("the first snapshot must not be later than the second");
+    }
+
+    const changes = new Map<Address, ReputationChange>();
+
+    const getChange = (address: Address): ReputationChange => {
+      let change = changes.get(address);
+      if (!change) {
+        change = { address, after: new BigNumber(0), before: new BigNumber(0), change: undefined, events: [] };
+        changes.set(address, change);
+      }
+      return change;
+    };
+
+    from.holders.forEach((holder: ReputationHolder) => { getChange(holder.address).before = holder.reputation; });
+    to.holders.forEach((holder: ReputationHolder) => { getChange(holder.address).after = holder.reputation; });
+
+    if (from.blockNumber < to.blockNumber) {
+      const dao = await DAO.at(to.avatarAddress);
+      const range = { fromBlock: from.blockNumber + 1, toBlock: to.blockNumber };
+
+      (await dao.reputation.Mint({}, range).get()).forEach(
+        (event: DecodedLogEntryEvent<ReputationMintEventResult>) => {
+          getChange(event.args._to).events.push(ReputationAnalytics.toChangeEvent("Mint", event, event.args._amount));
+        });
+
+      (await dao.reputation.Burn({}, range).get()).forEach(
+        (event: DecodedLogEntryEvent<ReputationBurnEventResult>) => {
+          getChange(event.args._from).events.push(ReputationAnalytics.toChangeEvent("Burn", event, event.args._amount));
+        });
+    }
+
+    const result = new Array<ReputationChange>();
+
+    for (const change of changes.values()) {
+      change.change = change.after.sub(change.before);
+      if (!change.change.eq(0) || change.events.length) {
+        change.events.sort((a: ReputationChangeEvent, b: ReputationChangeEvent): number =>
+          (a.blockNumber - b.blockNumber) || (a.logIndex - b.logIndex));
+        result.push(change);
+      }
+    }
+
+    result.sort((a: ReputationChange, b: ReputationChange): number => b.change.comparedTo(a.change));
+
+    return {
+      avatarAddress: to.avatarAddress,
+      changes: result,
+      fromBlock: from.blockNumber,
+      toBlock: to.blockNumber,
+      totalSupplyChange: to.totalSupply.sub(from.totalSupply),
+    };
+  }
+
+  /**
+   * Returns the holders in the given snapshot as CSV, with columns address, reputation (in Wei) and share.
+   * @param snapshot
+   */
+  public static snapshotToCsv(snapshot: ReputationSnapshot): string {
+    return ReputationAnalytics.toCsv(
+      ["address", "reputation", "share"],
+      snapshot.holders.map((holder: ReputationHolder): Array<any> =>
+        [holder.address, holder.reputation, holder.share]));
+  }
+
+  /**
+   * Returns the changes in the given diff as CSV, with columns address, before, after, change,
+   * minted, burned (all in Wei) and the hashes of the transactions that minted or burned it.
+   * @param diff
+   */
+  public static diffToCsv(diff: ReputationDiff): string {
+    return ReputationAnalytics.toCsv(
+      ["address", "before", "after", "change", "minted", "burned", "transactions"],
+      diff.changes.map((change: ReputationChange): Array<any> => {
+        const sum = (type: string): BigNumber => change.events
+          .filter((event: ReputationChangeEvent): boolean => event.type === type)
+          .reduce((total: BigNumber, event: ReputationChangeEvent): BigNumber => total.add(event.amount),
+            new BigNumber(0));
+
+        return [
+          change.address,
+          change.before,
+          change.after,
+          change.change,
+          sum("Mint"),
+          sum("Burn"),
+          change.events.map((event: ReputationChangeEvent): Hash => event.transactionHash).join(";"),
+        ];
+      }));
+  }
+
+  /**
+   * Returns the given snapshot, concentration or diff as JSON, with amounts as decimal strings in Wei.
+   * @param value
+   */
+  public static toJson(value: ReputationSnapshot | ReputationConcentration | ReputationDiff): string {
+    return JSON.stringify(ReputationAnalytics.toExportable(value), null, 2);
+  }
+
+  private static toChangeEvent(
+    type: "Mint" | "Burn",
+    event: DecodedLogEntryEvent<any>,
+    amount: BigNumber): ReputationChangeEvent {
+    return {
+      amount,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+      type,
+    };
+  }
+
+  private static toCsv(columns: Array<string>, rows: Array<Array<any>>): string {
+    const toField = (value: any): string => {
+      const text = (value instanceof BigNumber) ? value.toString(10) : `${value}`;
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+    };
+
+    return [columns].concat(rows)
+      .map((row: Array<any>): string => row.map(toField).join(","))
+      .join("\n") + "\n";
+  }
+
+  private static toExportable(value: any): any {
+    if (value instanceof BigNumber) {
+      return value.toString(10);
+    } else if (Array.isArray(value)) {
+      return value.map((item: any): any => ReputationAnalytics.toExportable(item));
+    } else if (value && (typeof value === "object")) {
+      const result: any = {};
+      for (const key of Object.keys(value)) {
+        result[key] = ReputationAnalytics.toExportable(value[key]);
+      }
+      return result;
+    }
+    return value;
+  }
+}
+
+export interface GetReputationSnapshotOptions {
+  avatarAddress: Address;
+  /**
+   * Default is the last mined block
+   */
+  blockNumber?: number;
+}
+
+export interface ReputationHolder {
+  address: Address;
+  /**
+   * In Wei
+   */
+  reputation: BigNumber;
+  /**
+   * Fraction of the total supply of reputation, from 0 to 1
+   */
+  share: number;
+}
+
+export interface ReputationSnapshot {
+  avatarAddress: Address;
+  blockNumber: number;
+  /**
+   * Accounts holding reputation at `blockNumber`, ordered by descending reputation
+   */
+  holders: Array<ReputationHolder>;
+  reputationAddress: Address;
+  /**
+   * In Wei
+   */
+  totalSupply: BigNumber;
+}
+
+export interface TopHoldersShare {
+  /**
+   * The number of largest holders
+   */
+  holderCount: number;
+  /**
+   * Their combined fraction of the reputation, from 0 to 1
+   */
+  share: number;
+}
+
+export interface ReputationConcentration {
+  /**
+   * Gini coefficient of the holders' reputation, from 0 when everyone holds the same amount,
+   * towards 1 when a single holder holds it all
+   */
+  gini: number;
+  holderCount: number;
+  /**
+   * The smallest number of holders that together hold more than half of the reputation
+   */
+  nakamoto: number;
+  topShares: Array<TopHoldersShare>;
+}
+
+export interface ReputationChangeEvent {
+  /**
+   * In Wei
+   */
+  amount: BigNumber;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hash;
+  type: "Mint" | "Burn";
+}
+
+export interface ReputationChange {
+  address: Address;
+  /**
+   * Reputation at the first snapshot, in Wei
+   */
+  before: BigNumber;
+  /**
+   * Reputation at the second snapshot, in Wei
+   */
+  after: BigNumber;
+  /**
+   * `after` less `before`, in Wei
+   */
+  change: BigNumber;
+  /**
+   * The `Mint` and `Burn` events after the first snapshot, up to and including the block of the second,
+   * in the order in which they occurred
+   */
+  events: Array<ReputationChangeEvent>;
+}
+
+export interface ReputationDiff {
+  avatarAddress: Address;
+  /**
+   * Accounts whose reputation changed or was minted or burned, ordered by descending change
+   */
+  changes: Array<ReputationChange>;
+  fromBlock: number;
+  toBlock: number;
+  /**
+   * In Wei
+   */
+  totalSupplyChange: BigNumber;
+}
@@ -0,0 +1,51 @@
+import { DaoDeploymentReport, DaoSpecService, InitializeArcJs } from "../index";
+
+/* tslint:disable:no-console */
+
+/**
+ * Creates a DAO from a JSON or YAML DAO specification and writes a report of what was created.
+ * See [DAO Specifications](/Daos.md#daospecs).
+ */
+export class DaoFromSpecCreator {
+
+  /**
+   * @param specPath Path to the JSON or YAML DAO specification
+   * @param reportPath Path of the JSON file in which to write the deployment report.
+   * Default is the spec path with ".deployment.json" in place of its extension.
+   */
+  constructor(
+    private specPath: string,
+    private reportPath?: string) {
+    if (!specPath) {
+      throw new Error("DaoFromSpecCreator: specPath is not defined");
+    }
+    if (!reportPath) {
+      this.reportPath = `${specPath.replace(/\.(json|ya?ml)$/i, "")}.deployment.json`;
+    }
+  }
+
+  public async run(): Promise<DaoDeploymentReport> {
+
+    const spec = await DaoSpecService.load(this.specPath);
+
+    DaoSpecService.assertValid(spec);
+
+    await InitializeArcJs();
+
+    console.log(`creating DAO "${spec.name}" from ${this.specPath}...`);
+
+    const report = await DaoSpecService.deploy(spec);
+
+    /* tslint:disable-next-line:no-var-requires */
+    await require("fs-extra").outputFile(this.reportPath, JSON.stringify(report, null, 2), "utf8");
+
+    console.log(`new DAO created at: ${report.avatar}`);
+    console.log(`native token: ${report.token}`);
+    for (const proposal of report.globalConstraintProposals) {
+      console.log(`proposed adding global constraint ${proposal.name || proposal.address}: ${proposal.proposalId}`);
+    }
+    console.log(`deployment report written to ${this.reportPath}`);
+
+    return report;
+  }
+}
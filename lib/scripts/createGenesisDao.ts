@@ -1,25 +1,9 @@
 import { Web3 } from "web3";
-import { DAO, InitializeArcJs } from "../index";
+import { DaoSpec, DaoSpecService, InitializeArcJs } from "../index";
 
 /* tslint:disable:no-console */
 /* tslint:disable:max-line-length */
 
-interface FounderSpec {
-  /**
-   * Founders' address
-   */
-  address: string;
-  /**
-   * string | number token amount to be awarded to each founder, in GEN
-   */
-  tokens: string | number;
-  /**
-   * string | number reputation amount to be awarded to each founder,
-   * in units of the Genesis Reputation system.
-   */
-  reputation: string | number;
-}
-
 /**
  * Migration callback
  */
@@ -31,7 +15,7 @@ export class GenesisDaoCreator {
 
   public async run(): Promise<void> {
 
-    const spec = {
+    const spec: DaoSpec = {
       founders: [
         {
           address: "0xb0c908140fe6fd6fbd4990a5c2e35ca6dc12bfb2",
@@ -91,26 +75,19 @@ export class GenesisDaoCreator {
           },
         },
       ],
+      specVersion: 1,
       tokenName: "Genesis Test",
       tokenSymbol: "GDT",
     };
 
     await InitializeArcJs();
 
-    spec.founders = spec.founders.map((f: FounderSpec) => {
-      return {
-        address: f.address,
-        reputation: this.web3.toWei(f.reputation),
-        tokens: this.web3.toWei(f.tokens),
-      };
-    });
-
     console.log(`Genesis Test DAO with ${spec.founders.length} founders...`);
 
-    const dao = await DAO.new(spec);
+    const report = await DaoSpecService.deploy(spec);
 
-    console.log(`new DAO created at: ${dao.avatar.address}`);
-    console.log(`native token: ${dao.token.address}`);
+    console.log(`new DAO created at: ${report.avatar}`);
+    console.log(`native token: ${report.token}`);
 
     return Promise.resolve();
   }
@@ -0,0 +1,76 @@
+import {
+  Address,
+  InitializeArcJs,
+  VestingAgreementBatch,
+  VestingAgreementBatchResult,
+  VestingSchemeFactory
+} from "../index";
+
+/* tslint:disable:no-console */
+
+/**
+ * Creates or proposes the vesting agreements in a CSV or JSON file, saving progress as it goes
+ * so that an interrupted run can be resumed.
+ * See [Creating Vesting Agreements in Bulk](/Proposals.md#vestingbatches).
+ */
+export class VestingAgreementsFromFileCreator {
+
+  /**
+   * @param vestingSchemeAddress Address of the VestingScheme
+   * @param rowsPath Path to the CSV or JSON file of agreements
+   * @param options `token` to create the agreements paying in that token, or `avatar` to propose them
+   * to that DAO.  `resultsPath` is the path of the JSON file in which to save the results, and from which
+   * to resume.  Default is the rows path with ".results.json" in place of its extension.
+   */
+  constructor(
+    private vestingSchemeAddress: Address,
+    private rowsPath: string,
+    private options: { avatar?: Address, resultsPath?: string, token?: Address }) {
+    if (!vestingSchemeAddress) {
+      throw new Error("VestingAgreementsFromFileCreator: vestingSchemeAddress is not defined");
+    }
+    if (!rowsPath) {
+      throw new Error("VestingAgreementsFromFileCreator: rowsPath is not defined");
+    }
+    if (!options.resultsPath) {
+      this.options = Object.assign({}, options, {
+        resultsPath: `${rowsPath.replace(/\.(json|csv)$/i, "")}.results.json`,
+      });
+    }
+  }
+
+  public async run(): Promise<Array<VestingAgreementBatchResult>> {
+
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    const rows = await VestingAgreementBatch.load(this.rowsPath);
+    const previousResults = (await fs.pathExists(this.options.resultsPath)) ?
+      await fs.readJson(this.options.resultsPath) : undefined;
+
+    await InitializeArcJs();
+
+    const vestingScheme = await VestingSchemeFactory.at(this.vestingSchemeAddress);
+
+    if (previousResults) {
+      console.log(`resuming from ${this.options.resultsPath}`);
+    }
+
+    console.log(`${this.options.token ? "creating" : "proposing"} ${rows.length} agreements from ${this.rowsPath}...`);
+
+    const results = await VestingAgreementBatch.run(vestingScheme, rows, {
+      avatar: this.options.avatar,
+      onProgress: (progress: Array<VestingAgreementBatchResult>): Promise<void> =>
+        fs.outputFile(this.options.resultsPath, JSON.stringify(progress, null, 2), "utf8"),
+      previousResults,
+      token: this.options.token,
+    });
+
+    for (const result of results) {
+      console.log(`row ${result.row}, ${result.beneficiaryAddress}: ${this.options.token ?
+        `agreementId ${result.agreementId}` : `proposalId ${result.proposalId}`}`);
+    }
+    console.log(`results written to ${this.options.resultsPath}`);
+
+    return results;
+  }
+}
@@ -0,0 +1,139 @@
+import { BigNumber } from "bignumber.js";
+import { Address } from "./commonTypes";
+
+/**
+ * Signs transactions on behalf of a single account, enabling Arc.js to send transactions
+ * to a node that has no unlocked accounts, using `eth_sendRawTransaction`.
+ *
+ * Supply an implementation to `InitializeArcJs` (see `InitializeArcOptions.signer`).
+ * See [Signing Transactions Offline](/Transactions.md#signingtransactions).
+ */
+export interface ISigner {
+  /**
+   * Returns promise of the address of the account whose transactions are signed.
+   */
+  getAddress(): Promise<Address>;
+  /**
+   * Returns promise of the given transaction, signed and serialized as a hex string
+   * suitable for `eth_sendRawTransaction`.
+   */
+  signTransaction(tx: UnsignedTransaction): Promise<string>;
+}
+
+/**
+ * A fully-specified transaction, ready to be signed by an `ISigner`.
+ */
+export interface UnsignedTransaction {
+  from: Address;
+  /**
+   * Undefined when creating a contract
+   */
+  to?: Address;
+  data?: string;
+  value: BigNumber | string | number;
+  gas: BigNumber | string | number;
+  gasPrice: BigNumber | string | number;
+  nonce: number;
+  /**
+   * EIP-155 chain id.  When undefined the transaction is signed without replay protection.
+   */
+  chainId?: number;
+}
+
+/**
+ * An `ISigner` that signs transactions using the given private key.
+ */
+export class PrivateKeySigner implements ISigner {
+
+  private static toHex(value: BigNumber | string | number): string {
+    return `0x${new BigNumber(value || 0).toString(16)}`;
+  }
+
+  private privateKey: Buffer;
+  private address: Address;
+
+  /**
+   * @param privateKey The private key as a hex string, with or without the "0x" prefix, or as a `Buffer`.
+   */
+  constructor(privateKey: string | Buffer) {
+    if (!privateKey) {
+      throw new Error("PrivateKeySigner: privateKey is not defined");
+    }
+
+    this.privateKey = (typeof privateKey === "string") ?
+      Buffer.from(privateKey.replace(/^0x/i, ""), "hex") : privateKey;
+
+    if (this.privateKey.length !== 32) {
+      throw new Error("PrivateKeySigner: privateKey must be 32 bytes");
+    }
+
+    /* tslint:disable-next-line:no-var-requires */
+    const Wallet = require("ethereumjs-wallet");
+    this.address = Wallet.fromPrivateKey(this.privateKey).getAddressString();
+  }
+
+  public getAddress(): Promise<Address> {
+    return Promise.resolve(this.address);
+  }
+
+  public signTransaction(tx: UnsignedTransaction): Promise<string> {
+
+    if (tx.from && (tx.from.toLowerCase() !== this.address)) {
+      return Promise.reject(
+        new Error(`PrivateKeySigner: cannot sign a transaction from ${tx.from}, signer is ${this.address}`));
+    }
+
+    /* tslint:disable-next-line:no-var-requires */
+    const EthereumTx = require("ethereumjs-tx");
+
+    const ethTx = new EthereumTx({
+      chainId: tx.chainId,
+      data: tx.data,
+      gasLimit: PrivateKeySigner.toHex(tx.gas),
+      gasPrice: PrivateKeySigner.toHex(tx.gasPrice),
+      nonce: PrivateKeySigner.toHex(tx.nonce),
+      to: tx.to,
+      value: PrivateKeySigner.toHex(tx.value),
+    });
+
+    ethTx.sign(this.privateKey);
+
+    return Promise.resolve(`0x${ethTx.serialize().toString("hex")}`);
+  }
+}
+
+/**
+ * An `ISigner` that signs transactions using a private key derived from the given
+ * BIP39 mnemonic and BIP44 derivation path.
+ */
+export class MnemonicSigner extends PrivateKeySigner {
+
+  private static derivePrivateKey(mnemonic: string, hdPath: string): Buffer {
+    /* tslint:disable-next-line:no-var-requires */
+    const bip39 = require("bip39");
+    /* tslint:disable-next-line:no-var-requires */
+    const hdkey = require("ethereumjs-wallet/hdkey");
+
+    if (!mnemonic || !bip39.validateMnemonic(mnemonic)) {
+      throw new Error("MnemonicSigner: mnemonic is not valid");
+    }
+
+    return hdkey.fromMasterSeed(bip39.mnemonicToSeed(mnemonic))
+      .derivePath(hdPath)
+      .getWallet()
+      .getPrivateKey();
+  }
+
+  /**
+   * @param mnemonic The BIP39 mnemonic phrase
+   * @param addressIndex Index of the account to derive.  Default is 0.
+   * @param hdPathPrefix The derivation path, to which the `addressIndex` is appended.
+   * Default is "m/44'/60'/0'/0/".
+   */
+  constructor(
+    mnemonic: string,
+    addressIndex: number = 0,
+    hdPathPrefix: string = "m/44'/60'/0'/0/") {
+    super(MnemonicSigner.derivePrivateKey(mnemonic, `${hdPathPrefix}${addressIndex}`));
+  }
+}
@@ -1,9 +1,16 @@
+import { BigNumber } from "bignumber.js";
 import { promisify } from "es6-promisify";
-import { DecodedLogEntry, LogEntry, TransactionReceipt } from "web3";
+import { DecodedLogEntry, LogEntry, Transaction, TransactionReceipt, TxData } from "web3";
 import { Hash } from "./commonTypes";
 import { ConfigService } from "./configService";
 import { LoggingService } from "./loggingService";
 import { PubSubEventService } from "./pubSubEventService";
+import {
+  InMemoryTransactionStore,
+  ITransactionStore,
+  PendingTransactionEventSpec,
+  PendingTransactionInfo
+} from "./transactionStore";
 import { Utils } from "./utils";
 import { UtilsInternal } from "./utilsInternal";
 /* tslint:disable-next-line:no-var-requires */
@@ -16,6 +23,13 @@ const ethJSABI = require("ethjs-abi");
  */
 export class TransactionService extends PubSubEventService {
 
+  /**
+   * Geth, by default, will not accept a replacement transaction unless its gas price is at least
+   * this much greater than that of the transaction being replaced.  `speedUp` and `cancel` refuse
+   * lower gas prices.
+   */
+  public static readonly minimumReplacementGasPriceFactor: number = 1.1;
+
   /**
    * Generate a new invocation key.
    */
@@ -39,17 +53,38 @@ export class TransactionService extends PubSubEventService {
   ): TransactionReceiptsEventInfo {
 
     const payload = TransactionService.createPayload(functionName, options, txCount);
+
     /**
-     * publish the `kickoff` event
+     * publish the `kickoff` event, unless no transactions will be sent
      */
-    TransactionService._publishTxEvent(
-      [new TxEventSpec(functionName, payload)],
-      null, null,
-      TransactionStage.kickoff);
+    if (!TransactionService.isSimulating(options)) {
+      TransactionService._publishTxEvent(
+        [new TxEventSpec(functionName, payload)],
+        null, null,
+        TransactionStage.kickoff);
+    }
 
     return payload;
   }
 
+  /**
+   * Returns whether the given options, or those of any transaction-generating function in their
+   * event context, ask to simulate rather than send transactions.  See `TxGeneratingFunctionOptions.simulate`.
+   *
+   * @hidden - for internal use only
+   * @param options
+   */
+  public static isSimulating(options: TxGeneratingFunctionOptions & any): boolean {
+    if (!options) {
+      return false;
+    }
+    if (options.simulate) {
+      return true;
+    }
+    return !!options.txEventContext && options.txEventContext.stack.some((spec: TxEventSpec): boolean =>
+      !!spec.payload.options && !!spec.payload.options.simulate);
+  }
+
   /**
    * Send the given payload to subscribers of the given topic on `sent`, `mined` and `confirmed`.
    *
@@ -66,55 +101,12 @@ export class TransactionService extends PubSubEventService {
 
     TransactionService._publishTxEvent(eventContext.stack, tx, null, TransactionStage.sent);
 
+    TransactionService.rememberPendingTransaction(eventContext, tx, contract);
+
     /**
      * We are at the base context and should start watching for the mined and confirmed transaction stages.
      */
-    TransactionService.watchForMinedTransaction(tx, contract)
-      .then((txReceiptMined: TransactionReceiptTruffle): void => {
-
-        if (txReceiptMined.receipt.status !== "0x1") {
-          TransactionService.publishTxFailed(
-            eventContext,
-            TransactionStage.mined,
-            new Error("Transaction status is 0"),
-            tx,
-            txReceiptMined);
-        } else {
-          TransactionService._publishTxEvent(eventContext.stack, tx, txReceiptMined, TransactionStage.mined);
-          /**
-           * now start watching for confirmation
-           */
-          TransactionService.watchForConfirmedTransaction(tx, contract)
-            .then((txReceiptConfirmed: TransactionReceiptTruffle): void => {
-
-              if (txReceiptConfirmed.receipt.status !== "0x1") {
-                TransactionService.publishTxFailed(
-                  eventContext,
-                  TransactionStage.confirmed,
-                  new Error("Transaction status is 0"),
-                  tx,
-                  txReceiptConfirmed);
-              } else {
-                TransactionService._publishTxEvent(
-                  eventContext.stack,
-                  tx,
-                  txReceiptConfirmed,
-                  TransactionStage.confirmed);
-              }
-            })
-            .catch((ex: Error) => {
-              TransactionService.publishTxFailed(
-                eventContext,
-                TransactionStage.confirmed,
-                ex,
-                tx,
-                txReceiptMined);
-            });
-        }
-      })
-      .catch((ex: Error) => {
-        TransactionService.publishTxFailed(eventContext, TransactionStage.mined, ex, tx);
-      });
+    TransactionService.publishTxMinedAndConfirmedEvents(eventContext, tx, contract);
   }
 
   public static publishTxFailed(
@@ -127,6 +119,388 @@ export class TransactionService extends PubSubEventService {
     TransactionService._publishTxEvent(eventContext.stack, tx, txReceipt, atStage, true, error);
   }
 
+  /**
+   * Set the `ITransactionStore` in which pending transactions are remembered until
+   * they are confirmed or have failed.  The default is an `InMemoryTransactionStore`.
+   * `InitializeArcJs` calls this when given `InitializeArcOptions.transactionStore`.
+   *
+   * See [Persisting Pending Transactions](/Transactions.md#persistingtransactions).
+   * @param store
+   */
+  public static setTransactionStore(store: ITransactionStore): void {
+    if (!store) {
+      throw new Error("TransactionService.setTransactionStore: store is not defined");
+    }
+    TransactionService.transactionStore = store;
+  }
+
+  /**
+   * Returns the `ITransactionStore` in which pending transactions are being remembered.
+   */
+  public static getTransactionStore(): ITransactionStore {
+    return TransactionService.transactionStore;
+  }
+
+  /**
+   * Resume watching for every transaction in the `ITransactionStore` that was sent on the current
+   * network and has not yet been confirmed or failed.  For each one the `sent` event is re-published
+   * and then the `mined` and `confirmed` events are published as they would have been had
+   * the application not been restarted.
+   *
+   * `InitializeArcJs` calls this when given `InitializeArcOptions.transactionStore`.
+   *
+   * @returns Promise of the number of transactions that are being watched.
+   */
+  public static async resumePendingTransactions(): Promise<number> {
+
+    const networkId = await Utils.getNetworkId();
+    const pendingTransactions = (await TransactionService.transactionStore.getAll())
+      .filter((info: PendingTransactionInfo): boolean => info.networkId === networkId);
+
+    for (const info of pendingTransactions) {
+
+      const eventContext = new TxEventContext(
+        info.invocationKey,
+        info.eventStack.map((spec: PendingTransactionEventSpec): TxEventSpec => {
+          return new TxEventSpec(spec.functionName, {
+            functionName: spec.functionName,
+            invocationKey: spec.invocationKey,
+            options: spec.options,
+            tx: null,
+            txCount: spec.txCount,
+            txReceipt: null,
+            txStage: TransactionStage.kickoff,
+          });
+        }));
+
+      if (info.replacements) {
+        info.replacements.forEach((replacement: TransactionReplacement) => {
+          TransactionService.addReplacement(replacement);
+        });
+      }
+
+      let contract: any = null;
+
+      if (info.contractName && info.contractAddress) {
+        try {
+          contract = await (await Utils.requireContract(info.contractName)).at(info.contractAddress);
+        } catch (ex) {
+          LoggingService.error(
+            `TransactionService.resumePendingTransactions: unable to load contract ${info.contractName}: ${ex}`);
+        }
+      }
+
+      LoggingService.debug(
+        `TransactionService.resumePendingTransactions: resuming ${info.functionName}: ${info.txHash}`);
+
+      TransactionService._publishTxEvent(eventContext.stack, info.txHash, null, TransactionStage.sent);
+      TransactionService.publishTxMinedAndConfirmedEvents(eventContext, info.txHash, contract);
+    }
+
+    return pendingTransactions.length;
+  }
+
+  /**
+   * Replace the given pending transaction with an identical one, but at the given higher gas price.
+   * The replacement is sent from the same account with the same nonce, so only one of the two
+   * can ever be mined.
+   *
+   * Once the replacement has been mined, `watchForMinedTransaction` and friends will resolve to
+   * the replacement's receipt when given the hash of the original transaction, and when the original
+   * was sent by an Arc.js wrapper function, a `TxTracking.[functionName].replaced` event will be published
+   * whose payload `tx` is the replacement hash and `replacedTx` is the original hash.  The ensuing
+   * `mined` and `confirmed` events will then pertain to the replacement.
+   *
+   * @param txHash Hash of the pending transaction, or of a previous replacement of it.
+   * @param newGasPrice The new gas price, in Wei.  Must be at least 10% more than that of the transaction
+   * being replaced.
+   * @returns Promise of the hash of the replacement transaction
+   */
+  public static async speedUp(txHash: Hash, newGasPrice: BigNumber | string | number): Promise<Hash> {
+
+    if (!newGasPrice) {
+      throw new Error("TransactionService.speedUp: newGasPrice is not defined");
+    }
+
+    const pendingTx = await TransactionService.getReplaceableTransaction("speedUp", txHash);
+
+    const gasPrice = new BigNumber(newGasPrice);
+
+    TransactionService.validateReplacementGasPrice("speedUp", pendingTx.tx, gasPrice);
+
+    return TransactionService.sendReplacement(pendingTx, {
+      data: pendingTx.tx.input,
+      from: pendingTx.tx.from,
+      gas: pendingTx.tx.gas,
+      gasPrice,
+      nonce: pendingTx.tx.nonce,
+      to: pendingTx.tx.to,
+      value: pendingTx.tx.value,
+    }, pendingTx.cancelled);
+  }
+
+  /**
+   * Cancel the given pending transaction by replacing it with a transaction that sends
+   * nothing from the sending account to itself, at a higher gas price, with the same nonce.
+   *
+   * If the cancellation is mined, then when the original was sent by an Arc.js wrapper function a
+   * `TxTracking.[functionName].replaced` event will be published, followed by a
+   * `TxTracking.[functionName].mined.failed` event.
+   *
+   * @param txHash Hash of the pending transaction, or of a previous replacement of it.
+   * @param newGasPrice Optional gas price, in Wei, for the cancelling transaction.  Must be at least 10% more
+   * than that of the transaction being replaced, which is the default.
+   * @returns Promise of the hash of the cancelling transaction
+   */
+  public static async cancel(txHash: Hash, newGasPrice?: BigNumber | string | number): Promise<Hash> {
+
+    const pendingTx = await TransactionService.getReplaceableTransaction("cancel", txHash);
+
+    const gasPrice = newGasPrice ?
+      new BigNumber(newGasPrice) :
+      TransactionService.getMinimumReplacementGasPrice(pendingTx.tx);
+
+    TransactionService.validateReplacementGasPrice("cancel", pendingTx.tx, gasPrice);
+
+    return TransactionService.sendReplacement(pendingTx, {
+      from: pendingTx.tx.from,
+      gas: 21000,
+      gasPrice,
+      nonce: pendingTx.tx.nonce,
+      to: pendingTx.tx.from,
+      value: 0,
+    }, true);
+  }
+
+  /**
+   * Returns the replacements, in the order in which they were sent, of the given transaction,
+   * as sent by `speedUp` and `cancel`.  Returns an empty array if there are none.
+   * @param txHash Hash of the original transaction or of any of its replacements
+   */
+  public static getReplacements(txHash: Hash): Array<TransactionReplacement> {
+    const originalTx = TransactionService.replacedTransactions.get(txHash) || txHash;
+    return (TransactionService.replacements.get(originalTx) || []).slice();
+  }
+
+  /**
+   * Sign the given transaction using the signer set by `Utils.setSigner` and send it
+   * using `eth_sendRawTransaction`.  Arc.js sends transactions this way automatically whenever a
+   * signer has been set.  See [Signing Transactions Offline](/Transactions.md#signingtransactions).
+   *
+   * Values not given are obtained as follows:
+   *
+   * - `from`: the signer's address
+   * - `nonce`: the count of pending transactions sent from the account
+   * - `gas`: the "defaultGasLimit" configuration setting
+   * - `gasPrice`: the gas price reported by the node
+   *
+   * The transaction is signed with the EIP-155 chain id given by `Utils.getChainId`.
+   *
+   * @param txData The transaction
+   * @returns Promise of the transaction hash
+   */
+  public static async sendSignedTransaction(txData: Partial<TxData>): Promise<Hash> {
+
+    const signer = Utils.getSigner();
+
+    if (!signer) {
+      throw new Error("TransactionService.sendSignedTransaction: no signer has been set");
+    }
+
+    const web3 = await Utils.getWeb3();
+    const from = txData.from || await signer.getAddress();
+
+    const nonce = (typeof txData.nonce !== "undefined") ? txData.nonce :
+      Number(await promisify((callback: any): void => {
+        web3.eth.getTransactionCount(from, "pending", callback);
+      })());
+
+    const gasPrice = txData.gasPrice ||
+      await promisify((callback: any): void => { web3.eth.getGasPrice(callback); })() as BigNumber;
+
+    const signedTx = await signer.signTransaction({
+      chainId: await Utils.getChainId(),
+      data: txData.data,
+      from,
+      gas: txData.gas || ConfigService.get("defaultGasLimit"),
+      gasPrice,
+      nonce,
+      to: txData.to,
+      value: txData.value || 0,
+    });
+
+    LoggingService.debug(`TransactionService.sendSignedTransaction: sending transaction from ${from}, nonce ${nonce}`);
+
+    return promisify((callback: any): void => {
+      web3.eth.sendRawTransaction(signedTx, callback);
+    })() as Promise<Hash>;
+  }
+
+  /**
+   * Simulate sending the given transaction, without actually sending it, by executing it with `eth_call`
+   * and estimating its gas.
+   *
+   * When the node supports `evm_snapshot` and `evm_revert`, as does Ganache, then the transaction
+   * is also executed within a snapshot that is immediately reverted, in order to obtain the events
+   * that it would emit.  Otherwise `events` will be undefined.
+   *
+   * `precedingTransactions` are transactions that must be mined before the given one can succeed,
+   * such as the approval of a token transfer.  They are sent within the same snapshot, before the
+   * given transaction is simulated, and so require that the node support snapshots.
+   *
+   * Simulations run one at a time, and transactions sent by Arc.js wait until no simulation is running,
+   * so that reverting the snapshot cannot undo them.
+   *
+   * @param txData The transaction.  `from` defaults to the default account.
+   * @param contract Optional contract instance or contract name of the contract that would generate the
+   * transaction.  Supply this if you want decoded events.
+   * @param precedingTransactions Optional transactions to send, in order, within the snapshot
+   */
+  public static async simulateTransaction(
+    txData: Partial<TxData>,
+    contract: string | object = null,
+    precedingTransactions: Array<Partial<TxData>> = []): Promise<TransactionSimulation> {
+
+    return TransactionService.runSimulation(async (): Promise<TransactionSimulation> => {
+
+      const defaultAccount = await Utils.getDefaultAccount();
+      const withFrom = (data: Partial<TxData>): Partial<TxData> =>
+        Object.assign({}, data, { from: data.from || defaultAccount });
+
+      txData = withFrom(txData);
+
+      const simulation: TransactionSimulation = { succeeded: true };
+      let snapshotId: string;
+
+      try {
+        if (precedingTransactions.length) {
+          snapshotId = await TransactionService.takeSnapshot();
+
+          if (!snapshotId) {
+            throw new Error(
+              "TransactionService.simulateTransaction: the node does not support snapshots, " +
+              "which are required to simulate a sequence of transactions");
+          }
+
+          for (const precedingTx of precedingTransactions) {
+            await TransactionService.sendWithinSnapshot(withFrom(precedingTx))
+              .then((receipt: TransactionReceipt): void => {
+                if (!receipt || (receipt.status !== "0x1")) {
+                  simulation.succeeded = false;
+                  simulation.error = new Error(receipt ?
+                    `a preceding transaction would fail: ${receipt.transactionHash}` :
+                    "the node is not automatically mining transactions");
+                }
+              })
+              .catch((ex: Error): void => {
+                simulation.succeeded = false;
+                simulation.error = ex;
+                simulation.revertReason = UtilsInternal.decodeRevertReason(ex);
+              });
+
+            if (!simulation.succeeded) {
+              break;
+            }
+          }
+        }
+
+        if (simulation.succeeded) {
+          await TransactionService.estimateSimulatedTransaction(txData, simulation);
+        }
+
+        if (simulation.succeeded) {
+          snapshotId = snapshotId || await TransactionService.takeSnapshot();
+
+          if (snapshotId) {
+            simulation.events = await TransactionService.getSimulatedEvents(
+              Object.assign({}, txData, { gas: txData.gas || simulation.gas }), contract);
+          }
+        }
+      } finally {
+        if (snapshotId) {
+          /**
+           * reported separately so as not to hide the outcome of the simulation
+           */
+          await UtilsInternal.sendRpc("evm_revert", [snapshotId])
+            .catch((ex: Error): void => {
+              LoggingService.error(`TransactionService.simulateTransaction: unable to revert the snapshot: ${ex}`);
+              simulation.revertSnapshotError = ex;
+            });
+        }
+      }
+
+      LoggingService.debug(`TransactionService.simulateTransaction: ${
+        simulation.succeeded ? "succeeded" : `failed: ${simulation.revertReason || simulation.error}`}`);
+
+      return simulation;
+    });
+  }
+
+  /**
+   * Run the given function, which sends a transaction, once no simulation is running, preventing
+   * simulations from starting until it has completed.  See `simulateTransaction`.
+   *
+   * @hidden - for internal use only
+   * @param send
+   */
+  public static async runSend<T>(send: () => Promise<T>): Promise<T> {
+
+    while (TransactionService.simulation) {
+      await TransactionService.simulation.catch((): void => undefined);
+    }
+
+    // a real promise, rather than whatever the send returns
+    const sending = Promise.resolve().then(send);
+    TransactionService.sends.add(sending);
+
+    try {
+      return await sending;
+    } finally {
+      TransactionService.sends.delete(sending);
+    }
+  }
+
+  /**
+   * Returns promise of the reason given by the contract for reverting the given mined transaction,
+   * or undefined if it didn't revert or no reason can be found.
+   *
+   * The reason is found by replaying the transaction with `eth_call` against the state of the chain
+   * as of the block preceding the one in which the transaction was mined.  This requires a node that
+   * retains that state, and may give an inaccurate result when earlier transactions in the same block
+   * changed state on which the transaction depends.
+   *
+   * @param txHash
+   */
+  public static async getRevertReason(txHash: Hash): Promise<string | undefined> {
+
+    const web3 = await Utils.getWeb3();
+
+    try {
+      const tx = await promisify((callback: any): void => {
+        web3.eth.getTransaction(txHash, callback);
+      })() as Transaction;
+
+      if (!tx || (tx.blockNumber === null)) {
+        return undefined;
+      }
+
+      const returnData = await promisify((callback: any): void => {
+        web3.eth.call({
+          data: tx.input,
+          from: tx.from,
+          gas: tx.gas,
+          gasPrice: tx.gasPrice,
+          to: tx.to,
+          value: tx.value,
+        }, Math.max(tx.blockNumber - 1, 0), callback);
+      })() as string;
+
+      return UtilsInternal.decodeRevertReason(returnData);
+    } catch (ex) {
+      return UtilsInternal.decodeRevertReason(ex);
+    }
+  }
+
   /**
    * Return a new event stack with the given one pushed onto it.
    * Will take obj.txEventContext, else create a new one.
@@ -315,21 +689,20 @@ export class TransactionService extends PubSubEventService {
     contract: string | object = null,
     requiredDepth: number = 0): Promise<TransactionReceipt | TransactionReceiptTruffle | null> {
 
-    const web3 = await Utils.getWeb3();
-    return promisify((innerCallback: any) => {
-      web3.eth.getTransactionReceipt(txHash, innerCallback);
-    })()
-      .then(async (receipt: TransactionReceipt | null) => {
-        const depth = await TransactionService.getTransactionDepth(receipt);
-        // blockNumber should always be set, but just in case...
-        if ((receipt && !receipt.blockNumber) || (depth < requiredDepth)) { return null; } else {
-          if (contract) {
-            return await TransactionService.toTxTruffle(receipt, contract);
-          } else {
-            return receipt;
-          }
-        }
-      }) as Promise<TransactionReceipt | null>;
+    /**
+     * Whichever of the original transaction or its replacements has been mined
+     */
+    const candidates = [txHash, ...TransactionService.getReplacements(txHash)
+      .map((replacement: TransactionReplacement): Hash => replacement.tx)
+      .filter((tx: Hash): boolean => tx !== txHash)];
+
+    for (const candidate of candidates) {
+      const receipt = await TransactionService.getMinedReceipt(candidate, contract, requiredDepth);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
   }
 
   /**
@@ -532,6 +905,434 @@ export class TransactionService extends PubSubEventService {
     return requiredDepth;
   }
 
+  private static transactionStore: ITransactionStore = new InMemoryTransactionStore();
+
+  /**
+   * Replacements keyed by the hash of the original transaction
+   */
+  private static replacements: Map<Hash, Array<TransactionReplacement>> =
+    new Map<Hash, Array<TransactionReplacement>>();
+
+  /**
+   * Hashes of original transactions keyed by the hashes of their replacements
+   */
+  private static replacedTransactions: Map<Hash, Hash> = new Map<Hash, Hash>();
+
+  /**
+   * Promises of saving sent transactions in the `ITransactionStore`, keyed by transaction hash,
+   * so that a transaction is not forgotten before it has been remembered
+   */
+  private static rememberingTransactions: Map<Hash, Promise<void>> = new Map<Hash, Promise<void>>();
+
+  /**
+   * The simulation that is running or, when several are queued, the last of them.  See `runSimulation`.
+   */
+  private static simulation: Promise<any>;
+
+  /**
+   * Sends that are running.  See `runSend`.
+   */
+  private static sends: Set<Promise<any>> = new Set<Promise<any>>();
+
+  /**
+   * Whether the given receipt shows the transaction succeeded.  The receipt is a plain `TransactionReceipt`
+   * rather than a `TransactionReceiptTruffle` when the transaction's contract is not known.
+   */
+  private static isSuccessful(txReceipt: TransactionReceiptTruffle | TransactionReceipt): boolean {
+    const receipt = (txReceipt as TransactionReceiptTruffle).receipt || (txReceipt as TransactionReceipt);
+    return receipt.status === "0x1";
+  }
+
+  /**
+   * Publish the `mined` and `confirmed` events, or `failed` events, for the given sent transaction,
+   * forgetting the transaction in the `ITransactionStore` when it has completed its lifecycle.
+   */
+  private static publishTxMinedAndConfirmedEvents(
+    eventContext: TxEventContext,
+    tx: Hash,
+    contract: any
+  ): void {
+
+    TransactionService.watchForMinedTransaction(tx, contract)
+      .then((txReceiptMined: TransactionReceiptTruffle): void | Promise<void> => {
+
+        if (txReceiptMined.transactionHash !== tx) {
+          /**
+           * a replacement was mined instead, sent by `speedUp` or `cancel`.
+           */
+          const replacedTx = tx;
+          const replacement = TransactionService.getReplacements(replacedTx)
+            .filter((r: TransactionReplacement): boolean => r.tx === txReceiptMined.transactionHash)[0];
+
+          tx = txReceiptMined.transactionHash;
+
+          TransactionService.forgetPendingTransaction(replacedTx);
+          TransactionService._publishTxEvent(
+            eventContext.stack, tx, txReceiptMined, TransactionStage.replaced, false, undefined, replacedTx);
+
+          if (replacement && replacement.cancelled) {
+            TransactionService.publishTxFailed(
+              eventContext,
+              TransactionStage.mined,
+              new Error("Transaction was cancelled"),
+              tx,
+              txReceiptMined);
+            return;
+          }
+        }
+
+        if (!TransactionService.isSuccessful(txReceiptMined)) {
+          TransactionService.forgetPendingTransaction(tx);
+          return TransactionService.getRevertReason(tx)
+            .then((revertReason: string | undefined): void => {
+              TransactionService.publishTxFailed(
+                eventContext,
+                TransactionStage.mined,
+                new ArcTransactionRevertedError(tx, revertReason, txReceiptMined),
+                tx,
+                txReceiptMined);
+            });
+        } else {
+          TransactionService._publishTxEvent(eventContext.stack, tx, txReceiptMined, TransactionStage.mined);
+          /**
+           * now start watching for confirmation
+           */
+          TransactionService.watchForConfirmedTransaction(tx, contract)
+            .then((txReceiptConfirmed: TransactionReceiptTruffle): void => {
+
+              TransactionService.forgetPendingTransaction(tx);
+
+              if (!TransactionService.isSuccessful(txReceiptConfirmed)) {
+                TransactionService.publishTxFailed(
+                  eventContext,
+                  TransactionStage.confirmed,
+                  new ArcTransactionRevertedError(tx, undefined, txReceiptConfirmed),
+                  tx,
+                  txReceiptConfirmed);
+              } else {
+                TransactionService._publishTxEvent(
+                  eventContext.stack,
+                  tx,
+                  txReceiptConfirmed,
+                  TransactionStage.confirmed);
+              }
+            })
+            .catch((ex: Error) => {
+              TransactionService.forgetPendingTransaction(tx);
+              TransactionService.publishTxFailed(
+                eventContext,
+                TransactionStage.confirmed,
+                ex,
+                tx,
+                txReceiptMined);
+            });
+        }
+      })
+      .catch((ex: Error) => {
+        TransactionService.forgetPendingTransaction(tx);
+        TransactionService.publishTxFailed(eventContext, TransactionStage.mined, ex, tx);
+      });
+  }
+
+  /**
+   * Save the given sent transaction in the `ITransactionStore`.  Failure to save is logged but
+   * otherwise does not interfere with the transaction.
+   */
+  private static rememberPendingTransaction(
+    eventContext: TxEventContext,
+    tx: Hash,
+    contract: any): void {
+
+    const topSpec = eventContext.stack[eventContext.stack.length - 1];
+
+    const remembering = Utils.getNetworkId()
+      .then((networkId: number): Promise<void> => {
+        return TransactionService.transactionStore.set({
+          contractAddress: contract ? contract.address : undefined,
+          contractName: (contract && contract.constructor) ? contract.constructor.contractName : undefined,
+          eventStack: eventContext.stack.map((spec: TxEventSpec): PendingTransactionEventSpec => {
+            return {
+              functionName: spec.functionName,
+              invocationKey: spec.payload.invocationKey,
+              options: TransactionService.toStorableOptions(spec.payload.options),
+              txCount: spec.payload.txCount,
+            };
+          }),
+          functionName: topSpec.functionName,
+          invocationKey: eventContext.invocationKey,
+          networkId,
+          options: TransactionService.toStorableOptions(topSpec.payload.options),
+          sentAt: Date.now(),
+          txHash: tx,
+        });
+      })
+      .catch((ex: Error) => {
+        LoggingService.error(`TransactionService: unable to remember pending transaction ${tx}: ${ex}`);
+      });
+
+    TransactionService.rememberingTransactions.set(tx, remembering);
+  }
+
+  /**
+   * Remove the given transaction from the `ITransactionStore`, once it has been saved there.
+   */
+  private static forgetPendingTransaction(tx: Hash): void {
+    const remembering = TransactionService.rememberingTransactions.get(tx) || Promise.resolve();
+    TransactionService.rememberingTransactions.delete(tx);
+
+    remembering
+      .then((): Promise<void> => TransactionService.transactionStore.remove(tx))
+      .catch((ex: Error) => {
+        LoggingService.error(`TransactionService: unable to forget pending transaction ${tx}: ${ex}`);
+      });
+  }
+
+  /**
+   * The `txEventContext` is already represented by the event stack and would otherwise be
+   * stored redundantly with each element of the stack.
+   */
+  private static toStorableOptions(options: any): any {
+    if (!options || (typeof options !== "object")) {
+      return options;
+    }
+    const storable = Object.assign({}, options);
+    delete storable.txEventContext;
+    return storable;
+  }
+
+  private static async getMinedReceipt(
+    txHash: Hash,
+    contract: string | object = null,
+    requiredDepth: number = 0): Promise<TransactionReceipt | TransactionReceiptTruffle | null> {
+
+    const web3 = await Utils.getWeb3();
+    return promisify((innerCallback: any) => {
+      web3.eth.getTransactionReceipt(txHash, innerCallback);
+    })()
+      .then(async (receipt: TransactionReceipt | null) => {
+        const depth = await TransactionService.getTransactionDepth(receipt);
+        // blockNumber should always be set, but just in case...
+        if ((receipt && !receipt.blockNumber) || (depth < requiredDepth)) { return null; } else {
+          if (contract) {
+            return await TransactionService.toTxTruffle(receipt, contract);
+          } else {
+            return receipt;
+          }
+        }
+      }) as Promise<TransactionReceipt | null>;
+  }
+
+  /**
+   * Run the given simulation once no other simulation and no send is running,
+   * preventing sends from starting until it has completed.  See `runSend`.
+   */
+  private static async runSimulation<T>(simulate: () => Promise<T>): Promise<T> {
+
+    const previous = TransactionService.simulation || Promise.resolve();
+
+    const running = previous.catch((): void => undefined).then(async (): Promise<T> => {
+      while (TransactionService.sends.size) {
+        await Promise.all(Array.from(TransactionService.sends)
+          .map((sending: Promise<any>): Promise<any> => sending.catch((): void => undefined)));
+      }
+      return simulate();
+    });
+
+    TransactionService.simulation = running;
+
+    try {
+      return await running;
+    } finally {
+      if (TransactionService.simulation === running) {
+        TransactionService.simulation = undefined;
+      }
+    }
+  }
+
+  /**
+   * Returns promise of the id of a new EVM snapshot, or undefined if the node doesn't support snapshots.
+   */
+  private static async takeSnapshot(): Promise<string | undefined> {
+    try {
+      return await UtilsInternal.sendRpc("evm_snapshot");
+    } catch (ex) {
+      LoggingService.debug(`TransactionService.simulateTransaction: snapshots are not supported: ${ex}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Execute the given transaction with `eth_call` and estimate its gas, recording the outcome in `simulation`.
+   */
+  private static async estimateSimulatedTransaction(
+    txData: Partial<TxData>,
+    simulation: TransactionSimulation): Promise<void> {
+
+    const web3 = await Utils.getWeb3();
+
+    const returnData = await promisify((callback: any): void => {
+      web3.eth.call(txData, callback);
+    })()
+      .catch((ex: Error): string => {
+        simulation.succeeded = false;
+        simulation.error = ex;
+        simulation.revertReason = UtilsInternal.decodeRevertReason(ex);
+        return undefined;
+      }) as string;
+
+    if (simulation.succeeded) {
+      simulation.revertReason = UtilsInternal.decodeRevertReason(returnData);
+      // a node might return the revert data rather than an error
+      simulation.succeeded = !simulation.revertReason;
+    }
+
+    simulation.gas = await promisify((callback: any): void => {
+      web3.eth.estimateGas(txData, callback);
+    })()
+      .then((gas: number): number => gas)
+      .catch((ex: Error): number => {
+        simulation.succeeded = false;
+        simulation.error = simulation.error || ex;
+        return undefined;
+      });
+  }
+
+  /**
+   * Send the given transaction from within an EVM snapshot, without publishing TxTracking events
+   * or remembering it.  Returns promise of its receipt, or null if the node did not mine it immediately.
+   */
+  private static async sendWithinSnapshot(txData: Partial<TxData>): Promise<TransactionReceipt | null> {
+    const web3 = await Utils.getWeb3();
+
+    const tx = Utils.getSigner() ?
+      await TransactionService.sendSignedTransaction(txData) :
+      await promisify((callback: any): void => {
+        web3.eth.sendTransaction(txData as TxData, callback);
+      })() as Hash;
+
+    return promisify((callback: any): void => {
+      web3.eth.getTransactionReceipt(tx, callback);
+    })() as Promise<TransactionReceipt | null>;
+  }
+
+  /**
+   * Returns the decoded events emitted by the given transaction when sent within the current EVM snapshot,
+   * or undefined if they cannot be obtained.
+   */
+  private static async getSimulatedEvents(
+    txData: Partial<TxData>,
+    contract: string | object): Promise<Array<DecodedLogEntry<any>> | undefined> {
+
+    try {
+      const receipt = await TransactionService.sendWithinSnapshot(txData);
+
+      if (!receipt) {
+        // the node is not automatically mining transactions
+        return undefined;
+      }
+
+      return contract ?
+        (await TransactionService.toTxTruffle(receipt, contract)).logs :
+        receipt.logs as Array<any>;
+    } catch (ex) {
+      LoggingService.error(`TransactionService.simulateTransaction: unable to obtain events: ${ex}`);
+      return undefined;
+    }
+  }
+
+  private static getMinimumReplacementGasPrice(tx: Transaction): BigNumber {
+    return tx.gasPrice.mul(TransactionService.minimumReplacementGasPriceFactor).ceil();
+  }
+
+  private static validateReplacementGasPrice(functionName: string, tx: Transaction, gasPrice: BigNumber): void {
+    const minimum = TransactionService.getMinimumReplacementGasPrice(tx);
+    if (gasPrice.lt(minimum)) {
+      throw new Error(
+        `TransactionService.${functionName}: newGasPrice must be at least ${minimum.toString(10)}`);
+    }
+  }
+
+  /**
+   * Returns promise of the most recent of the given transaction and its replacements,
+   * throwing an exception if it cannot be replaced.
+   */
+  private static async getReplaceableTransaction(
+    functionName: string,
+    txHash: Hash): Promise<{ originalTx: Hash, tx: Transaction, cancelled: boolean }> {
+
+    if (!txHash) {
+      throw new Error(`TransactionService.${functionName}: txHash is not defined`);
+    }
+
+    const originalTx = TransactionService.replacedTransactions.get(txHash) || txHash;
+    const replacements = TransactionService.getReplacements(originalTx);
+    const latest = replacements.length ? replacements[replacements.length - 1] : undefined;
+
+    if (await TransactionService.getMinedTransaction(originalTx)) {
+      throw new Error(`TransactionService.${functionName}: transaction has already been mined: ${txHash}`);
+    }
+
+    const web3 = await Utils.getWeb3();
+    const tx = await promisify((callback: any): void => {
+      web3.eth.getTransaction(latest ? latest.tx : originalTx, callback);
+    })() as Transaction;
+
+    if (!tx) {
+      throw new Error(`TransactionService.${functionName}: transaction not found: ${txHash}`);
+    }
+
+    return { originalTx, tx, cancelled: latest ? latest.cancelled : false };
+  }
+
+  private static async sendReplacement(
+    pendingTx: { originalTx: Hash, tx: Transaction },
+    txData: TxData,
+    cancelled: boolean): Promise<Hash> {
+
+    const web3 = await Utils.getWeb3();
+
+    const replacementTx = await TransactionService.runSend((): Promise<Hash> => Utils.getSigner() ?
+      TransactionService.sendSignedTransaction(txData) :
+      promisify((callback: any): void => {
+        web3.eth.sendTransaction(txData, callback);
+      })() as Promise<Hash>);
+
+    const replacement: TransactionReplacement = {
+      cancelled,
+      gasPrice: new BigNumber(txData.gasPrice).toString(10),
+      replacedTx: pendingTx.originalTx,
+      tx: replacementTx,
+    };
+
+    TransactionService.addReplacement(replacement);
+
+    LoggingService.info(
+      `TransactionService: ${cancelled ? "cancelling" : "replacing"} ${pendingTx.originalTx} with ${replacementTx}`);
+
+    /**
+     * so that the replacement will be found if the application is restarted
+     */
+    const pendingInfo = await TransactionService.transactionStore.get(pendingTx.originalTx);
+    if (pendingInfo) {
+      pendingInfo.replacements = TransactionService.getReplacements(pendingTx.originalTx);
+      await TransactionService.transactionStore.set(pendingInfo);
+    }
+
+    return replacementTx;
+  }
+
+  private static addReplacement(replacement: TransactionReplacement): void {
+    let replacements = TransactionService.replacements.get(replacement.replacedTx);
+    if (!replacements) {
+      replacements = new Array<TransactionReplacement>();
+      TransactionService.replacements.set(replacement.replacedTx, replacements);
+    }
+    if (!replacements.some((r: TransactionReplacement): boolean => r.tx === replacement.tx)) {
+      replacements.push(replacement);
+    }
+    TransactionService.replacedTransactions.set(replacement.tx, replacement.replacedTx);
+  }
+
   private static createPayload(
     functionName: string,
     options: TxGeneratingFunctionOptions & any,
@@ -559,7 +1360,8 @@ export class TransactionService extends PubSubEventService {
     txReceipt: TransactionReceiptTruffle = null,
     txStage: TransactionStage,
     failed: boolean = false,
-    error: Error = new Error("Unspecified error")
+    error: Error = new Error("Unspecified error"),
+    replacedTx?: Hash
   ): void {
 
     for (let i = eventStack.length - 1; i >= 0; --i) {
@@ -585,6 +1387,12 @@ export class TransactionService extends PubSubEventService {
       payload.txStage = txStage;
       if (failed) {
         payload.error = error;
+        if (error instanceof ArcTransactionRevertedError) {
+          payload.revertReason = error.revertReason;
+        }
+      }
+      if (replacedTx) {
+        payload.replacedTx = replacedTx;
       }
       PubSubEventService.publish(fullTopic, payload);
     }
@@ -600,6 +1408,11 @@ export enum TransactionStage {
   sent,
   mined,
   confirmed,
+  /**
+   * A replacement of the transaction sent by `TransactionService.speedUp` or `TransactionService.cancel`
+   * has been mined.
+   */
+  replaced,
 }
 
 /**
@@ -637,13 +1450,46 @@ export interface TransactionReceiptsEventInfo {
    */
   txCount: number;
   /**
-   * Stage of the transaction.  Can be `kickoff`, `sent`, `mined` or `confirmed`.
+   * Stage of the transaction.  Can be `kickoff`, `sent`, `mined`, `confirmed` or `replaced`.
    */
   txStage: TransactionStage;
   /**
    * Error when a failure has occured.  Supplied by the ".failed" events.
    */
   error?: Error;
+  /**
+   * Hash of the transaction that was replaced.  Supplied by the ".replaced" events, in which
+   * case `tx` is the hash of the replacement.
+   */
+  replacedTx?: Hash;
+  /**
+   * The reason given by the contract for reverting the transaction, when available.
+   * Supplied by the ".failed" events, in which case `error` is an `ArcTransactionRevertedError`.
+   */
+  revertReason?: string;
+}
+
+/**
+ * Describes a transaction sent by `TransactionService.speedUp` or `TransactionService.cancel`
+ * to replace a pending transaction.
+ */
+export interface TransactionReplacement {
+  /**
+   * Hash of the replacement transaction
+   */
+  tx: Hash;
+  /**
+   * Hash of the original transaction that is being replaced
+   */
+  replacedTx: Hash;
+  /**
+   * True if the replacement cancels the original transaction
+   */
+  cancelled: boolean;
+  /**
+   * Gas price of the replacement, in Wei
+   */
+  gasPrice: string;
 }
 
 /**
@@ -669,10 +1515,91 @@ export class TxEventSpec {
 }
 
 /**
- * @hidden - for internal use only
+ * The error with which Arc.js fails when a transaction is reverted, either when sending it or
+ * once it has been mined.  Published by the `TxTracking` ".failed" events and thrown by
+ * `ArcTransactionResult.watchForTxMined`.
+ */
+export class ArcTransactionRevertedError extends Error {
+  constructor(
+    /**
+     * The transaction hash, undefined when the node refused to send the transaction
+     */
+    public tx: Hash | undefined,
+    /**
+     * The reason given by the contract for reverting, when available
+     */
+    public revertReason?: string,
+    /**
+     * The receipt of the mined transaction, if it was mined
+     */
+    public txReceipt?: TransactionReceiptTruffle | TransactionReceipt) {
+    super(`Transaction reverted${revertReason ? `: ${revertReason}` : ""}`);
+    this.name = "ArcTransactionRevertedError";
+  }
+}
+
+/**
+ * Options accepted by every transaction-generating function.
  */
 export interface TxGeneratingFunctionOptions {
+  /**
+   * @hidden - for internal use only
+   */
   txEventContext?: TxEventContext;
+  /**
+   * Set to true to simulate the transaction(s) rather than send them.  The function then returns a
+   * `SimulatedTransactionResult` describing whether the transaction would succeed, and why not.
+   * See [Simulating Transactions](/Transactions.md#simulatingtransactions).
+   * Default is false.
+   */
+  simulate?: boolean;
+}
+
+/**
+ * Options with which a transaction-generating function sends its transaction(s) rather than simulating them.
+ */
+export interface SendOptions extends TxGeneratingFunctionOptions {
+  simulate?: false;
+}
+
+/**
+ * Options with which a transaction-generating function simulates its transaction(s) rather than sending them,
+ * returning a `SimulatedTransactionResult`.  See `TxGeneratingFunctionOptions.simulate`.
+ */
+export interface SimulateOptions extends TxGeneratingFunctionOptions {
+  simulate: true;
+}
+
+/**
+ * The outcome of simulating a transaction, as returned by `TransactionService.simulateTransaction`.
+ */
+export interface TransactionSimulation {
+  /**
+   * True if the transaction would succeed
+   */
+  succeeded: boolean;
+  /**
+   * The estimated amount of gas that the transaction would use.  Undefined when the transaction would fail.
+   */
+  gas?: number;
+  /**
+   * The reason given by the contract for reverting, when available
+   */
+  revertReason?: string;
+  /**
+   * The error returned by the node, when the transaction would fail
+   */
+  error?: Error;
+  /**
+   * The decoded events that the transaction would emit.  Undefined when the transaction would fail
+   * or when the node does not support simulating them.
+   */
+  events?: Array<DecodedLogEntry<any>>;
+  /**
+   * The error returned by the node when reverting the EVM snapshot within which the transaction was simulated.
+   * When set, the simulated transactions may remain on the chain.
+   */
+  revertSnapshotError?: Error;
 }
 
 /**
@@ -0,0 +1,269 @@
+import * as JSON from "circular-json";
+import { Address, Hash } from "./commonTypes";
+import { LoggingService } from "./loggingService";
+import { TransactionReplacement } from "./transactionService";
+
+/**
+ * Information about a sent transaction that is persisted by an `ITransactionStore` until the
+ * transaction has been confirmed or has failed, so that `TransactionService` can resume
+ * watching for it, for example after the application has been reloaded.
+ */
+export interface PendingTransactionInfo {
+  /**
+   * The transaction hash
+   */
+  txHash: Hash;
+  /**
+   * The id of the network on which the transaction was sent.
+   */
+  networkId: number;
+  /**
+   * The invocation key of the root transaction-generating function, see `TransactionReceiptsEventInfo`.
+   */
+  invocationKey: number;
+  /**
+   * The name of the transaction-generating function at the top of the event stack,
+   * looks like [classname].[functionname].
+   */
+  functionName: string;
+  /**
+   * The options that were passed to the transaction-generating function.
+   */
+  options?: any;
+  /**
+   * The event stack of the transaction, from the root function to the function
+   * that actually sent the transaction.  Used to re-publish the `TxTracking.*` topics.
+   */
+  eventStack: Array<PendingTransactionEventSpec>;
+  /**
+   * Name of the Arc contract that generated the transaction, if known.
+   * Used to obtain receipts with decoded logs.
+   */
+  contractName?: string;
+  /**
+   * Address of the contract that generated the transaction, if known.
+   */
+  contractAddress?: Address;
+  /**
+   * Date the transaction was sent, in milliseconds since the epoch.
+   */
+  sentAt: number;
+  /**
+   * Transactions sent by `TransactionService.speedUp` or `TransactionService.cancel` to replace this one.
+   */
+  replacements?: Array<TransactionReplacement>;
+}
+
+/**
+ * Serializable form of a single element of a `TxEventContext` stack.
+ */
+export interface PendingTransactionEventSpec {
+  functionName: string;
+  invocationKey: number;
+  txCount: number;
+  options?: any;
+}
+
+/**
+ * Persists information about transactions that have been sent but not yet confirmed.
+ * Supply an implementation to `InitializeArcJs` (see `InitializeArcOptions.transactionStore`)
+ * to have Arc.js resume tracking pending transactions when the application restarts.
+ *
+ * All methods are asynchronous so that implementations may use asynchronous storage.
+ */
+export interface ITransactionStore {
+  /**
+   * Add or replace the information for the transaction with the given `txHash`.
+   */
+  set(info: PendingTransactionInfo): Promise<void>;
+  /**
+   * Returns promise of the information for the given transaction, or undefined if not found.
+   */
+  get(txHash: Hash): Promise<PendingTransactionInfo | undefined>;
+  /**
+   * Returns promise of the information for all of the stored transactions.
+   */
+  getAll(): Promise<Array<PendingTransactionInfo>>;
+  /**
+   * Remove the given transaction from the store.  Does nothing if it is not found.
+   */
+  remove(txHash: Hash): Promise<void>;
+  /**
+   * Remove all transactions from the store.
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * An `ITransactionStore` that keeps pending transactions in memory.  This is the default
+ * store.  It does not persist across application instances.
+ */
+export class InMemoryTransactionStore implements ITransactionStore {
+
+  protected transactions: Map<Hash, PendingTransactionInfo> = new Map<Hash, PendingTransactionInfo>();
+
+  public set(info: PendingTransactionInfo): Promise<void> {
+    this.transactions.set(info.txHash, info);
+    return Promise.resolve();
+  }
+
+  public get(txHash: Hash): Promise<PendingTransactionInfo | undefined> {
+    return Promise.resolve(this.transactions.get(txHash));
+  }
+
+  public getAll(): Promise<Array<PendingTransactionInfo>> {
+    return Promise.resolve(Array.from(this.transactions.values()));
+  }
+
+  public remove(txHash: Hash): Promise<void> {
+    this.transactions.delete(txHash);
+    return Promise.resolve();
+  }
+
+  public clear(): Promise<void> {
+    this.transactions.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Base class for `ITransactionStore`s that serialize the entire collection of pending
+ * transactions into a single string.
+ */
+export abstract class SerializingTransactionStore extends InMemoryTransactionStore {
+
+  private loading: Promise<void>;
+
+  public async set(info: PendingTransactionInfo): Promise<void> {
+    await this.ensureLoaded();
+    await super.set(info);
+    return this.save();
+  }
+
+  public async get(txHash: Hash): Promise<PendingTransactionInfo | undefined> {
+    await this.ensureLoaded();
+    return super.get(txHash);
+  }
+
+  public async getAll(): Promise<Array<PendingTransactionInfo>> {
+    await this.ensureLoaded();
+    return super.getAll();
+  }
+
+  public async remove(txHash: Hash): Promise<void> {
+    await this.ensureLoaded();
+    await super.remove(txHash);
+    return this.save();
+  }
+
+  public async clear(): Promise<void> {
+    /**
+     * whatever was persisted is to be discarded, but wait for any load in progress so it can't
+     * repopulate the transactions after they have been cleared
+     */
+    await (this.loading || (this.loading = Promise.resolve()));
+    await super.clear();
+    return this.save();
+  }
+
+  /**
+   * Returns promise of the serialized transactions, or undefined if nothing has yet been saved.
+   */
+  protected abstract read(): Promise<string | undefined>;
+  /**
+   * Persist the given serialized transactions.
+   */
+  protected abstract write(serialized: string): Promise<void>;
+
+  /**
+   * Returns the promise of loading the persisted transactions, loading them only once however
+   * many calls are made concurrently.
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const serialized = await this.read();
+      if (serialized) {
+        const transactions: Array<PendingTransactionInfo> = JSON.parse(serialized);
+        transactions.forEach((info: PendingTransactionInfo) => {
+          this.transactions.set(info.txHash, info);
+        });
+      }
+    } catch (ex) {
+      LoggingService.error(`SerializingTransactionStore: unable to load pending transactions: ${ex}`);
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.write(JSON.stringify(Array.from(this.transactions.values())));
+  }
+}
+
+/**
+ * An `ITransactionStore` that persists pending transactions to a JSON file.  Only for use in Node.js.
+ */
+export class JsonFileTransactionStore extends SerializingTransactionStore {
+
+  /**
+   * @param filePath Path to the JSON file.  The file is created if it doesn't already exist.
+   */
+  constructor(private filePath: string) {
+    super();
+    if (!filePath) {
+      throw new Error("JsonFileTransactionStore: filePath is not defined");
+    }
+  }
+
+  protected async read(): Promise<string | undefined> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    if (!(await fs.pathExists(this.filePath))) {
+      return undefined;
+    }
+    return fs.readFile(this.filePath, "utf8");
+  }
+
+  protected async write(serialized: string): Promise<void> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    return fs.outputFile(this.filePath, serialized, "utf8");
+  }
+}
+
+/**
+ * An `ITransactionStore` that persists pending transactions in browser storage.
+ * Uses `window.localStorage` unless given some other `Storage`.
+ */
+export class BrowserStorageTransactionStore extends SerializingTransactionStore {
+
+  private storage: Storage;
+
+  /**
+   * @param key The key under which the pending transactions are saved in the storage.
+   * @param storage Optional `Storage`, like `window.sessionStorage`.  Default is `window.localStorage`.
+   */
+  constructor(
+    private key: string = "arcjs.pendingTransactions",
+    storage?: Storage) {
+    super();
+    this.storage = storage || ((typeof window !== "undefined") ? window.localStorage : undefined);
+    if (!this.storage) {
+      throw new Error("BrowserStorageTransactionStore: browser storage is not available");
+    }
+  }
+
+  protected read(): Promise<string | undefined> {
+    return Promise.resolve(this.storage.getItem(this.key) || undefined);
+  }
+
+  protected write(serialized: string): Promise<void> {
+    this.storage.setItem(this.key, serialized);
+    return Promise.resolve();
+  }
+}
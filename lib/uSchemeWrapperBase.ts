@@ -3,6 +3,8 @@ import { ControllerService } from "./controllerService";
 import {
   ArcTransactionDataResult,
   IUniversalSchemeWrapper,
+  SimulatedTransactionDataResult,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "./iContractWrapperBase";
 import { SchemeWrapperBase } from "./schemeWrapperBase";
@@ -58,6 +60,10 @@ export abstract class USchemeWrapperBase extends SchemeWrapperBase {
       this.contract.setParameters,
       params);
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return new SimulatedTransactionDataResult<Hash>(this.contract, txResult, parametersHash);
+    }
+
     return new ArcTransactionDataResult<Hash>(txResult.tx, this.contract, parametersHash);
   }
 
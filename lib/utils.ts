@@ -3,9 +3,13 @@ import { promisify } from "es6-promisify";
 import abi = require("ethereumjs-abi");
 import Contract = require("truffle-contract");
 import { providers as Web3Providers, Web3 } from "web3";
+import { BatchingProvider } from "./batchReader";
 import { Address, Hash, SchemePermissions } from "./commonTypes";
 import { ConfigService } from "./configService";
 import { LoggingService } from "./loggingService";
+import { ProviderService } from "./providerService";
+import { ISigner } from "./signer";
+import { WebSocketProvider } from "./webSocketProvider";
 
 export class Utils {
 
@@ -24,6 +28,18 @@ export class Utils {
     return Utils.deployedContractAddresses[contractName];
   }
 
+  /**
+   * Supplies the Truffle artifact (at least `abi`, plus `bytecode` to deploy with `.new`) from which
+   * `requireContract` will create the given contract, for contracts that are not part of Arc.
+   * See `WrapperService.registerWrapper`.
+   * @param contractName
+   * @param artifact
+   */
+  public static setContractArtifact(contractName: string, artifact: any): void {
+    Utils.contractArtifacts.set(contractName, Object.assign({ contractName }, artifact));
+    Utils.contractCache.delete(contractName);
+  }
+
   /**
    * Returns Truffle contract wrapper given the name of the contract (like "SchemeRegistrar").
    * Optimized for synchronicity issues encountered with MetaMask.
@@ -39,11 +55,13 @@ export class Utils {
         return contract;
       }
 
-      const artifact = require(`../migrated_contracts/${contractName}.json`);
+      const artifact = Utils.contractArtifacts.get(contractName) ||
+        require(`../migrated_contracts/${contractName}.json`);
       contract = new Contract(artifact);
       const myWeb3 = await Utils.getWeb3();
 
-      contract.setProvider(myWeb3.currentProvider);
+      // enables BatchReader to batch the requests made through the contract
+      contract.setProvider(BatchingProvider.for(myWeb3.currentProvider));
       contract.setNetwork(await Utils.getNetworkId());
       contract.defaults({
         from: await Utils.getDefaultAccount(),
@@ -136,20 +154,29 @@ export class Utils {
         /* tslint:disable-next-line:max-line-length */
         // see https://github.com/MetaMask/faq/blob/master/DEVELOPERS.md#partly_sunny-web3---ethereum-browser-environment-check
         preWeb3 = new webConstructor(globalWeb3.currentProvider);
-      } else if (Utils.alreadyTriedAndFailed) {
-        // then avoid time-consuming and futile retry
-        throw new Error("Utils.getWeb3: already tried and failed");
+      } else if (Utils.nextConnectionAttemptTime > Date.now()) {
+        // then avoid time-consuming and futile retry until the node has had time to recover
+        throw new Error("Utils.getWeb3: failed to connect, will try again shortly");
+      } else if (ConfigService.get("providerUrls")) {
+        LoggingService.debug("Utils.getWeb3: instantiating web3 with the configured pool of providers");
+        Utils.closeWebSocketProvider();
+        preWeb3 = new webConstructor(ProviderService.createProvider(ConfigService.get("providerUrls")));
       } else {
         // No web3 is injected, look for a provider at providerUrl:providerPort (which defaults to 127.0.0.1)
         // This happens when running tests, or in a browser that is not running MetaMask
-        let url = `http://${ConfigService.get("providerUrl")}`;
+        const providerUrl: string = ConfigService.get("providerUrl");
+        // providerUrl may include the protocol, like "ws://127.0.0.1", else assume http
+        let url = /^[a-z]+:\/\//i.test(providerUrl) ? providerUrl : `http://${providerUrl}`;
         const port = ConfigService.get("providerPort");
         if (port) {
           url = `${url}:${port}`;
         }
         /* tslint:disable-next-line:max-line-length */
         LoggingService.debug(`Utils.getWeb3: instantiating web3 with configured provider at ${url}`);
-        preWeb3 = new webConstructor(new Web3Providers.HttpProvider(url));
+        Utils.closeWebSocketProvider();
+        ProviderService.endHealthChecks();
+        preWeb3 = new webConstructor(/^wss?:\/\//i.test(url) ?
+          new WebSocketProvider(url) : new Web3Providers.HttpProvider(url));
       }
     }
 
@@ -162,10 +189,14 @@ export class Utils {
       });
 
     if (!connected) {
-      Utils.alreadyTriedAndFailed = true;
+      const delay = Math.min(1000 * Math.pow(2, Utils.failedConnectionAttempts++), 60000);
+      Utils.nextConnectionAttemptTime = Date.now() + delay;
       throw new Error("Utils.getWeb3: web3 is not connected to a net");
     }
 
+    Utils.failedConnectionAttempts = 0;
+    Utils.nextConnectionAttemptTime = 0;
+
     if (typeof window !== "undefined") {
       // Add to window for easy use in the console
       (window as any).web3 = preWeb3;
@@ -173,6 +204,7 @@ export class Utils {
 
     Utils.networkId =
       Number.parseInt(await promisify(preWeb3.version.getNetwork)() as string, 10) as number | undefined;
+    Utils.chainId = undefined;
 
     return (Utils.web3 = preWeb3);
   }
@@ -182,11 +214,17 @@ export class Utils {
    *
    * Has the side-effect of setting web3.eth.defaultAccount.
    *
+   * When a signer has been set (see `setSigner`), returns the address of the signer.
+   *
    * Throws an exception on failure.
    */
   public static async getDefaultAccount(): Promise<string> {
     const localWeb3 = await Utils.getWeb3();
 
+    if (Utils.signer) {
+      return localWeb3.eth.defaultAccount = await Utils.signer.getAddress();
+    }
+
     return promisify(localWeb3.eth.getAccounts)().then((accounts: Array<any>) => {
       const defaultAccount = localWeb3.eth.defaultAccount =
         (accounts && (accounts.length > 0)) ? accounts[0] : undefined;
@@ -199,6 +237,23 @@ export class Utils {
     });
   }
 
+  /**
+   * Set the signer with which Arc.js will sign every transaction that it sends, or undefined
+   * to have the node sign them.  `InitializeArcJs` sets this from `InitializeArcOptions.signer`.
+   * See [Signing Transactions Offline](/Transactions.md#signingtransactions).
+   * @param signer
+   */
+  public static setSigner(signer: ISigner | undefined): void {
+    Utils.signer = signer;
+  }
+
+  /**
+   * Returns the signer set by `setSigner`, or undefined if transactions are signed by the node.
+   */
+  public static getSigner(): ISigner | undefined {
+    return Utils.signer;
+  }
+
   /**
    * Ask MetaMask to prompt the user for permission to access their wallet. MetaMask
    * will insert the user's accounts into the existing Web3 object.  If you are watching
@@ -369,16 +424,65 @@ export class Utils {
     return Utils.networkId;
   }
 
+  /**
+   * Returns promise of the EIP-155 chain id of the current network, as returned by `eth_chainId`.
+   * This is not necessarily the same as the network id.  When the node does not support `eth_chainId`,
+   * returns the "chainId" configuration setting, or when that is not set, the network id.
+   */
+  public static async getChainId(): Promise<number> {
+    if (!Utils.chainId) {
+      const web3 = await Utils.getWeb3();
+      try {
+        const response: any = await promisify((callback: any): void => web3.currentProvider.sendAsync({
+          id: Math.floor(Math.random() * Number.MAX_SAFE_INTEGER),
+          jsonrpc: "2.0",
+          method: "eth_chainId",
+          params: [],
+        } as any, callback))();
+
+        if (response.error) {
+          throw new Error(response.error.message || response.error);
+        }
+
+        Utils.chainId = Number(response.result);
+      } catch (ex) {
+        const chainId = ConfigService.get("chainId");
+        if (chainId) {
+          return Number(chainId);
+        }
+        LoggingService.warn(`Utils.getChainId: eth_chainId failed, using the network id: ${ex}`);
+        return Utils.getNetworkId();
+      }
+    }
+    return Utils.chainId;
+  }
+
   private static contractCache: Map<string, Contract> = new Map<string, string>();
+  private static contractArtifacts: Map<string, any> = new Map<string, any>();
 
   private static web3: Web3 = undefined;
-  private static alreadyTriedAndFailed: boolean = false;
+  /**
+   * number of consecutive failures to connect, and when we may next try to connect
+   */
+  private static failedConnectionAttempts: number = 0;
+  private static nextConnectionAttemptTime: number = 0;
   private static networkId: number;
+  private static chainId: number;
   private static deployedContractAddresses: any;
+  private static signer: ISigner;
 
   private static clearContractCache(): void {
     Utils.contractCache.clear();
   }
+
+  /**
+   * Close the `WebSocketProvider` of the web3 we're about to replace, if it has one
+   */
+  private static closeWebSocketProvider(): void {
+    if (Utils.web3 && (Utils.web3.currentProvider instanceof WebSocketProvider)) {
+      (Utils.web3.currentProvider as WebSocketProvider).close();
+    }
+  }
 }
 
 export { Web3 } from "web3";
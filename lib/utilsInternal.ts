@@ -1,4 +1,5 @@
 import { promisify } from "es6-promisify";
+import abi = require("ethereumjs-abi");
 import { BlockWithoutTransactionData, FilterResult } from "web3";
 import { Address, fnVoid, Hash } from "./commonTypes";
 import { Utils, Web3 } from "./utils";
@@ -85,4 +86,67 @@ export class UtilsInternal {
         return block.gasLimit - 100000;
       });
   }
+
+  /**
+   * Returns the reason given to a Solidity `revert` or `require`, when available, given
+   * either the data returned by the EVM or the error returned by the node.
+   * Returns undefined if no reason can be found.
+   * @param dataOrError
+   */
+  public static decodeRevertReason(dataOrError: string | any): string | undefined {
+    if (!dataOrError) {
+      return undefined;
+    }
+
+    let data: string = (typeof dataOrError === "string") ? dataOrError : undefined;
+
+    if (!data) {
+      // some nodes include the returned data with the error
+      data = (typeof dataOrError.data === "string") ? dataOrError.data : undefined;
+    }
+
+    if (data && data.startsWith(UtilsInternal.revertReasonSelector) &&
+      (data.length >= UtilsInternal.revertReasonSelector.length + 128)) {
+      return abi.rawDecode(["string"], Buffer.from(data.substr(UtilsInternal.revertReasonSelector.length), "hex"))[0];
+    }
+
+    // Ganache returns the reason only in the error message, like "VM Exception while processing transaction: revert x"
+    const message: string = (typeof dataOrError === "string") ? undefined : dataOrError.message;
+    const match = message ? /revert\s+(.+)$/.exec(message) : null;
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Returns whether the given error returned by the node indicates that the EVM reverted.
+   * @param error
+   */
+  public static isRevertError(error: any): boolean {
+    return !!error && (!!UtilsInternal.decodeRevertReason(error) ||
+      /\brevert(ed)?\b/i.test(error.message || ""));
+  }
+
+  /**
+   * Send the given JSON-RPC request to the current provider.  Throws an exception when the node returns an error.
+   * @param method
+   * @param params
+   */
+  public static async sendRpc(method: string, params: Array<any> = []): Promise<any> {
+    const web3 = await Utils.getWeb3();
+    const response: any = await promisify((callback: any): void => web3.currentProvider.sendAsync({
+      id: UtilsInternal.getRandomNumber(),
+      jsonrpc: "2.0",
+      method,
+      params,
+    } as any, callback))();
+
+    if (response.error) {
+      throw new Error(`${method}: ${response.error.message || response.error}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * The selector of `Error(string)`, with which Solidity prefixes revert reasons
+   */
+  private static revertReasonSelector: string = "0x08c379a0";
 }
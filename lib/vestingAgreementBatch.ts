@@ -0,0 +1,360 @@
+import { BigNumber } from "bignumber.js";
+import { promisify } from "es6-promisify";
+import { Transaction } from "web3";
+import { Address, Hash } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { ArcTransactionResult } from "./iContractWrapperBase";
+import { LoggingService } from "./loggingService";
+import { ArcTransactionRevertedError } from "./transactionService";
+import { Utils } from "./utils";
+import { StandardTokenFactory } from "./wrappers/standardToken";
+import { CommonVestingAgreementConfig, VestingSchemeWrapper } from "./wrappers/vestingScheme";
+
+/**
+ * Creates or proposes many `VestingScheme` agreements at once, as read from a CSV or JSON file
+ * of beneficiaries.  See [Creating Vesting Agreements in Bulk](/Proposals.md#vestingbatches).
+ */
+export class VestingAgreementBatch {
+
+  /**
+   * The columns that a CSV file may have.  Those of `CommonVestingAgreementConfig`.
+   */
+  public static columns: Array<string> = [
+    "amountPerPeriod",
+    "beneficiaryAddress",
+    "cliffInPeriods",
+    "numOfAgreedPeriods",
+    "periodLength",
+    "returnOnCancelAddress",
+    "signaturesReqToCancel",
+    "signers",
+    "startingBlock",
+  ];
+
+  /**
+   * Returns the rows in the given CSV or JSON file.  Does not validate them.
+   * Only for use in Node.js.
+   * @param filePath Files ending with ".json" are parsed as JSON, others as CSV.
+   */
+  public static async load(filePath: string): Promise<Array<VestingAgreementBatchRow>> {
+    /* tslint:disable-next-line:no-var-requires */
+    const fs = require("fs-extra");
+    const text = await fs.readFile(filePath, "utf8");
+    return VestingAgreementBatch.parse(text, /\.json$/i.test(filePath) ? "json" : "csv");
+  }
+
+  /**
+   * Returns the rows in the given text.  Does not validate them.
+   *
+   * JSON must be an array of objects with the properties of `CommonVestingAgreementConfig`.
+   * CSV must have a header line naming the columns, from among `VestingAgreementBatch.columns`.
+   * In CSV, separate the addresses of `signers` with spaces or semicolons.
+   * @param text
+   * @param format "csv" or "json".  Default is "csv".
+   */
+  public static parse(text: string, format: "csv" | "json" = "csv"): Array<VestingAgreementBatchRow> {
+    if (format === "json") {
+      const rows = JSON.parse(text);
+      if (!Array.isArray(rows)) {
+        throw new Error("the JSON must be an array of agreements");
+      }
+      return rows;
+    }
+
+    const lines = text.split(/\r?\n/).filter((line: string) => line.trim().length);
+
+    if (!lines.length) {
+      return [];
+    }
+
+    const header = VestingAgreementBatch.splitCsvLine(lines[0]);
+    const unknown = header.filter((column: string) => !VestingAgreementBatch.columns.includes(column));
+
+    if (unknown.length) {
+      throw new Error(`unknown columns: ${unknown.join(", ")}`);
+    }
+
+    return lines.slice(1).map((line: string): VestingAgreementBatchRow => {
+      const values = VestingAgreementBatch.splitCsvLine(line);
+      const row: any = {};
+
+      header.forEach((column: string, index: number): void => {
+        const value = values[index];
+
+        if ((typeof value === "undefined") || (value === "")) {
+          return;
+        }
+
+        switch (column) {
+          case "amountPerPeriod":
+          case "beneficiaryAddress":
+          case "returnOnCancelAddress":
+            row[column] = value;
+            break;
+          case "signers":
+            row[column] = value.split(/[\s;]+/).filter((signer: string) => signer.length);
+            break;
+          default:
+            row[column] = Number(value);
+            break;
+        }
+      });
+
+      return row;
+    });
+  }
+
+  /**
+   * Returns a readable message for each problem found in the given rows, empty if they are all valid.
+   * Applies the same rules as `VestingSchemeWrapper.create` and `proposeVestingAgreement`.
+   * Rows are numbered from 1.
+   * @param vestingScheme
+   * @param rows
+   */
+  public static async validate(
+    vestingScheme: VestingSchemeWrapper,
+    rows: Array<VestingAgreementBatchRow>): Promise<Array<string>> {
+
+    const errors = new Array<string>();
+
+    for (let i = 0; i < rows.length; ++i) {
+      try {
+        /**
+         * on a copy because validateCreateParams sets the default startingBlock
+         */
+        await vestingScheme.validateCreateParams(Object.assign({}, rows[i]));
+      } catch (ex) {
+        errors.push(`row ${i + 1}: ${ex.message || ex}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Creates or proposes an agreement for each of the given rows, one after the other, returning
+   * the promise of the agreementId or proposalId of each.
+   *
+   * Validates every row before sending any transaction.  When creating agreements, checks
+   * once that the current account has, and has approved, the tokens to pay for all of them,
+   * approving the total if `autoApproveTokenTransfers` is set.
+   *
+   * Stops at the first failure.  To resume, pass the results reported so far to
+   * `options.previousResults`:  rows that have already been sent are not sent again, unless their
+   * transactions were reverted or can no longer be found.
+   * @param vestingScheme
+   * @param rows
+   * @param options
+   */
+  public static async run(
+    vestingScheme: VestingSchemeWrapper,
+    rows: Array<VestingAgreementBatchRow>,
+    options: RunVestingAgreementBatchOptions): Promise<Array<VestingAgreementBatchResult>> {
+
+    if (!vestingScheme) {
+      throw new Error("vestingScheme is not defined");
+    }
+
+    if (!!options.token === !!options.avatar) {
+      throw new Error("exactly one of token or avatar must be given");
+    }
+
+    const errors = await VestingAgreementBatch.validate(vestingScheme, rows);
+
+    if (errors.length) {
+      throw new Error(`invalid agreements:\n${errors.join("\n")}`);
+    }
+
+    const results = rows.map((row: VestingAgreementBatchRow, index: number): VestingAgreementBatchResult => {
+      const previous = (options.previousResults || []).find((r: VestingAgreementBatchResult) => r.row === index + 1);
+
+      if (previous && (previous.beneficiaryAddress.toLowerCase() !== row.beneficiaryAddress.toLowerCase())) {
+        throw new Error(`row ${index + 1}: previous results are for a different beneficiary`);
+      }
+
+      return Object.assign({ beneficiaryAddress: row.beneficiaryAddress, row: index + 1 }, previous);
+    });
+
+    const valueName = options.token ? "_agreementId" : "_proposalId";
+    const report = async (): Promise<void> => {
+      if (options.onProgress) {
+        await options.onProgress(results);
+      }
+    };
+
+    /**
+     * learn the outcome of transactions that were sent but not seen to be mined
+     */
+    const web3 = await Utils.getWeb3();
+
+    for (const result of results.filter((r: VestingAgreementBatchResult) => r.tx && !VestingAgreementBatch.isDone(r))) {
+      const tx = await promisify((callback: any): void =>
+        web3.eth.getTransaction(result.tx, callback))() as Transaction;
+
+      if (!tx) {
+        // dropped or replaced, so will never be mined
+        LoggingService.info(`VestingAgreementBatch: row ${result.row} was not found, will send it again`);
+        delete result.tx;
+        continue;
+      }
+
+      try {
+        VestingAgreementBatch.setId(result,
+          await new ArcTransactionResult(result.tx, vestingScheme.contract).getValueFromMinedTx(valueName));
+      } catch (ex) {
+        if (!(ex instanceof ArcTransactionRevertedError)) {
+          throw ex;
+        }
+        LoggingService.info(`VestingAgreementBatch: row ${result.row} was reverted, will send it again`);
+        delete result.tx;
+      }
+    }
+
+    const pending = results.filter((r: VestingAgreementBatchResult) => !VestingAgreementBatch.isDone(r));
+
+    if (options.token && pending.length) {
+      await VestingAgreementBatch.ensureAllowance(vestingScheme, options.token,
+        pending.map((r: VestingAgreementBatchResult) => rows[r.row - 1]));
+    }
+
+    for (const result of pending) {
+      const config = Object.assign({}, rows[result.row - 1]);
+
+      const txResult: ArcTransactionResult = options.token ?
+        await vestingScheme.create(Object.assign(config, { token: options.token })) :
+        await vestingScheme.proposeVestingAgreement(Object.assign(config, { avatar: options.avatar }));
+
+      result.tx = txResult.tx;
+      await report();
+
+      VestingAgreementBatch.setId(result, await txResult.getValueFromMinedTx(valueName));
+      await report();
+    }
+
+    return results;
+  }
+
+  private static isDone(result: VestingAgreementBatchResult): boolean {
+    return (typeof result.agreementId !== "undefined") || (typeof result.proposalId !== "undefined");
+  }
+
+  private static setId(result: VestingAgreementBatchResult, value: any): void {
+    if ((typeof value === "undefined") || (value === null)) {
+      throw new Error(`row ${result.row}: transaction ${result.tx} did not report the new agreement or proposal`);
+    } else if (typeof value === "string") {
+      result.proposalId = value;
+    } else {
+      result.agreementId = Number(value);
+    }
+  }
+
+  private static async ensureAllowance(
+    vestingScheme: VestingSchemeWrapper,
+    tokenAddress: Address,
+    rows: Array<VestingAgreementBatchRow>): Promise<void> {
+
+    const total = rows.reduce((sum: BigNumber, row: VestingAgreementBatchRow) =>
+      sum.add(new BigNumber(row.amountPerPeriod).mul(row.numOfAgreedPeriods)), new BigNumber(0));
+
+    const token = await StandardTokenFactory.at(tokenAddress);
+    const owner = await Utils.getDefaultAccount();
+    const balance = await token.getBalanceOf(owner);
+
+    if (balance.lt(total)) {
+      throw new Error(`the agreements require ${total.toString(10)} tokens but ${owner} has ${balance.toString(10)}`);
+    }
+
+    const allowance = await token.allowance({ owner, spender: vestingScheme.address });
+
+    if (allowance.gte(total)) {
+      return;
+    }
+
+    if (!ConfigService.get("autoApproveTokenTransfers")) {
+      throw new Error(`the agreements require ${total.toString(10)} tokens ` +
+        `but VestingScheme may only transfer ${allowance.toString(10)}`);
+    }
+
+    await (await token.approve({ amount: total, spender: vestingScheme.address })).watchForTxMined();
+  }
+
+  /**
+   * Splits a line of CSV into its values, honoring double-quoted values.
+   */
+  private static splitCsvLine(line: string): Array<string> {
+    const values = new Array<string>();
+    let value = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; ++i) {
+      const c = line[i];
+
+      if (quoted) {
+        if ((c === "\"") && (line[i + 1] === "\"")) {
+          value += c;
+          ++i;
+        } else if (c === "\"") {
+          quoted = false;
+        } else {
+          value += c;
+        }
+      } else if (c === "\"") {
+        quoted = true;
+      } else if (c === ",") {
+        values.push(value.trim());
+        value = "";
+      } else {
+        value += c;
+      }
+    }
+
+    values.push(value.trim());
+    return values;
+  }
+}
+
+/**
+ * The terms of one agreement.  `amountPerPeriod` is in Wei.
+ */
+export type VestingAgreementBatchRow = CommonVestingAgreementConfig;
+
+export interface RunVestingAgreementBatchOptions {
+  /**
+   * Create the agreements, paying them in this token from the current account.
+   * Give either this or `avatar`.
+   */
+  token?: Address;
+  /**
+   * Propose the agreements to the DAO with this avatar.  Give either this or `token`.
+   */
+  avatar?: Address;
+  /**
+   * The results of an earlier run of the same rows, from which to resume
+   */
+  previousResults?: Array<VestingAgreementBatchResult>;
+  /**
+   * Called with the results so far each time a transaction is sent or mined, for example to save them
+   * so that an interrupted run can be resumed.
+   */
+  onProgress?: (results: Array<VestingAgreementBatchResult>) => void | Promise<void>;
+}
+
+export interface VestingAgreementBatchResult {
+  /**
+   * The number of the row, from 1
+   */
+  row: number;
+  beneficiaryAddress: Address;
+  /**
+   * The transaction that creates or proposes the agreement, once sent
+   */
+  tx?: Hash;
+  /**
+   * The new agreement, once created
+   */
+  agreementId?: number;
+  /**
+   * The new proposal, once proposed
+   */
+  proposalId?: Hash;
+}
@@ -0,0 +1,341 @@
+import { BigNumber } from "bignumber.js";
+import { promisify } from "es6-promisify";
+import abi = require("ethereumjs-abi");
+import { BlockWithoutTransactionData, Transaction } from "web3";
+import { Address, Hash } from "./commonTypes";
+import { DecodedLogEntryEvent } from "./iContractWrapperBase";
+import { Utils } from "./utils";
+import { UtilsInternal } from "./utilsInternal";
+import {
+  Agreement,
+  RevokeSignToCancelAgreementEventResult,
+  SignToCancelAgreementEventResult,
+  VestingSchemeWrapper
+} from "./wrappers/vestingScheme";
+
+/**
+ * Turns the raw terms of `VestingScheme` agreements into schedules: how much has vested,
+ * how much the beneficiary can collect now, when more will become collectable, and how close
+ * the agreement is to being cancelled.
+ *
+ * See [Vesting Schedules](/Proposals.md#vestingschedules).
+ */
+export class VestingSchedule {
+
+  /**
+   * Returns the promise of the schedule of the given agreement as of the last mined block.
+   * @param vestingScheme
+   * @param agreementId
+   */
+  public static async get(vestingScheme: VestingSchemeWrapper, agreementId: number): Promise<VestingAgreementSchedule> {
+
+    if (!vestingScheme) {
+      throw new Error("vestingScheme is not defined");
+    }
+
+    if (!Number.isInteger(agreementId) || (agreementId < 0)) {
+      throw new Error("agreementId must be an integer greater than or equal to zero");
+    }
+
+    const lastBlock = await UtilsInternal.lastBlock();
+    return VestingSchedule.getSchedule(vestingScheme, agreementId, lastBlock);
+  }
+
+  /**
+   * Returns the promise of the schedules of every agreement of the given VestingScheme
+   * that has not been cancelled, optionally filtered by beneficiary, token or signer.
+   * @param vestingScheme
+   * @param options
+   */
+  public static async getAgreements(
+    vestingScheme: VestingSchemeWrapper,
+    options: GetVestingAgreementsOptions = {}): Promise<Array<VestingAgreementSchedule>> {
+
+    if (!vestingScheme) {
+      throw new Error("vestingScheme is not defined");
+    }
+
+    const filterObject = { fromBlock: options.fromBlock || 0 };
+    const agreementIds = new Set<number>();
+
+    for (const event of await vestingScheme.NewVestedAgreement({}, filterObject).get()) {
+      agreementIds.add(event.args._agreementId.toNumber());
+    }
+
+    for (const event of await vestingScheme.ProposedVestedAgreement({}, filterObject).get()) {
+      agreementIds.add(event.args._agreementId.toNumber());
+    }
+
+    const lastBlock = await UtilsInternal.lastBlock();
+    const schedules = new Array<VestingAgreementSchedule>();
+    const matches = (address: Address, want?: Address): boolean =>
+      !want || (!!address && (address.toLowerCase() === want.toLowerCase()));
+
+    for (const agreementId of Array.from(agreementIds).sort((a: number, b: number) => a - b)) {
+      const schedule = await VestingSchedule.getSchedule(vestingScheme, agreementId, lastBlock);
+
+      if (!schedule.cancellation.cancelled &&
+        matches(schedule.beneficiaryAddress, options.beneficiaryAddress) &&
+        matches(schedule.tokenAddress, options.tokenAddress) &&
+        (!options.signerAddress || (schedule.cancellation.signers || [])
+          .some((signer: Address) => matches(signer, options.signerAddress)))) {
+        schedules.push(schedule);
+      }
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Returns the amounts of the given agreement that have vested and that can be collected as of
+   * the given block, and the block at which more will become collectable, just as `VestingScheme.collect`
+   * would compute them.
+   * @param agreement
+   * @param blockNumber
+   */
+  public static computeAmounts(agreement: Agreement, blockNumber: number): VestingAmounts {
+    const amountPerPeriod = new BigNumber(agreement.amountPerPeriod);
+    const startingBlock = new BigNumber(agreement.startingBlock).toNumber();
+    const periodLength = new BigNumber(agreement.periodLength).toNumber();
+    const numOfAgreedPeriods = new BigNumber(agreement.numOfAgreedPeriods).toNumber();
+    const cliffInPeriods = new BigNumber(agreement.cliffInPeriods).toNumber();
+    const collectedPeriods = new BigNumber(agreement.collectedPeriods).toNumber();
+
+    if (!periodLength) {
+      return VestingSchedule.noAmounts(); // the agreement doesn't exist
+    }
+
+    const elapsedPeriods = (blockNumber < startingBlock) ? -1 :
+      Math.floor((blockNumber - startingBlock) / periodLength);
+
+    const vestedPeriods = (elapsedPeriods < cliffInPeriods) ? 0 : Math.min(elapsedPeriods, numOfAgreedPeriods);
+    const collectablePeriods = Math.max(vestedPeriods - collectedPeriods, 0);
+    const nextPeriod = Math.max(cliffInPeriods, elapsedPeriods + 1, 1);
+
+    return {
+      collectableAmount: amountPerPeriod.mul(collectablePeriods),
+      collectedAmount: amountPerPeriod.mul(collectedPeriods),
+      nextUnlockBlock: (nextPeriod <= numOfAgreedPeriods) ? startingBlock + (nextPeriod * periodLength) : undefined,
+      totalAmount: amountPerPeriod.mul(numOfAgreedPeriods),
+      unvestedAmount: amountPerPeriod.mul(numOfAgreedPeriods - vestedPeriods),
+      vestedAmount: amountPerPeriod.mul(vestedPeriods),
+    };
+  }
+
+  /**
+   * The number of past blocks over which the average block time is measured
+   */
+  private static blockTimeSampleSize: number = 1000;
+
+  private static async getSchedule(
+    vestingScheme: VestingSchemeWrapper,
+    agreementId: number,
+    lastBlock: BlockWithoutTransactionData): Promise<VestingAgreementSchedule> {
+
+    const agreement = await vestingScheme.getAgreement(agreementId);
+    const cancelled = (await vestingScheme.AgreementCancel({ _agreementId: agreementId }, { fromBlock: 0 }).get())
+      .length > 0;
+
+    const schedule: VestingAgreementSchedule = Object.assign(
+      {
+        blockNumber: lastBlock.number,
+        cancellation: {
+          cancelled,
+          signatures: await VestingSchedule.getSignatures(vestingScheme, agreementId),
+          signaturesReqToCancel: new BigNumber(agreement.signaturesReqToCancel).toNumber(),
+          signers: await VestingSchedule.getSigners(vestingScheme, agreementId),
+        },
+      },
+      agreement,
+      cancelled ? VestingSchedule.noAmounts() : VestingSchedule.computeAmounts(agreement, lastBlock.number));
+
+    if (typeof schedule.nextUnlockBlock !== "undefined") {
+      schedule.nextUnlockDate = await VestingSchedule.estimateBlockDate(schedule.nextUnlockBlock, lastBlock);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Returns the signers who have signed to cancel the agreement and not revoked their signatures.
+   */
+  private static async getSignatures(
+    vestingScheme: VestingSchemeWrapper,
+    agreementId: number): Promise<Array<Address>> {
+
+    const signs: Array<SignatureEvent> =
+      await vestingScheme.SignToCancelAgreement({ _agreementId: agreementId }, { fromBlock: 0 }).get();
+    const revokes: Array<SignatureEvent> =
+      await vestingScheme.RevokeSignToCancelAgreement({ _agreementId: agreementId }, { fromBlock: 0 }).get();
+
+    const signatures = new Set<Address>();
+
+    signs.concat(revokes)
+      .sort((a: SignatureEvent, b: SignatureEvent) => (a.blockNumber - b.blockNumber) || (a.logIndex - b.logIndex))
+      .forEach((event: SignatureEvent): void => {
+        if (event.event === "SignToCancelAgreement") {
+          signatures.add(event.args._signer);
+        } else {
+          signatures.delete(event.args._signer);
+        }
+      });
+
+    return Array.from(signatures);
+  }
+
+  /**
+   * Returns the signers allowed to cancel the agreement.  VestingScheme doesn't expose them, so they are
+   * decoded from the transaction that created or proposed the agreement.  Returns undefined
+   * when that transaction did not call VestingScheme directly.
+   */
+  private static async getSigners(
+    vestingScheme: VestingSchemeWrapper,
+    agreementId: number): Promise<Array<Address> | undefined> {
+
+    const created = await vestingScheme.NewVestedAgreement({ _agreementId: agreementId }, { fromBlock: 0 }).get();
+
+    if (created.length) {
+      return VestingSchedule.decodeSigners(created[0].transactionHash, "createVestedAgreement",
+        ["address", "address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "uint256",
+          "address[]"], 9);
+    }
+
+    const proposed = await vestingScheme.ProposedVestedAgreement({ _agreementId: agreementId }, { fromBlock: 0 }).get();
+
+    if (proposed.length) {
+      const proposals = await vestingScheme.AgreementProposal(
+        { _proposalId: proposed[0].args._proposalId }, { fromBlock: 0 }).get();
+
+      if (proposals.length) {
+        return VestingSchedule.decodeSigners(proposals[0].transactionHash, "proposeVestingAgreement",
+          ["address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "uint256", "address[]",
+            "address"], 8);
+      }
+    }
+
+    return undefined;
+  }
+
+  private static async decodeSigners(
+    txHash: Hash,
+    functionName: string,
+    types: Array<string>,
+    signersIndex: number): Promise<Array<Address> | undefined> {
+
+    const web3 = await Utils.getWeb3();
+    const tx = await promisify((callback: any): void => web3.eth.getTransaction(txHash, callback))() as Transaction;
+    const selector = `0x${abi.methodID(functionName, types).toString("hex")}`;
+
+    if (!tx || !tx.input || !tx.input.startsWith(selector)) {
+      return undefined;
+    }
+
+    const params = abi.rawDecode(types, Buffer.from(tx.input.substr(selector.length), "hex"));
+    return params[signersIndex].map((signer: string) => `0x${signer}`);
+  }
+
+  /**
+   * Estimates when the given future block will be mined from the average block time
+   * of recent blocks.
+   */
+  private static async estimateBlockDate(blockNumber: number, lastBlock: BlockWithoutTransactionData): Promise<Date> {
+    const web3 = await Utils.getWeb3();
+    const sampleSize = Math.min(VestingSchedule.blockTimeSampleSize, lastBlock.number);
+    let blockTime = 15;
+
+    if (sampleSize > 0) {
+      const pastBlock = await promisify((callback: any): void =>
+        web3.eth.getBlock(lastBlock.number - sampleSize, callback))() as BlockWithoutTransactionData;
+      blockTime = (lastBlock.timestamp - pastBlock.timestamp) / sampleSize;
+    }
+
+    return new Date((lastBlock.timestamp + (Math.max(blockNumber - lastBlock.number, 0) * blockTime)) * 1000);
+  }
+
+  private static noAmounts(): VestingAmounts {
+    const zero = new BigNumber(0);
+    return {
+      collectableAmount: zero,
+      collectedAmount: zero,
+      totalAmount: zero,
+      unvestedAmount: zero,
+      vestedAmount: zero,
+    };
+  }
+}
+
+type SignatureEvent = DecodedLogEntryEvent<SignToCancelAgreementEventResult | RevokeSignToCancelAgreementEventResult>;
+
+export interface GetVestingAgreementsOptions {
+  /**
+   * Only agreements that pay this beneficiary
+   */
+  beneficiaryAddress?: Address;
+  /**
+   * Block from which to look for agreements.  Default is 0.
+   */
+  fromBlock?: number;
+  /**
+   * Only agreements that this account may sign to cancel
+   */
+  signerAddress?: Address;
+  /**
+   * Only agreements that pay in this token
+   */
+  tokenAddress?: Address;
+}
+
+/**
+ * Token amounts are in Wei
+ */
+export interface VestingAmounts {
+  /**
+   * What the beneficiary can collect now
+   */
+  collectableAmount: BigNumber;
+  /**
+   * What the beneficiary has already collected
+   */
+  collectedAmount: BigNumber;
+  /**
+   * The block at which more will become collectable, or undefined if everything has vested
+   */
+  nextUnlockBlock?: number;
+  /**
+   * What the agreement pays in all
+   */
+  totalAmount: BigNumber;
+  unvestedAmount: BigNumber;
+  /**
+   * What has vested, whether collected or not.  Nothing vests until the cliff has passed.
+   */
+  vestedAmount: BigNumber;
+}
+
+export interface VestingCancellationStatus {
+  /**
+   * True if enough signers have signed to cancel the agreement.  The agreement's terms are then no longer available.
+   */
+  cancelled: boolean;
+  /**
+   * The signers who have signed to cancel the agreement and not revoked their signatures
+   */
+  signatures: Array<Address>;
+  signaturesReqToCancel: number;
+  /**
+   * The accounts that may sign to cancel the agreement, or undefined if they could not be determined
+   */
+  signers?: Array<Address>;
+}
+
+export interface VestingAgreementSchedule extends Agreement, VestingAmounts {
+  /**
+   * The block as of which the amounts were computed
+   */
+  blockNumber: number;
+  cancellation: VestingCancellationStatus;
+  /**
+   * Estimate of when `nextUnlockBlock` will be mined
+   */
+  nextUnlockDate?: Date;
+}
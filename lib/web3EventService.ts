@@ -1,9 +1,15 @@
-import { DecodedLogEntryEvent, LogTopic } from "web3";
+import { promisify } from "es6-promisify";
+import { BlockWithoutTransactionData, DecodedLogEntryEvent, LogTopic, TransactionReceipt } from "web3";
+import { AccountService } from "./accountService";
 import { fnVoid, Hash } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { CachedEvents, IEventCacheStore } from "./eventCache";
+import { LoggingService } from "./loggingService";
 import { IEventSubscription, PubSubEventService } from "./pubSubEventService";
 import { TransactionService } from "./transactionService";
 import { Utils } from "./utils";
 import { UtilsInternal } from "./utilsInternal";
+import { WebSocketProvider, WebSocketSubscription } from "./webSocketProvider";
 
 /**
  * Support for working with events that originate from Arc contracts
@@ -12,6 +18,53 @@ import { UtilsInternal } from "./utilsInternal";
  * For more information, see [Web3 Events](/Events.md#web3events).
  */
 export class Web3EventService {
+
+  /**
+   * Set the `IEventCacheStore` in which to cache the events fetched by `EventFetcher.get`
+   * and `EntityFetcher.get`, so that later calls need only fetch events from newer blocks.
+   * Pass undefined to stop caching events, which is the default.
+   * `InitializeArcJs` calls this when given `InitializeArcOptions.eventCacheStore`.
+   *
+   * The store is cleared whenever `AccountService` reports that the network has changed.
+   *
+   * See [Caching Events](/Events.md#cachingevents).
+   * @param store
+   */
+  public static setEventCacheStore(store: IEventCacheStore | undefined): void {
+    Web3EventService.eventCacheStore = store;
+
+    if (store && !Web3EventService.networkChangedSubscription) {
+      Web3EventService.networkChangedSubscription = AccountService.subscribeToNetworkChanges((): void => {
+        if (Web3EventService.eventCacheStore) {
+          Web3EventService.eventCacheStore.clear()
+            .catch((ex: Error): void => {
+              LoggingService.error(`Web3EventService: unable to clear the event cache: ${ex}`);
+            });
+        }
+      });
+    }
+  }
+
+  /**
+   * Returns the `IEventCacheStore` in which events are being cached, or undefined if none.
+   */
+  public static getEventCacheStore(): IEventCacheStore | undefined {
+    return Web3EventService.eventCacheStore;
+  }
+
+  private static eventCacheStore: IEventCacheStore;
+  private static networkChangedSubscription: IEventSubscription;
+
+  /**
+   * How many blocks back to keep track of events delivered by `watch`, in case
+   * a chain reorganization removes them
+   */
+  private static maxReorgDepth: number = 100;
+
+  private static eventKey(event: DecodedLogEntryEvent<any>): string {
+    return `${event.transactionHash}:${event.logIndex}`;
+  }
+
   /**
    * Returns a function that creates an EventFetcher<TEventArgs>.
    * For subclasses to use to create their event handlers.
@@ -58,14 +111,36 @@ export class Web3EventService {
         filterObject.suppressDups,
         preProcessEvent);
 
-      const baseFetcher: EventFetcher<TEventArgs> =
-        baseEvent(Object.assign(argFilter, baseArgFilter), filterObject);
+      argFilter = Object.assign(argFilter, baseArgFilter);
+
+      const baseFetcher: EventFetcher<TEventArgs> = baseEvent(argFilter, filterObject);
+
+      const fetchLogs = (): Promise<Array<DecodedLogEntryEvent<TEventArgs>>> =>
+        this.fetchLogs(baseEvent, argFilter, filterObject, baseFetcher);
+
+      /**
+       * The subscriptions used by `watch` when the provider supports them
+       */
+      const logSubscriptions = new Array<LogSubscription>();
+
+      const watchLogs = (callback: LogCallback): void => {
+        const logSubscription = LogSubscription.create(baseFetcher, callback);
+        if (logSubscription) {
+          logSubscriptions.push(logSubscription);
+        } else {
+          baseFetcher.watch(callback);
+        }
+      };
+
+      const stopWatchingLogs = (): Promise<void> =>
+        Promise.all(logSubscriptions.splice(0).map((logSubscription: LogSubscription) => logSubscription.stop()))
+          .then((): void => undefined);
 
       /**
        * If `immediateWatchCallback` is defined then we should start watching immediately.
        */
       if (immediateWatchCallback) {
-        baseFetcher.watch(
+        watchLogs(
           async (error: Error, log: DecodedLogEntryEvent<TEventArgs> | Array<DecodedLogEntryEvent<TEventArgs>>) => {
             await handleEvent(error, log, true, immediateWatchCallback, immediateRequiredDepth);
           });
@@ -78,26 +153,13 @@ export class Web3EventService {
 
         get(callback?: EventGetCallback<TEventArgs>, requiredDepth: number = 0)
           : Promise<Array<DecodedLogEntryEvent<TEventArgs>>> {
-          return new Promise<Array<DecodedLogEntryEvent<TEventArgs>>>(
-            (resolve: (
-              result: Array<DecodedLogEntryEvent<TEventArgs>>) => void,
-             reject: (error: Error) => void): void => {
-
-              baseFetcher.get(
-                async (
-                  error: Error,
-                  log:
-                    DecodedLogEntryEvent<TEventArgs> | Array<DecodedLogEntryEvent<TEventArgs>>): Promise<void> => {
-                  if (error) {
-                    return reject(error);
-                  }
-                  resolve(await handleEvent(error, log, false, callback, requiredDepth));
-                });
-            });
+          return fetchLogs()
+            .then((log: Array<DecodedLogEntryEvent<TEventArgs>>): Promise<Array<DecodedLogEntryEvent<TEventArgs>>> =>
+              handleEvent(null, log, false, callback, requiredDepth));
         },
 
         watch(callback: EventWatchCallback<TEventArgs>, requiredDepth: number = 0): void {
-          baseFetcher.watch(
+          watchLogs(
             async (error: Error, log: DecodedLogEntryEvent<TEventArgs> | Array<DecodedLogEntryEvent<TEventArgs>>) => {
               await handleEvent(error, log, true, callback, requiredDepth);
             });
@@ -116,16 +178,18 @@ export class Web3EventService {
           const subscription = PubSubEventService.subscribe(eventName, callback);
 
           this.watch((error: Error, args: DecodedLogEntryEvent<TEventArgs>) => {
-            PubSubEventService.publish(eventName, args);
+            PubSubEventService.publish(args.removed ? `removed.${eventName}` : eventName, args);
           }, requiredDepth);
 
-          return new Web3EventSubscription(subscription, baseFetcher);
+          return new Web3EventSubscription(subscription, this);
         },
         stopWatching(callback?: fnVoid): void {
+          stopWatchingLogs()
+            .catch((ex: Error): void => { LoggingService.error(`stopWatching: ${ex}`); });
           baseFetcher.stopWatching(callback);
         },
         stopWatchingAsync(): Promise<void> {
-          return UtilsInternal.stopWatchingAsync(baseFetcher);
+          return stopWatchingLogs().then((): Promise<void> => UtilsInternal.stopWatchingAsync(baseFetcher));
         },
       };
     };
@@ -195,7 +259,7 @@ export class Web3EventService {
            * when not singly, callback gets a promise of the array of entities.
            * get is not singly.  so get gets a promise of an array.
            */
-               callback?: (error: Error, args: TEntity | Promise<Array<TEntity>>) => void):
+               callback?: (error: Error, args: TEntity | Promise<Array<TEntity>>, removed?: boolean) => void):
           Promise<Array<TEntity>> => {
 
           const promiseOfEntities: Promise<Array<TEntity>> =
@@ -212,12 +276,15 @@ export class Web3EventService {
                 }
 
                 const entities = new Array<TEntity>();
-                // transform all the log entries into entities
+                /**
+                 * transform all the log entries into entities.  This includes events that a chain
+                 * reorganization has removed, so the entities reflect the reorganized chain.
+                 */
                 for (const event of log) {
                   const transformedEntity = await transformEventCallback(event);
                   if (typeof transformedEntity !== "undefined") {
                     if (callback && singly) {
-                      await callback(error, transformedEntity);
+                      await callback(error, transformedEntity, !!event.removed);
                     }
                     entities.push(transformedEntity);
                   }
@@ -281,8 +348,8 @@ export class Web3EventService {
 
           const subscription = PubSubEventService.subscribe(eventName, callback);
 
-          this.watch((error: Error, entity: TEntity) => {
-            PubSubEventService.publish(eventName, entity);
+          this.watch((error: Error, entity: TEntity, removed?: boolean) => {
+            PubSubEventService.publish(removed ? `removed.${eventName}` : eventName, entity);
           }, requiredDepth);
 
           return new Web3EventSubscription(subscription, baseFetcher);
@@ -298,6 +365,226 @@ export class Web3EventService {
     };
   }
 
+  /**
+   * Returns the promise of the logs matching the given filter, using the event cache
+   * when there is one (see `setEventCacheStore`) and the filter starts from a specific block.
+   * @param baseEvent
+   * @param argFilter
+   * @param filterObject
+   * @param baseFetcher fetches the logs in a single request
+   */
+  private async fetchLogs<TEventArgs>(
+    baseEvent: any,
+    argFilter: any,
+    filterObject: EventFetcherFilterObject,
+    baseFetcher: EventFetcher<TEventArgs>): Promise<Array<DecodedLogEntryEvent<TEventArgs>>> {
+
+    const range = await this.getBlockRange(filterObject);
+    const cacheStore = (filterObject.cache !== false) ? Web3EventService.eventCacheStore : undefined;
+    /**
+     * web3's filter options, including the contract address and topics that identify
+     * the event and the indexed arg values by which the logs are filtered
+     */
+    const filterOptions = (baseFetcher as any).options;
+
+    if (!range || !cacheStore || !filterOptions) {
+      return this.fetchLogRange(baseEvent, argFilter, filterObject, range, baseFetcher);
+    }
+
+    const networkId = await Utils.getNetworkId();
+    const key = JSON.stringify({
+      address: filterOptions.address,
+      fromBlock: range.fromBlock,
+      networkId,
+      topics: filterOptions.topics,
+    });
+
+    let cachedEvents = await cacheStore.get(key);
+
+    if (cachedEvents && !(await this.isCacheValid(cachedEvents, networkId))) {
+      LoggingService.debug(`fetchLogs: discarding stale cached events`);
+      await cacheStore.remove(key);
+      cachedEvents = undefined;
+    }
+
+    const cachedLogs: Array<DecodedLogEntryEvent<TEventArgs>> = cachedEvents ? cachedEvents.events : [];
+    const syncFromBlock = cachedEvents ? cachedEvents.lastSyncedBlock + 1 : range.fromBlock;
+
+    const newLogs = (syncFromBlock <= range.toBlock) ?
+      await this.fetchLogRange<TEventArgs>(
+        baseEvent, argFilter, filterObject, { fromBlock: syncFromBlock, toBlock: range.toBlock }) :
+      [];
+
+    /**
+     * Cache only the logs from blocks that are deep enough in the chain not to be removed by a reorganization,
+     * the rest we will fetch again next time.
+     */
+    const lastSafeBlock = Math.min(
+      range.toBlock,
+      (await UtilsInternal.lastBlockNumber()) - (await TransactionService.getDefaultDepth()));
+
+    if (lastSafeBlock >= syncFromBlock) {
+      const lastSyncedBlockHash = await this.getBlockHash(lastSafeBlock);
+
+      if (lastSyncedBlockHash) {
+        await cacheStore.set({
+          events: cachedLogs.concat(
+            newLogs.filter((log: DecodedLogEntryEvent<TEventArgs>) => log.blockNumber <= lastSafeBlock)),
+          fromBlock: range.fromBlock,
+          key,
+          lastSyncedBlock: lastSafeBlock,
+          lastSyncedBlockHash,
+          networkId,
+        });
+      }
+    }
+
+    return cachedLogs
+      .filter((log: DecodedLogEntryEvent<TEventArgs>) => log.blockNumber <= range.toBlock)
+      .concat(newLogs);
+  }
+
+  /**
+   * Returns the promise of the logs matching the given filter in the given range of blocks.
+   * When the range spans more blocks than the "eventFetchChunkSize" configuration setting, fetches
+   * the logs one chunk of blocks at a time, narrowing the chunks when requests fail.  Retries failed
+   * requests with exponential backoff, as given by the "eventFetchMaxRetries" and "eventFetchRetryDelay"
+   * configuration settings.
+   * @param baseEvent
+   * @param argFilter
+   * @param filterObject
+   * @param range undefined when the start of the range is not a specific block
+   * @param baseFetcher if given, fetches the logs in the given range in a single request
+   */
+  private async fetchLogRange<TEventArgs>(
+    baseEvent: any,
+    argFilter: any,
+    filterObject: EventFetcherFilterObject,
+    range: BlockRange | undefined,
+    baseFetcher?: EventFetcher<TEventArgs>): Promise<Array<DecodedLogEntryEvent<TEventArgs>>> {
+
+    const maxChunkSize: number = (typeof filterObject.chunkSize === "number") ?
+      filterObject.chunkSize : ConfigService.get("eventFetchChunkSize");
+    const maxRetries: number = ConfigService.get("eventFetchMaxRetries") || 0;
+    const retryDelay: number = ConfigService.get("eventFetchRetryDelay") || 0;
+
+    const chunked = !!range && (maxChunkSize > 0) && ((range.toBlock - range.fromBlock + 1) > maxChunkSize);
+
+    const logs = new Array<DecodedLogEntryEvent<TEventArgs>>();
+    let chunkSize = maxChunkSize;
+    let fromBlock = range ? range.fromBlock : undefined;
+    let failures = 0;
+
+    do {
+      const toBlock = chunked ?
+        Math.min(fromBlock + chunkSize - 1, range.toBlock) : (range ? range.toBlock : undefined);
+
+      try {
+        if (chunked || !baseFetcher) {
+          const fetcher = baseEvent(argFilter, Object.assign({}, filterObject, { fromBlock, toBlock }));
+          try {
+            logs.push(...await this.getLogs<TEventArgs>(fetcher));
+          } finally {
+            UtilsInternal.stopWatchingAsync(fetcher)
+              .catch((ex: Error): void => { LoggingService.debug(`fetchLogs: error uninstalling filter: ${ex}`); });
+          }
+        } else {
+          logs.push(...await this.getLogs<TEventArgs>(baseFetcher as any));
+        }
+      } catch (ex) {
+        if (++failures > maxRetries) {
+          throw ex;
+        }
+        if (chunked) {
+          // maybe the range is too wide for the node, try a narrower one
+          chunkSize = Math.max(Math.floor(chunkSize / 2), 1);
+        }
+        const delay = retryDelay * Math.pow(2, failures - 1);
+        LoggingService.debug(`fetchLogs: request failed, retrying in ${delay} ms: ${ex}`);
+        await UtilsInternal.sleep(delay);
+        continue;
+      }
+
+      failures = 0;
+
+      if (chunked) {
+        fromBlock = toBlock + 1;
+        // the last request succeeded, try a wider range
+        chunkSize = Math.min(chunkSize * 2, maxChunkSize);
+      }
+
+      if (filterObject.onProgress && range) {
+        filterObject.onProgress({
+          eventCount: logs.length,
+          fromBlock: range.fromBlock,
+          lastBlockFetched: toBlock,
+          toBlock: range.toBlock,
+        });
+      }
+    } while (chunked && (fromBlock <= range.toBlock));
+
+    return logs;
+  }
+
+  /**
+   * Returns the promise of the range of block numbers given by the filter, or undefined if
+   * the start of the range is not a specific block.
+   * @param filterObject
+   */
+  private async getBlockRange(filterObject: EventFetcherFilterObject): Promise<BlockRange | undefined> {
+
+    const toNumber = (block: number | string): number =>
+      (block === "earliest") ? 0 : (typeof block === "number") ? block : Number(block);
+
+    const fromBlock = toNumber(filterObject.fromBlock);
+
+    if ((filterObject.fromBlock === undefined) || isNaN(fromBlock) || (filterObject.toBlock === "pending")) {
+      return undefined;
+    }
+
+    const toBlock = ((filterObject.toBlock === undefined) || (filterObject.toBlock === "latest")) ?
+      await UtilsInternal.lastBlockNumber() : toNumber(filterObject.toBlock);
+
+    return isNaN(toBlock) ? undefined : { fromBlock, toBlock };
+  }
+
+  /**
+   * Returns whether the given cached events were fetched from the current network and chain.
+   * @param cachedEvents
+   * @param networkId
+   */
+  private async isCacheValid(cachedEvents: CachedEvents, networkId: number): Promise<boolean> {
+    // the chain may have been reorganized or, as with ganache, restarted
+    return (cachedEvents.networkId === networkId) &&
+      ((await this.getBlockHash(cachedEvents.lastSyncedBlock)) === cachedEvents.lastSyncedBlockHash);
+  }
+
+  /**
+   * Returns the promise of the hash of the given block, or undefined if there is no such block.
+   * @param blockNumber
+   */
+  private async getBlockHash(blockNumber: number): Promise<Hash | undefined> {
+    const web3 = await Utils.getWeb3();
+    const block = await promisify((callback: any): void =>
+      web3.eth.getBlock(blockNumber, callback))() as BlockWithoutTransactionData;
+    return block ? block.hash : undefined;
+  }
+
+  private getLogs<TEventArgs>(fetcher: Web3EventFetcher): Promise<Array<DecodedLogEntryEvent<TEventArgs>>> {
+    return new Promise<Array<DecodedLogEntryEvent<TEventArgs>>>(
+      (resolve: (result: Array<DecodedLogEntryEvent<TEventArgs>>) => void,
+       reject: (error: Error) => void): void => {
+        fetcher.get(
+          (error: Error,
+           log: DecodedLogEntryEvent<TEventArgs> | Array<DecodedLogEntryEvent<TEventArgs>>): void => {
+            if (error) {
+              return reject(error);
+            }
+            resolve(UtilsInternal.ensureArray(log));
+          });
+      });
+  }
+
   /**
    * Returns a function that we will use internally to handle each Web3 event
    * @param suppressDups
@@ -314,6 +601,13 @@ export class Web3EventService {
       receivedEvents = new Set<Hash>();
     }
 
+    /**
+     * The events delivered by `watch`, by `eventKey`, so we can tell when
+     * a chain reorganization has removed one of them
+     */
+    const deliveredEvents = new Map<string, DecodedLogEntryEvent<TEventArgs>>();
+    let lastDeliveredBlock = 0;
+
     return async (
       error: Error,
       log: DecodedLogEntryEvent<TEventArgs> | Array<DecodedLogEntryEvent<TEventArgs>>,
@@ -337,6 +631,22 @@ export class Web3EventService {
         log = [log];
       }
 
+      /**
+       * events that `watch` has delivered but that a chain reorganization has since removed
+       */
+      let removedEvents = new Array<DecodedLogEntryEvent<TEventArgs>>();
+
+      if (singly && log.length) {
+        removedEvents = this.findRemovedEvents(log, deliveredEvents);
+        log = log.filter((evt: DecodedLogEntryEvent<TEventArgs>) => !evt.removed);
+        if (receivedEvents) {
+          // so the events will be delivered again when they are restored to the chain
+          removedEvents.forEach((evt: DecodedLogEntryEvent<TEventArgs>) => {
+            receivedEvents.delete(evt.transactionHash);
+          });
+        }
+      }
+
       /**
        * optionally prune duplicate events (see https://github.com/ethereum/web3.js/issues/398)
        */
@@ -351,6 +661,9 @@ export class Web3EventService {
         });
       }
 
+      // removals are delivered before anything that may have replaced them
+      log = removedEvents.concat(log);
+
       if (preProcessEvent) {
         const processedResult = preProcessEvent(error, log);
         error = processedResult.error;
@@ -360,11 +673,30 @@ export class Web3EventService {
       // invoke callback if there is one
       if (callback) {
         for (const e of log) {
-          if (requiredDepth) {
+          if (requiredDepth && !e.removed) {
             if (requiredDepth === -1) { requiredDepth = undefined; } // to use the default value
-            await TransactionService.watchForConfirmedTransaction(e.transactionHash, null, requiredDepth);
+            const receipt = await TransactionService.watchForConfirmedTransaction(
+              e.transactionHash, null, requiredDepth) as TransactionReceipt;
+
+            if (singly && receipt && (receipt.blockHash !== e.blockHash)) {
+              /**
+               * a chain reorganization has moved the transaction to another block while we were waiting.
+               * We'll receive and deliver the event again from there.
+               */
+              if (receivedEvents) {
+                receivedEvents.delete(e.transactionHash);
+              }
+              continue;
+            }
           }
           if (singly) {
+            if (e.removed) {
+              deliveredEvents.delete(Web3EventService.eventKey(e));
+            } else {
+              deliveredEvents.set(Web3EventService.eventKey(e), e);
+              lastDeliveredBlock = Math.max(lastDeliveredBlock, e.blockNumber);
+              this.pruneDeliveredEvents(deliveredEvents, lastDeliveredBlock);
+            }
             callback(error, e);
           }
         }
@@ -377,6 +709,52 @@ export class Web3EventService {
       return log;
     };
   }
+
+  /**
+   * Returns the delivered events that the given log shows have been removed by a chain reorganization,
+   * marked as `removed`.  An event has been removed when the node says so, or when the log contains
+   * the same event or another event from the same block number but in a different block.
+   * @param log
+   * @param deliveredEvents
+   */
+  private findRemovedEvents<TEventArgs>(
+    log: Array<DecodedLogEntryEvent<TEventArgs>>,
+    deliveredEvents: Map<string, DecodedLogEntryEvent<TEventArgs>>): Array<DecodedLogEntryEvent<TEventArgs>> {
+
+    const removedEvents = new Map<string, DecodedLogEntryEvent<TEventArgs>>();
+
+    for (const evt of log) {
+      const key = Web3EventService.eventKey(evt);
+      deliveredEvents.forEach((deliveredEvent: DecodedLogEntryEvent<TEventArgs>, deliveredKey: string): void => {
+        const isRemoved = evt.removed ?
+          (deliveredKey === key) && (deliveredEvent.blockHash === evt.blockHash) :
+          ((deliveredKey === key) || (deliveredEvent.blockNumber === evt.blockNumber)) &&
+          (deliveredEvent.blockHash !== evt.blockHash);
+
+        if (isRemoved && !removedEvents.has(deliveredKey)) {
+          removedEvents.set(deliveredKey, Object.assign({}, deliveredEvent, { removed: true }));
+        }
+      });
+    }
+
+    return Array.from(removedEvents.values());
+  }
+
+  /**
+   * Forget the delivered events that are too deep in the chain to be removed by a reorganization
+   * @param deliveredEvents
+   * @param lastDeliveredBlock
+   */
+  private pruneDeliveredEvents<TEventArgs>(
+    deliveredEvents: Map<string, DecodedLogEntryEvent<TEventArgs>>,
+    lastDeliveredBlock: number): void {
+
+    deliveredEvents.forEach((deliveredEvent: DecodedLogEntryEvent<TEventArgs>, key: string): void => {
+      if (deliveredEvent.blockNumber < (lastDeliveredBlock - Web3EventService.maxReorgDepth)) {
+        deliveredEvents.delete(key);
+      }
+    });
+  }
 }
 
 export interface EventPreProcessorReturn<TEventArgs> { error: Error; log: Array<DecodedLogEntryEvent<TEventArgs>>; }
@@ -417,7 +795,11 @@ export type EntityFetcherFactory<TDest, TSrc> =
     requiredDepth?: number
   ) => EntityFetcher<TDest, TSrc>;
 
-export type EntityWatchCallback<TEntity> = (error: Error, entity: TEntity) => void;
+/**
+ * `removed` is true when the entity was transformed from an event previously delivered to the callback
+ * that a chain reorganization has since removed from the chain.
+ */
+export type EntityWatchCallback<TEntity> = (error: Error, entity: TEntity, removed?: boolean) => void;
 export type EntityGetCallback<TEntity> = (error: Error, entity: Promise<Array<TEntity>>) => void;
 export type EntityWatchSubscriptionCallback<TEntity> = (eventName: string, payload: TEntity) => void;
 /**
@@ -437,6 +819,9 @@ export interface EntityFetcher<TDest, TSrc> {
    * The callback is invoked once per event firing.
    * If `requiredDepth` is set then will not invoke the callback until the transaction has been mined to
    * the requiredDepth.
+   *
+   * When a chain reorganization removes an event that has been delivered, the callback is invoked again
+   * with the entity transformed from the removed event and `removed` set to true.
    */
   watch: (callback: EntityWatchCallback<TDest>, requiredDepth?: number) => void;
   /**
@@ -447,6 +832,10 @@ export interface EntityFetcher<TDest, TSrc> {
    * If `requiredDepth` is set then will not invoke the callback until the transaction has been mined to
    * the requiredDepth.
    *
+   * When a chain reorganization removes an event that has been delivered, publishes the entity
+   * transformed from the removed event to the topic "removed.[eventName]", which subscribers
+   * to "[eventName]" do not receive.
+   *
    * Supply whatever name you want for `eventName`.  This enables you to scope
    * event handlers across event types and schemes.
    */
@@ -524,6 +913,9 @@ export interface EventFetcher<TEventArgs> {
    * The callback is invoked once per event firing.
    * If `requiredDepth` is set then will not invoke the callback until the transaction has been mined to
    * the requiredDepth.
+   *
+   * When a chain reorganization removes an event that has been delivered, the callback is invoked again
+   * with the event's `removed` property set to true.
    */
   watch: (callback: EventWatchCallback<TEventArgs>, requiredDepth?: number) => void;
   /**
@@ -534,6 +926,10 @@ export interface EventFetcher<TEventArgs> {
    * If `requiredDepth` is set then will not invoke the callback until the transaction has been mined to
    * the requiredDepth.
    *
+   * When a chain reorganization removes an event that has been delivered, publishes the event,
+   * with its `removed` property set to true, to the topic "removed.[eventName]", which subscribers
+   * to "[eventName]" do not receive.
+   *
    * Supply whatever name you want for `eventName`.  This enables you to scope
    * event handlers across event types and schemes.
    */
@@ -580,8 +976,49 @@ export interface EventFetcherFilterObject {
    * The default is true.
    */
   suppressDups?: boolean;
+  /**
+   * Maximum number of blocks to request at once when fetching events using `get`.
+   * Set to 0 to fetch the entire range in a single request.
+   * The default is given by the "eventFetchChunkSize" configuration setting.
+   */
+  chunkSize?: number;
+  /**
+   * false to have `get` bypass the event cache, if there is one (see `Web3EventService.setEventCacheStore`).
+   * The default is true.
+   */
+  cache?: boolean;
+  /**
+   * Invoked by `get` after each chunk of blocks has been fetched.
+   * Not invoked when the start of the range is not a specific block.
+   */
+  onProgress?: EventFetchProgressCallback;
 }
 
+/**
+ * Reports the progress of `EventFetcher.get` and `EntityFetcher.get` through the range of blocks
+ * being searched for events.
+ */
+export interface EventFetchProgress {
+  /**
+   * First block of the range
+   */
+  fromBlock: number;
+  /**
+   * Last block of the range
+   */
+  toBlock: number;
+  /**
+   * The events have been fetched from every block from `fromBlock` up to and including this one
+   */
+  lastBlockFetched: number;
+  /**
+   * Number of events fetched so far, before duplicates have been suppressed
+   */
+  eventCount: number;
+}
+
+export type EventFetchProgressCallback = (progress: EventFetchProgress) => void;
+
 export class Web3EventSubscription<TEventArgs> implements IEventSubscription {
   constructor(
     private subscription: IEventSubscription,
@@ -603,6 +1040,179 @@ export class Web3EventSubscription<TEventArgs> implements IEventSubscription {
   }
 }
 
+/**
+ * Watches for the logs matching a web3 filter using `eth_subscribe`, catching up on any
+ * logs it may have missed whenever the `WebSocketProvider` reconnects.
+ */
+class LogSubscription {
+
+  /**
+   * Returns a started `LogSubscription` for the given web3 filter, or undefined if
+   * the provider is not a `WebSocketProvider`.
+   * @param filter
+   * @param callback
+   */
+  public static create(filter: any, callback: LogCallback): LogSubscription | undefined {
+    const web3 = UtilsInternal.getWeb3Sync();
+
+    if (!web3 || !(web3.currentProvider instanceof WebSocketProvider) || !filter.options || !filter.formatter) {
+      return undefined;
+    }
+
+    const logSubscription = new LogSubscription(web3.currentProvider as WebSocketProvider, filter, callback);
+    logSubscription.start()
+      .catch((ex: Error): Promise<void> => {
+        LoggingService.error(`LogSubscription: unable to start, polling instead: ${ex}`);
+        return logSubscription.pollInstead();
+      });
+    return logSubscription;
+  }
+
+  /**
+   * How many blocks back to remember the logs that have been delivered, so as not to deliver them again
+   */
+  private static maxReorgDepth: number = 100;
+
+  private subscriptions: Array<WebSocketSubscription> = new Array<WebSocketSubscription>();
+  private reconnectedSubscription: IEventSubscription;
+  /**
+   * The highest block number we know of
+   */
+  private lastBlockNumber: number = 0;
+  /**
+   * Block number and hash of each log that has been delivered, by transaction hash and log index
+   */
+  private deliveredLogs: Map<string, { blockNumber: number, blockHash: Hash }> =
+    new Map<string, { blockNumber: number, blockHash: Hash }>();
+  private stopped: boolean = false;
+
+  /**
+   * @param provider
+   * @param filter The web3 filter, supplying the filter options and the function that decodes logs
+   * @param callback
+   */
+  constructor(
+    private provider: WebSocketProvider,
+    private filter: any,
+    private callback: LogCallback) {
+  }
+
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectedSubscription) {
+      this.reconnectedSubscription.unsubscribe();
+      this.reconnectedSubscription = undefined;
+    }
+    await Promise.all(this.subscriptions.splice(0).map((subscription: WebSocketSubscription): Promise<void> =>
+      subscription.unsubscribe()
+        .catch((ex: Error): void => { LoggingService.debug(`LogSubscription: error unsubscribing: ${ex}`); })));
+  }
+
+  private async start(): Promise<void> {
+    const options = this.filter.options;
+    const fromBlock = Number(options.fromBlock);
+
+    try {
+      this.subscriptions.push(await this.provider.subscribe(
+        ["logs", { address: options.address, topics: options.topics }],
+        (log: any): void => { this.deliver(log); }));
+
+      this.subscriptions.push(await this.provider.subscribe(["newHeads"], (header: any): void => {
+        this.lastBlockNumber = Math.max(this.lastBlockNumber, Number(header.number));
+      }));
+    } catch (ex) {
+      LoggingService.debug(`LogSubscription: unable to subscribe, polling instead: ${ex}`);
+      return this.pollInstead();
+    }
+
+    if (this.stopped) {
+      return this.stop();
+    }
+
+    this.reconnectedSubscription = this.provider.subscribeToReconnections((): void => {
+      /**
+       * Fetch the logs we may have missed while disconnected.  Start with the last block we know of,
+       * in case we heard about it before we heard about its logs.
+       */
+      this.catchUp(this.lastBlockNumber);
+    });
+
+    if (isNaN(fromBlock)) {
+      // fromBlock is "latest" or "pending"
+      this.lastBlockNumber = Math.max(this.lastBlockNumber, await UtilsInternal.lastBlockNumber());
+    } else {
+      // like web3, start by delivering the logs from the blocks already mined
+      await this.catchUp(fromBlock);
+    }
+  }
+
+  /**
+   * Fall back to web3's polling of the filter, unless we have been stopped
+   */
+  private async pollInstead(): Promise<void> {
+    const stopped = this.stopped;
+    await this.stop();
+    if (!stopped) {
+      this.filter.watch(this.callback);
+    }
+  }
+
+  private async catchUp(fromBlock: number): Promise<void> {
+    const options = this.filter.options;
+    try {
+      const logs: Array<any> = await UtilsInternal.sendRpc("eth_getLogs", [{
+        address: options.address,
+        fromBlock: `0x${fromBlock.toString(16)}`,
+        toBlock: options.toBlock || "latest",
+        topics: options.topics,
+      }]);
+      logs.forEach((log: any): void => { this.deliver(log); });
+    } catch (ex) {
+      LoggingService.error(`LogSubscription: unable to fetch logs from block ${fromBlock}: ${ex}`);
+    }
+  }
+
+  private deliver(log: any): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const key = `${log.transactionHash}:${log.logIndex}`;
+    const blockNumber = Number(log.blockNumber);
+    const delivered = this.deliveredLogs.get(key);
+
+    if (log.removed) {
+      this.deliveredLogs.delete(key);
+    } else if (delivered && (delivered.blockHash === log.blockHash)) {
+      // already delivered, as may happen when catching up
+      return;
+    } else {
+      this.deliveredLogs.set(key, { blockHash: log.blockHash, blockNumber });
+      this.lastBlockNumber = Math.max(this.lastBlockNumber, blockNumber);
+      this.deliveredLogs.forEach((deliveredLog: { blockNumber: number }, deliveredKey: string): void => {
+        if (deliveredLog.blockNumber < (this.lastBlockNumber - LogSubscription.maxReorgDepth)) {
+          this.deliveredLogs.delete(deliveredKey);
+        }
+      });
+    }
+
+    let decodedLog: DecodedLogEntryEvent<any>;
+    try {
+      decodedLog = this.filter.formatter(log);
+    } catch (ex) {
+      return this.callback(ex, undefined);
+    }
+    this.callback(null, decodedLog);
+  }
+}
+
+type LogCallback = (error: Error, log: DecodedLogEntryEvent<any>) => void;
+
+interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
 type BaseWeb3EventCallback<T> =
   (
     error: Error,
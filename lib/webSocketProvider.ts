@@ -0,0 +1,280 @@
+import { fnVoid } from "./commonTypes";
+import { ConfigService } from "./configService";
+import { LoggingService } from "./loggingService";
+import { IEventSubscription, PubSubEventService } from "./pubSubEventService";
+
+/**
+ * A Web3 provider that talks to the node over a WebSocket, enabling Arc.js to be notified
+ * of new blocks and logs using `eth_subscribe` instead of polling filters.
+ *
+ * When the connection is lost it reconnects automatically, waiting longer after each failed attempt
+ * as given by the "webSocketReconnectDelay" and "webSocketMaxReconnectDelay" configuration settings,
+ * then re-establishes every subscription.  Requests that were awaiting a response when the
+ * connection was lost fail, as do requests made while a connection attempt fails.
+ *
+ * `Utils.getWeb3` creates a `WebSocketProvider` when the "providerUrl" configuration setting
+ * begins with "ws://" or "wss://".
+ *
+ * See [WebSocket Providers](/Events.md#websockets).
+ */
+export class WebSocketProvider {
+
+  /**
+   * Topic published, with the provider as payload, whenever a `WebSocketProvider` has reconnected
+   * after losing its connection and has re-established its subscriptions.
+   */
+  public static ReconnectedEventTopic: string = "WebSocketProvider.reconnected";
+
+  private socket: any;
+  private connected: boolean = false;
+  private hasConnected: boolean = false;
+  private closed: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimerId: any;
+  private nextId: number = 1;
+  /**
+   * requests waiting for the connection to open
+   */
+  private queuedRequests: Array<PendingRequest> = new Array<PendingRequest>();
+  /**
+   * requests sent and awaiting a response, by the id under which they were sent
+   */
+  private sentRequests: Map<number, PendingRequest> = new Map<number, PendingRequest>();
+  private subscriptions: Set<Subscription> = new Set<Subscription>();
+
+  /**
+   * @param url Like "ws://127.0.0.1:8546"
+   */
+  constructor(private url: string) {
+    if (!url) {
+      throw new Error("WebSocketProvider: url is not defined");
+    }
+    this.connect();
+  }
+
+  public sendAsync(payload: any, callback: (error: Error, response: any) => void): void {
+    if (Array.isArray(payload)) {
+      Promise.all(payload.map((request: any): Promise<any> =>
+        new Promise<any>((resolve: (response: any) => void, reject: (error: Error) => void): void => {
+          this.request(request, (error: Error, response: any): void => error ? reject(error) : resolve(response));
+        })))
+        .then((responses: Array<any>): void => callback(null, responses))
+        .catch((error: Error): void => callback(error, null));
+    } else {
+      this.request(payload, callback);
+    }
+  }
+
+  public send(payload: any): any {
+    throw new Error("WebSocketProvider: synchronous requests are not supported");
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Subscribe using `eth_subscribe` with the given params, like `["newHeads"]`.
+   * The subscription is re-established whenever the provider reconnects.
+   * Returns a promise that rejects if the node refuses the subscription.
+   * @param params
+   * @param callback Invoked with the result of each notification
+   */
+  public async subscribe(params: Array<any>, callback: (result: any) => void): Promise<WebSocketSubscription> {
+    const subscription: Subscription = { callback, params };
+    await this.establishSubscription(subscription);
+    this.subscriptions.add(subscription);
+
+    return {
+      unsubscribe: (): Promise<void> => {
+        this.subscriptions.delete(subscription);
+        return this.connected ? this.cancelSubscription(subscription) : Promise.resolve();
+      },
+    };
+  }
+
+  /**
+   * Subscribe to be notified whenever this provider has reconnected after losing its connection.
+   * @param callback
+   * @returns A subscription to the event.  Unsubscribe by calling `[theSubscription].unsubscribe()`.
+   */
+  public subscribeToReconnections(callback: fnVoid): IEventSubscription {
+    return PubSubEventService.subscribe(WebSocketProvider.ReconnectedEventTopic,
+      (topic: string, provider: WebSocketProvider): void => {
+        if (provider === this) {
+          callback();
+        }
+      });
+  }
+
+  /**
+   * Close the connection and stop reconnecting.
+   */
+  public close(): void {
+    this.closed = true;
+    if (this.reconnectTimerId) {
+      clearTimeout(this.reconnectTimerId);
+      this.reconnectTimerId = undefined;
+    }
+    if (this.socket) {
+      this.socket.close();
+    }
+  }
+
+  private connect(): void {
+    this.reconnectTimerId = undefined;
+
+    /* tslint:disable-next-line:no-var-requires */
+    const WebSocketClass = (typeof WebSocket !== "undefined") ? WebSocket : require("websocket").w3cwebsocket;
+
+    LoggingService.debug(`WebSocketProvider: connecting to ${this.url}`);
+
+    const socket = this.socket = new WebSocketClass(this.url);
+
+    socket.onopen = (): void => { this.onOpen(); };
+    socket.onmessage = (message: any): void => { this.onMessage(message.data); };
+    socket.onerror = (error: any): void => {
+      LoggingService.debug(`WebSocketProvider: connection error: ${error && error.message ? error.message : error}`);
+    };
+    socket.onclose = (): void => {
+      if (socket === this.socket) {
+        this.onClose();
+      }
+    };
+  }
+
+  private async onOpen(): Promise<void> {
+    const reconnected = this.hasConnected;
+    this.connected = this.hasConnected = true;
+    this.reconnectAttempts = 0;
+
+    LoggingService.debug(`WebSocketProvider: connected to ${this.url}`);
+
+    this.queuedRequests.splice(0).forEach((request: PendingRequest): void => {
+      this.request(request.payload, request.callback);
+    });
+
+    if (reconnected) {
+      for (const subscription of Array.from(this.subscriptions)) {
+        try {
+          await this.establishSubscription(subscription);
+        } catch (ex) {
+          LoggingService.error(`WebSocketProvider: unable to re-establish subscription: ${ex}`);
+        }
+      }
+      PubSubEventService.publish(WebSocketProvider.ReconnectedEventTopic, this);
+    }
+  }
+
+  private onClose(): void {
+    const error = new Error(`WebSocketProvider: connection to ${this.url} was closed`);
+    this.connected = false;
+
+    this.sentRequests.forEach((request: PendingRequest): void => { request.callback(error, null); });
+    this.sentRequests.clear();
+    this.queuedRequests.splice(0).forEach((request: PendingRequest): void => { request.callback(error, null); });
+    this.subscriptions.forEach((subscription: Subscription): void => { subscription.id = undefined; });
+
+    if (this.closed) {
+      return;
+    }
+
+    const baseDelay: number = ConfigService.get("webSocketReconnectDelay");
+    const maxDelay: number = ConfigService.get("webSocketMaxReconnectDelay");
+    const delay = Math.min(baseDelay * Math.pow(2, this.reconnectAttempts++), maxDelay);
+
+    LoggingService.debug(`WebSocketProvider: connection closed, reconnecting in ${delay} ms`);
+
+    this.reconnectTimerId = setTimeout((): void => { this.connect(); }, delay);
+  }
+
+  private onMessage(data: any): void {
+    let message: any;
+    try {
+      message = JSON.parse(typeof data === "string" ? data : data.toString());
+    } catch (ex) {
+      LoggingService.error(`WebSocketProvider: unable to parse message: ${ex}`);
+      return;
+    }
+
+    if (message.method === "eth_subscription") {
+      for (const subscription of Array.from(this.subscriptions)) {
+        if (subscription.id === message.params.subscription) {
+          subscription.callback(message.params.result);
+        }
+      }
+      return;
+    }
+
+    const request = this.sentRequests.get(message.id);
+    if (request) {
+      this.sentRequests.delete(message.id);
+      // restore the id with which the request was made
+      request.callback(null, Object.assign(message, { id: request.payload.id }));
+    }
+  }
+
+  private request(payload: any, callback: (error: Error, response: any) => void): void {
+    if (!this.connected) {
+      this.queuedRequests.push({ callback, payload });
+      return;
+    }
+
+    /**
+     * Requests may come from different instances of web3 whose ids may collide,
+     * so number them ourselves
+     */
+    const id = this.nextId++;
+    this.sentRequests.set(id, { callback, payload });
+    try {
+      this.socket.send(JSON.stringify(Object.assign({}, payload, { id })));
+    } catch (ex) {
+      this.sentRequests.delete(id);
+      callback(ex, null);
+    }
+  }
+
+  private rpc(method: string, params: Array<any>): Promise<any> {
+    return new Promise<any>((resolve: (result: any) => void, reject: (error: Error) => void): void => {
+      this.request({ id: 0, jsonrpc: "2.0", method, params }, (error: Error, response: any): void => {
+        if (error || response.error) {
+          return reject(error || new Error(`${method}: ${response.error.message || response.error}`));
+        }
+        resolve(response.result);
+      });
+    });
+  }
+
+  private async establishSubscription(subscription: Subscription): Promise<void> {
+    subscription.id = await this.rpc("eth_subscribe", subscription.params);
+  }
+
+  private async cancelSubscription(subscription: Subscription): Promise<void> {
+    if (subscription.id) {
+      const id = subscription.id;
+      subscription.id = undefined;
+      await this.rpc("eth_unsubscribe", [id]);
+    }
+  }
+}
+
+/**
+ * Returned by `WebSocketProvider.subscribe`.
+ */
+export interface WebSocketSubscription {
+  unsubscribe(): Promise<void>;
+}
+
+interface PendingRequest {
+  payload: any;
+  callback: (error: Error, response: any) => void;
+}
+
+interface Subscription {
+  params: Array<any>;
+  callback: (result: any) => void;
+  /**
+   * The id given by the node, undefined while not subscribed
+   */
+  id?: string;
+}
@@ -1,5 +1,6 @@
 import { promisify } from "es6-promisify";
 import { Address } from "./commonTypes";
+import { CustomContractWrapper, WrapperParametersCodec } from "./customContractWrapper";
 import { IContractWrapper, IContractWrapperFactory, IUniversalSchemeWrapper } from "./iContractWrapperBase";
 import { LoggingService } from "./loggingService";
 import { Utils } from "./utils";
@@ -231,14 +232,20 @@ export class WrapperService {
    * All scheme contract wrapper factories by name.
    */
   public static schemeFactories: ArcSchemeWrapperFactories = {} as ArcSchemeWrapperFactories;
+  /**
+   * Factories of the wrappers given to `registerWrapper`, by name.  These are not in `factories`,
+   * whose properties are the contracts wrapped by Arc.js.
+   */
+  public static customFactories: Map<string, IContractWrapperFactory<IContractWrapper>> =
+    new Map<string, IContractWrapperFactory<IContractWrapper>>();
 
   /**
-   * Map of contract wrappers keyed by address.  For example:
+   * Map of contract wrappers keyed by lowercase address.  For example:
    *
-   * `const wrapper = WrapperService.wrappersByAddress.get(anAddress);`
+   * `const wrapper = WrapperService.wrappersByAddress.get(anAddress.toLowerCase());`
    *
    * Currently only returns the wrappers for contracts that were deployed by the running
-   * version of Arc.js.
+   * version of Arc.js, and those given to `registerWrapper`.
    */
   public static wrappersByAddress: Map<Address, IContractWrapper> = new Map<Address, IContractWrapper>();
 
@@ -345,9 +352,75 @@ export class WrapperService {
     for (const wrapperName in WrapperService.wrappers) {
       const wrapper = WrapperService.wrappers[wrapperName];
       if (wrapper) {
-        WrapperService.wrappersByAddress.set(wrapper.address, wrapper);
+        WrapperService.wrappersByAddress.set(wrapper.address.toLowerCase(), wrapper);
+      }
+    }
+
+    for (const customWrapper of WrapperService.customWrappers.values()) {
+      WrapperService.addCustomWrapper(customWrapper);
+    }
+  }
+
+  /**
+   * Registers a wrapper for a contract that is not part of Arc, such as a custom global constraint
+   * or scheme, so that Arc.js treats it like the contracts it wraps.  The wrappers of the given
+   * `addresses` are added to `wrappersByType` and `wrappersByAddress`, and so are found by
+   * `DAO.getSchemes` and `DAO.getGlobalConstraints`.  The factory is added to `customFactories`.
+   *
+   * Registering the same name again replaces the earlier registration.
+   * See [Registering Custom Wrappers](/Wrappers.md#customwrappers).
+   *
+   * Returns a promise of the wrapper factory.
+   * @param registration
+   */
+  public static async registerWrapper(
+    registration: WrapperRegistration): Promise<IContractWrapperFactory<IContractWrapper>> {
+
+    if (!registration.name) {
+      throw new Error("name is not defined");
+    }
+
+    if (!registration.artifact || !Array.isArray(registration.artifact.abi)) {
+      throw new Error("artifact.abi is not defined");
+    }
+
+    if (!WrapperService.registrableTypes.includes(registration.type)) {
+      throw new Error(`type must be one of ${WrapperService.registrableTypes.join(", ")}`);
+    }
+
+    if (registration.name in WrapperService.factories) {
+      throw new Error(`${registration.name} is already the name of an Arc.js wrapper`);
+    }
+
+    Utils.setContractArtifact(registration.name, registration.artifact);
+
+    const factory = registration.factory || CustomContractWrapper.createFactory({
+      friendlyName: registration.friendlyName,
+      name: registration.name,
+      parametersCodec: registration.parametersCodec,
+    });
+
+    const wrappers = new Array<IContractWrapper>();
+
+    for (const address of registration.addresses || []) {
+      const wrapper = await factory.at(address);
+      if (!wrapper) {
+        throw new Error(`${registration.name} was not found at ${address}`);
       }
+      wrappers.push(wrapper);
+    }
+
+    if (WrapperService.customWrappers.has(registration.name)) {
+      WrapperService.removeCustomWrapper(WrapperService.customWrappers.get(registration.name));
     }
+
+    const customWrapper = { factory, registration, wrappers };
+    WrapperService.customWrappers.set(registration.name, customWrapper);
+    WrapperService.addCustomWrapper(customWrapper);
+
+    LoggingService.debug(`WrapperService: registered ${registration.name}`);
+
+    return factory;
   }
 
   /**
@@ -356,13 +429,13 @@ export class WrapperService {
    * Most useful when you have both contract name and maybe the address and wish to most
    * efficiently return the associated wrapper, or undefined when not found.
    *
-   * @param contractName - name of an Arc contract, like "SchemeRegistrar"
+   * @param contractName - name of an Arc contract, like "SchemeRegistrar", or one given to `registerWrapper`
    * @param address - optional
    */
   public static async getContractWrapper(contractName: string, address?: string)
     : Promise<IContractWrapper | undefined> {
     const factories = await WrapperService.factories;
-    const factory = factories[contractName];
+    const factory = factories[contractName] || WrapperService.customFactories.get(contractName);
     if (!factory) {
       return undefined;
     }
@@ -398,6 +471,14 @@ export class WrapperService {
     return byteCodeWant === byteCodeFound;
   }
 
+  private static registrableTypes: Array<RegistrableWrapperType> =
+    ["globalConstraints", "nonUniversalSchemes", "other", "universalSchemes", "votingMachines"];
+
+  /**
+   * The wrappers given to `registerWrapper`, by name
+   */
+  private static customWrappers: Map<string, CustomWrapper> = new Map<string, CustomWrapper>();
+
   private static allWrappersFilter: WrapperFilter = {
     AbsoluteVote: true,
     ContributionReward: true,
@@ -425,6 +506,92 @@ export class WrapperService {
     VestingScheme: false,
     VoteInOrganizationScheme: false,
   };
+
+  private static addCustomWrapper(customWrapper: CustomWrapper): void {
+    const type = customWrapper.registration.type;
+
+    WrapperService.customFactories.set(customWrapper.registration.name, customWrapper.factory);
+
+    const wrappersByType: WrappersOfType = WrapperService.wrappersByType;
+
+    for (const wrapper of customWrapper.wrappers) {
+      if (wrappersByType.allWrappers) {
+        wrappersByType.allWrappers.push(wrapper);
+        wrappersByType[type].push(wrapper);
+      }
+      WrapperService.wrappersByAddress.set(wrapper.address.toLowerCase(), wrapper);
+    }
+  }
+
+  private static removeCustomWrapper(customWrapper: CustomWrapper): void {
+    const type = customWrapper.registration.type;
+    const isRemoved = (wrapper: IContractWrapper): boolean => customWrapper.wrappers.includes(wrapper);
+
+    WrapperService.customFactories.delete(customWrapper.registration.name);
+
+    const wrappersByType: WrappersOfType = WrapperService.wrappersByType;
+
+    if (wrappersByType.allWrappers) {
+      wrappersByType.allWrappers =
+        wrappersByType.allWrappers.filter((wrapper: IContractWrapper) => !isRemoved(wrapper));
+      wrappersByType[type] = wrappersByType[type].filter((wrapper: IContractWrapper) => !isRemoved(wrapper));
+    }
+
+    for (const wrapper of customWrapper.wrappers) {
+      WrapperService.wrappersByAddress.delete(wrapper.address.toLowerCase());
+    }
+  }
+}
+
+/**
+ * The categories of `ArcWrappersByType` to which `WrapperService.registerWrapper` can add wrappers
+ */
+export type RegistrableWrapperType =
+  "globalConstraints" | "nonUniversalSchemes" | "other" | "universalSchemes" | "votingMachines";
+
+export interface WrapperRegistration {
+  /**
+   * The name of the contract.  Must not be the name of a contract wrapped by Arc.js.
+   */
+  name: string;
+  /**
+   * The category of `ArcWrappersByType` to which the wrappers belong
+   */
+  type: RegistrableWrapperType;
+  /**
+   * The contract's Truffle artifact:  at least its `abi`, and its `bytecode` if you want to deploy
+   * it using the factory's `new`.
+   */
+  artifact: any;
+  /**
+   * A factory of wrappers of your own class, typically a `ContractWrapperFactory` created with the same `name`.
+   * Default is a factory of `CustomContractWrapper`, which supports getting and setting the contract's
+   * parameters using `parametersCodec`.
+   */
+  factory?: IContractWrapperFactory<IContractWrapper>;
+  /**
+   * The `friendlyName` of `CustomContractWrapper`.  Default is `name`.
+   */
+  friendlyName?: string;
+  /**
+   * Converts the parameters of `CustomContractWrapper`
+   */
+  parametersCodec?: WrapperParametersCodec;
+  /**
+   * Addresses of deployed instances of the contract to add to `wrappersByType` and `wrappersByAddress`
+   */
+  addresses?: Array<Address>;
+}
+
+/**
+ * `ArcWrappersByType` as arrays of `IContractWrapper`, to which registered wrappers are added
+ */
+type WrappersOfType = { [type in RegistrableWrapperType | "allWrappers"]: Array<IContractWrapper> };
+
+interface CustomWrapper {
+  factory: IContractWrapperFactory<IContractWrapper>;
+  registration: WrapperRegistration;
+  wrappers: Array<IContractWrapper>;
 }
 
 export interface WrapperFilter {
@@ -8,10 +8,16 @@ import {
   ArcTransactionResult,
   DecodedLogEntryEvent,
   IContractWrapperFactory,
-  IVotingMachineWrapper
+  IVotingMachineWrapper,
+  SimulatedTransactionResult
 } from "../iContractWrapperBase";
 import { ProposalService, VotableProposal } from "../proposalService";
-import { TransactionService, TxGeneratingFunctionOptions } from "../transactionService";
+import {
+  SendOptions,
+  SimulateOptions,
+  TransactionService,
+  TxGeneratingFunctionOptions
+} from "../transactionService";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
   NewProposalEventResult,
@@ -103,7 +109,14 @@ export class AbsoluteVoteWrapper extends IntVoteInterfaceWrapper
     };
   }
 
-  public async propose(options: ProposeOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionProposalResult> {
+  public propose(options: ProposeOptions & SendOptions): Promise<ArcTransactionProposalResult>;
+  public propose(options: ProposeOptions & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
+  public async propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
     const functionName = "AbsoluteVote.propose";
     const payload = TransactionService.publishKickoffEvent(functionName, options, 1);
     const eventContext = TransactionService.newTxEventContext(functionName, payload, options);
@@ -124,6 +137,8 @@ export class AbsoluteVoteWrapper extends IntVoteInterfaceWrapper
     const eventContext = TransactionService.newTxEventContext(functionName, payload, options);
     return super.voteWithSpecifiedAmounts(Object.assign(options, { txEventContext: eventContext }));
   }
+  public execute(options: ProposalIdOption & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   public async execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult> {
     const functionName = "AbsoluteVote.execute";
     const payload = TransactionService.publishKickoffEvent(functionName, options, 1);
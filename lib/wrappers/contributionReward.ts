@@ -17,10 +17,17 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TransactionService, TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, ContributionRewardArcProposal } from "../proposalService";
+import {
+  SendOptions,
+  SimulateOptions,
+  TransactionService,
+  TxGeneratingFunctionOptions
+} from "../transactionService";
 import { Utils } from "../utils";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
@@ -51,9 +58,16 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
    * Submit a proposal to reward a beneficiary for contributions to the DAO
    * @param {ProposeContributionRewardParams} options
    */
+  public proposeContributionReward(
+    options?: ProposeContributionRewardParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeContributionReward(
+    options: ProposeContributionRewardParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeContributionReward(
+    options: ProposeContributionRewardParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeContributionReward(
-    options: ProposeContributionRewardParams = {} as ProposeContributionRewardParams & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeContributionRewardParams & TxGeneratingFunctionOptions = {} as ProposeContributionRewardParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     const defaults = {
       descriptionIsHashed: false,
@@ -126,6 +140,26 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
 
     const functionName = "ContributionReward.proposeContributionReward";
 
+    const params = [options.avatar,
+    options.descriptionIsHashed ? options.description : Utils.SHA3(options.description),
+      reputationChange,
+    [nativeTokenReward, ethReward, externalTokenReward, options.periodLength, options.numberOfPeriods],
+    options.externalToken,
+    options.beneficiaryAddress];
+
+    if (TransactionService.isSimulating(options)) {
+      this.logContractFunctionCall("ContributionReward.proposeContributionReward", options);
+      /**
+       * the proposal depends upon the approval of the fee, so simulate both within the same snapshot
+       */
+      const approvals = autoApproveTransfer ?
+        [this.getTxData(
+          (await new AvatarService(options.avatar).getNativeToken()).contract.approve,
+          [options.avatar, orgNativeTokenFee])] : [];
+      return this.simulateTransaction(
+        functionName, this.contract.proposeContributionReward, params, {}, approvals);
+    }
+
     const payload = TransactionService.publishKickoffEvent(
       functionName,
       options,
@@ -151,15 +185,7 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
 
     this.logContractFunctionCall("ContributionReward.proposeContributionReward", options);
 
-    const tx = await this.sendTransaction(
-      eventContext,
-      this.contract.proposeContributionReward,
-      [options.avatar,
-      options.descriptionIsHashed ? options.description : Utils.SHA3(options.description),
-        reputationChange,
-      [nativeTokenReward, ethReward, externalTokenReward, options.periodLength, options.numberOfPeriods],
-      options.externalToken,
-      options.beneficiaryAddress]);
+    const tx = await this.sendTransaction(eventContext, this.contract.proposeContributionReward, params);
 
     if (tx) {
       TransactionService.publishTxLifecycleEvents(eventContext, tx, this.contract);
@@ -172,8 +198,12 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
    * Redeem the specified rewards for the beneficiary of the proposal
    * @param {ContributionRewardRedeemParams} opts
    */
+  public redeemContributionReward(
+    options: ContributionRewardRedeemParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public redeemContributionReward(
+    options?: ContributionRewardRedeemParams & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   public async redeemContributionReward(
-    options: ContributionRewardRedeemParams = {} as ContributionRewardRedeemParams & TxGeneratingFunctionOptions)
+    options: ContributionRewardRedeemParams & TxGeneratingFunctionOptions = {} as ContributionRewardRedeemParams)
     : Promise<ArcTransactionResult> {
     const defaults = {
       ethers: false,
@@ -182,7 +212,7 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
       reputation: false,
     };
 
-    options = Object.assign({}, defaults, options) as ContributionRewardRedeemParams;
+    options = Object.assign({}, defaults, options) as ContributionRewardRedeemParams & TxGeneratingFunctionOptions;
 
     if (!options.proposalId) {
       throw new Error("proposalId is not defined");
@@ -520,6 +550,20 @@ export class ContributionRewardWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
   }
 
+  protected getArcProposalSources(): Array<ArcProposalSource<NewContributionProposalEventResult>> {
+    return [{
+      proposalsEventFetcher: this.NewContributionProposal,
+      toArcProposal: async (
+        event: DecodedLogEntryEvent<NewContributionProposalEventResult>,
+        proposal: ArcProposalBase): Promise<ContributionRewardArcProposal> => {
+        return Object.assign(proposal, {
+          contribution: await this.getProposal(event.args._avatar, event.args._proposalId),
+          type: "ContributionReward",
+        }) as ContributionRewardArcProposal;
+      },
+    }];
+  }
+
   private async computeRemainingReward(
     proposalRewards: Partial<ProposalRewards>,
     proposal: ContributionProposal,
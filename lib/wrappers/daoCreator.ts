@@ -138,6 +138,14 @@ export class DaoCreatorWrapper extends ContractWrapperBase {
       throw new Error("avatar address is not defined");
     }
 
+    /**
+     * setting the parameters of the schemes and voting machines may require transactions that
+     * setSchemes depends on
+     */
+    if (TransactionService.isSimulating(options)) {
+      throw new Error("DaoCreator.setSchemes cannot be simulated");
+    }
+
     const functionName = "DaoCreator.setSchemes";
 
     const payload = TransactionService.publishKickoffEvent(
@@ -224,7 +232,8 @@ export class DaoCreatorWrapper extends ContractWrapperBase {
       let contractAddress: Address;
 
       if (schemeOptions.name) {
-        wrapperFactory = WrapperService.factories[schemeOptions.name];
+        wrapperFactory = WrapperService.factories[schemeOptions.name] ||
+          WrapperService.customFactories.get(schemeOptions.name);
       }
 
       if (wrapperFactory) {
@@ -411,14 +420,12 @@ export class DaoCreatorWrapper extends ContractWrapperBase {
       });
 
     // register the schemes with the dao
-    tx = await this.sendTransaction(
-      eventContext,
-      this.contract.setSchemes,
-      [options.avatar,
-        initialSchemesSchemes,
-        initialSchemesParams,
-        initialSchemesPermissions]
-    );
+    const params = [options.avatar,
+      initialSchemesSchemes,
+      initialSchemesParams,
+      initialSchemesPermissions];
+
+    tx = await this.sendTransaction(eventContext, this.contract.setSchemes, params);
 
     if (tx) {
       TransactionService.publishTxLifecycleEvents(eventContext, tx, this.contract);
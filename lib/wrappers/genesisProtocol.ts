@@ -16,10 +16,16 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IVotingMachineWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
 import { ProposalService } from "../proposalService";
-import { TransactionService, TxGeneratingFunctionOptions } from "../transactionService";
+import {
+  SendOptions,
+  SimulateOptions,
+  TransactionService,
+  TxGeneratingFunctionOptions
+} from "../transactionService";
 import { Utils } from "../utils";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
@@ -66,8 +72,10 @@ export class GenesisProtocolWrapper extends IntVoteInterfaceWrapper
    * @param {StakeConfig} options
    * @returns Promise<ArcTransactionResult>
    */
-  public async stake(options: StakeConfig =
-    {} as StakeConfig & TxGeneratingFunctionOptions): Promise<ArcTransactionResult> {
+  public stake(options: StakeConfig & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public stake(options?: StakeConfig & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
+  public async stake(options: StakeConfig & TxGeneratingFunctionOptions =
+    {} as StakeConfig): Promise<ArcTransactionResult> {
 
     if (!options.proposalId) {
       throw new Error("proposalId is not defined");
@@ -85,6 +93,18 @@ export class GenesisProtocolWrapper extends IntVoteInterfaceWrapper
 
     const functionName = "GenesisProtocol.stake";
 
+    const params = [options.proposalId, options.vote, amount];
+
+    if (TransactionService.isSimulating(options)) {
+      this.logContractFunctionCall("GenesisProtocol.stake", options);
+      /**
+       * the stake depends upon the approval, so simulate both within the same snapshot
+       */
+      const approvals = autoApproveTransfer ?
+        [this.getTxData((await this.getStakingToken()).contract.approve, [this.address, amount])] : [];
+      return this.simulateTransaction(functionName, this.contract.stake, params, {}, approvals);
+    }
+
     const payload = TransactionService.publishKickoffEvent(
       functionName,
       options,
@@ -110,10 +130,7 @@ export class GenesisProtocolWrapper extends IntVoteInterfaceWrapper
 
     this.logContractFunctionCall("GenesisProtocol.stake", options);
 
-    const tx = await this.sendTransaction(
-      eventContext,
-      this.contract.stake,
-      [options.proposalId, options.vote, amount]);
+    const tx = await this.sendTransaction(eventContext, this.contract.stake, params);
 
     if (tx) {
       TransactionService.publishTxLifecycleEvents(eventContext, tx, this.contract);
@@ -934,7 +951,14 @@ export class GenesisProtocolWrapper extends IntVoteInterfaceWrapper
     return await this.contract.stakingToken();
   }
 
-  public async propose(options: ProposeOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionProposalResult> {
+  public propose(options: ProposeOptions & SendOptions): Promise<ArcTransactionProposalResult>;
+  public propose(options: ProposeOptions & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
+  public async propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
     const functionName = "GenesisProtocol.propose";
     const payload = TransactionService.publishKickoffEvent(functionName, options, 1);
     const eventContext = TransactionService.newTxEventContext(functionName, payload, options);
@@ -955,6 +979,8 @@ export class GenesisProtocolWrapper extends IntVoteInterfaceWrapper
     const eventContext = TransactionService.newTxEventContext(functionName, payload, options);
     return super.voteWithSpecifiedAmounts(Object.assign(options, { txEventContext: eventContext }));
   }
+  public execute(options: ProposalIdOption & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   public async execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult> {
     const functionName = "GenesisProtocol.execute";
     const payload = TransactionService.publishKickoffEvent(functionName, options, 1);
@@ -6,12 +6,17 @@ import {
   ArcTransactionProposalResult,
   DecodedLogEntryEvent,
   IContractWrapperFactory,
+  IGlobalConstraintWrapper,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, GlobalConstraintArcProposal } from "../proposalService";
+import { SendOptions, SimulateOptions, TransactionService, TxGeneratingFunctionOptions } from "../transactionService";
+import { Utils } from "../utils";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
+import { WrapperService } from "../wrapperService";
 import {
   ProposalDeletedEventResult,
   SchemeProposalExecuted,
@@ -36,9 +41,17 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
    * Submit a proposal to add or modify a given global constraint.
    * @param options
    */
+  public proposeToAddModifyGlobalConstraint(
+    options?: ProposeToAddModifyGlobalConstraintParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeToAddModifyGlobalConstraint(
+    options: ProposeToAddModifyGlobalConstraintParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeToAddModifyGlobalConstraint(
+    options: ProposeToAddModifyGlobalConstraintParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeToAddModifyGlobalConstraint(
-    options: ProposeToAddModifyGlobalConstraintParams = {} as ProposeToAddModifyGlobalConstraintParams)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeToAddModifyGlobalConstraintParams & TxGeneratingFunctionOptions =
+      {} as ProposeToAddModifyGlobalConstraintParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("address is not defined");
@@ -48,6 +61,16 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
       throw new Error("globalConstraint is not defined");
     }
 
+    if (!options.globalConstraintParametersHash && options.globalConstraintParameters) {
+      options = Object.assign({}, options, {
+        globalConstraintParametersHash:
+          await this.setGlobalConstraintParameters(
+            options.globalConstraint,
+            options.globalConstraintParameters,
+            TransactionService.isSimulating(options)),
+      });
+    }
+
     if (!options.globalConstraintParametersHash) {
       throw new Error("globalConstraintParametersHash is not defined");
     }
@@ -68,6 +91,10 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
       options.votingMachineHash]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -75,9 +102,17 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
    * Submit a proposal to remove a global constraint.
    * @param options
    */
+  public proposeToRemoveGlobalConstraint(
+    options?: ProposeToRemoveGlobalConstraintParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeToRemoveGlobalConstraint(
+    options: ProposeToRemoveGlobalConstraintParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeToRemoveGlobalConstraint(
+    options: ProposeToRemoveGlobalConstraintParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeToRemoveGlobalConstraint(
-    options: ProposeToRemoveGlobalConstraintParams = {} as ProposeToRemoveGlobalConstraintParams)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeToRemoveGlobalConstraintParams & TxGeneratingFunctionOptions =
+      {} as ProposeToRemoveGlobalConstraintParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("avatar address is not defined");
@@ -97,6 +132,10 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
       options.globalConstraintAddress]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -218,6 +257,77 @@ export class GlobalConstraintRegistrarWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
 
   }
+
+  /**
+   * GlobalConstraintRegistrar deletes its proposals once executed, so we describe them from the events.
+   */
+  protected getArcProposalSources(): Array<ArcProposalSource<any>> {
+    return [
+      {
+        proposalsEventFetcher: this.NewGlobalConstraintsProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<NewGlobalConstraintsProposalEventResult>,
+          proposal: ArcProposalBase): Promise<GlobalConstraintArcProposal> => {
+          return Object.assign(proposal, {
+            globalConstraintProposal: {
+              constraintAddress: event.args._gc,
+              paramsHash: event.args._params,
+              proposalId: event.args._proposalId,
+              proposalType: GlobalConstraintProposalType.Add,
+              voteToRemoveParamsHash: event.args._voteToRemoveParams,
+            },
+            type: "AddGlobalConstraint",
+          }) as GlobalConstraintArcProposal;
+        },
+      },
+      {
+        proposalsEventFetcher: this.RemoveGlobalConstraintsProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<RemoveGlobalConstraintsProposalEventResult>,
+          proposal: ArcProposalBase): Promise<GlobalConstraintArcProposal> => {
+          return Object.assign(proposal, {
+            globalConstraintProposal: {
+              constraintAddress: event.args._gc,
+              paramsHash: Utils.NULL_HASH,
+              proposalId: event.args._proposalId,
+              proposalType: GlobalConstraintProposalType.Remove,
+              voteToRemoveParamsHash: Utils.NULL_HASH,
+            },
+            type: "RemoveGlobalConstraint",
+          }) as GlobalConstraintArcProposal;
+        },
+      },
+    ];
+  }
+
+  /**
+   * Sets the given parameters on the global constraint using its wrapper, returning the promise of their hash
+   * once they have been set.  When simulating, only computes the hash, as the proposal doesn't depend on the
+   * parameters having been set.
+   * The global constraint must be one deployed by the running version of Arc.js or given to
+   * `WrapperService.registerWrapper`.
+   */
+  private async setGlobalConstraintParameters(
+    globalConstraint: Address,
+    params: any,
+    simulate: boolean): Promise<Hash> {
+
+    const wrapper =
+      WrapperService.wrappersByAddress.get(globalConstraint.toLowerCase()) as IGlobalConstraintWrapper;
+
+    if (!wrapper || (typeof wrapper.setParameters !== "function")) {
+      throw new Error(`no wrapper is known for the global constraint at ${globalConstraint}`);
+    }
+
+    if (simulate) {
+      return wrapper.getParametersHash(params);
+    }
+
+    const result = await wrapper.setParameters(params);
+    await result.watchForTxMined();
+    return result.result;
+  }
+
   private convertProposalPropsArrayToObject(propsArray: Array<any>, proposalId: Hash): VotableGlobalConstraintProposal {
     return {
       constraintAddress: propsArray[0],
@@ -276,9 +386,15 @@ export interface ProposeToAddModifyGlobalConstraintParams {
    */
   globalConstraint: string;
   /**
-   * hash of the parameters of the global contraint
+   * hash of the parameters of the global contraint.  Not required when `globalConstraintParameters` is given.
+   */
+  globalConstraintParametersHash?: string;
+  /**
+   * Parameters of the global constraint, to be set using its wrapper's `setParameters` when
+   * `globalConstraintParametersHash` is not given.  The global constraint must be one deployed by
+   * the running version of Arc.js or given to `WrapperService.registerWrapper`.
    */
-  globalConstraintParametersHash: string;
+  globalConstraintParameters?: any;
   /**
    * voting machine to use when voting to remove the global constraint
    */
@@ -1,7 +1,11 @@
 import BigNumber from "bignumber.js";
 import { Address, Hash } from "../commonTypes";
-import { ArcTransactionProposalResult, ArcTransactionResult } from "../iContractWrapperBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import {
+  ArcTransactionProposalResult,
+  ArcTransactionResult,
+  SimulatedTransactionResult
+} from "../iContractWrapperBase";
+import { SendOptions, SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
 import { EventFetcherFactory } from "../web3EventService";
 
 /**
@@ -16,7 +20,11 @@ export interface IIntVoteInterface {
 
   address: Address;
 
-  propose(options: ProposeOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionProposalResult>;
+  propose(options: ProposeOptions & SendOptions): Promise<ArcTransactionProposalResult>;
+  propose(options: ProposeOptions & SimulateOptions): Promise<SimulatedTransactionResult>;
+  propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   cancelProposal(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   ownerVote(options: OwnerVoteOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   vote(options: VoteOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
@@ -27,6 +35,7 @@ export interface IIntVoteInterface {
   isVotable(options: ProposalIdOption): Promise<boolean>;
   voteStatus(options: VoteStatusOptions): Promise<BigNumber>;
   isAbstainAllow(): Promise<boolean>;
+  execute(options: ProposalIdOption & SimulateOptions): Promise<SimulatedTransactionResult>;
   execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
 }
 
@@ -6,10 +6,11 @@ import {
   ArcTransactionProposalResult,
   ArcTransactionResult,
   DecodedLogEntryEvent,
-  IContractWrapperFactory
+  IContractWrapperFactory,
+  SimulatedTransactionResult
 } from "../iContractWrapperBase";
 import { LoggingService } from "../loggingService";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { SendOptions, SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
 import { Utils } from "../utils";
 import { EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
@@ -83,7 +84,14 @@ export class IntVoteInterfaceWrapper extends ContractWrapperBase implements IInt
    * incremented counter and the address of the voting machine.
    * @param options
    */
-  public async propose(options: ProposeOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionProposalResult> {
+  public propose(options: ProposeOptions & SendOptions): Promise<ArcTransactionProposalResult>;
+  public propose(options: ProposeOptions & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
+  public async propose(
+    options: ProposeOptions & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.organizationAddress) {
       LoggingService.warn(`IntVoteInterface.propose: organizationAddress is not set, will be set to msg.sender`);
@@ -121,6 +129,10 @@ export class IntVoteInterfaceWrapper extends ContractWrapperBase implements IInt
       options.proposerAddress]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, this);
   }
 
@@ -291,6 +303,8 @@ export class IntVoteInterfaceWrapper extends ContractWrapperBase implements IInt
    * @param proposalId
    */
 
+  public execute(options: ProposalIdOption & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   public async execute(options: ProposalIdOption & TxGeneratingFunctionOptions): Promise<ArcTransactionResult> {
     if (!options.proposalId) {
       throw new Error(`proposalId is not defined`);
@@ -3,8 +3,8 @@ import { BigNumber } from "bignumber.js";
 import { Address, BinaryVoteResult, Hash } from "../commonTypes";
 import { ContractWrapperBase } from "../contractWrapperBase";
 import { ContractWrapperFactory } from "../contractWrapperFactory";
-import { ArcTransactionResult, IContractWrapperFactory } from "../iContractWrapperBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcTransactionResult, IContractWrapperFactory, SimulatedTransactionResult } from "../iContractWrapperBase";
+import { SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
 import { Web3EventService } from "../web3EventService";
 
 export class RedeemerWrapper extends ContractWrapperBase {
@@ -19,6 +19,8 @@ export class RedeemerWrapper extends ContractWrapperBase {
    * Redeem rewardable contribution proposal rewards.
    * @param options
    */
+  public redeem(options: RedeemerOptions & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public redeem(options: RedeemerOptions & TxGeneratingFunctionOptions): Promise<ArcTransactionResult>;
   public async redeem(options: RedeemerOptions & TxGeneratingFunctionOptions)
     : Promise<ArcTransactionResult> {
 
@@ -91,6 +93,20 @@ export class RedeemerWrapper extends ContractWrapperBase {
       winningVote: result[3].toNumber(),
     };
   }
+
+  /**
+   * Returns the address of the ContributionReward scheme whose rewards this Redeemer redeems.
+   */
+  public getContributionRewardAddress(): Promise<Address> {
+    return this.contract.contributionReward();
+  }
+
+  /**
+   * Returns the address of the GenesisProtocol whose rewards this Redeemer redeems.
+   */
+  public getGenesisProtocolAddress(): Promise<Address> {
+    return this.contract.genesisProtocol();
+  }
 }
 
 /**
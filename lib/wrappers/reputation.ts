@@ -80,8 +80,8 @@ export class ReputationWrapper extends ContractWrapperBase {
    * Total amount of reputation at the given `blockNumber`.
    */
   public getTotalSupplyAt(blockNumber: number): Promise<BigNumber> {
-    this.logContractFunctionCall("Reputation.totalSupplyAt");
-    return this.contract.totalSupply();
+    this.logContractFunctionCall("Reputation.totalSupplyAt", { blockNumber });
+    return this.contract.totalSupplyAt(blockNumber);
   }
 
   public getBalanceOf(accountAddress: Address): Promise<BigNumber> {
@@ -7,10 +7,13 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, SchemeRegistrarArcProposal } from "../proposalService";
+import { SendOptions, SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
+import { Utils } from "../utils";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
   ProposalDeletedEventResult,
@@ -36,9 +39,16 @@ export class SchemeRegistrarWrapper extends ProposalGeneratorBase {
    * Submit a proposal to add or modify a given scheme.
    * @param options
    */
+  public proposeToAddModifyScheme(
+    options?: ProposeToAddModifySchemeParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeToAddModifyScheme(
+    options: ProposeToAddModifySchemeParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeToAddModifyScheme(
+    options: ProposeToAddModifySchemeParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeToAddModifyScheme(
-    options: ProposeToAddModifySchemeParams = {} as ProposeToAddModifySchemeParams & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeToAddModifySchemeParams & TxGeneratingFunctionOptions = {} as ProposeToAddModifySchemeParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     const defaults = {
       permissions: null,
@@ -96,6 +106,10 @@ export class SchemeRegistrarWrapper extends ProposalGeneratorBase {
       SchemePermissions.toString(permissions)]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -103,9 +117,16 @@ export class SchemeRegistrarWrapper extends ProposalGeneratorBase {
    * Submit a proposal to remove a given scheme.
    * @param options
    */
+  public proposeToRemoveScheme(
+    options?: ProposeToRemoveSchemeParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeToRemoveScheme(
+    options: ProposeToRemoveSchemeParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeToRemoveScheme(
+    options: ProposeToRemoveSchemeParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeToRemoveScheme(
-    options: ProposeToRemoveSchemeParams = {} as ProposeToRemoveSchemeParams & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeToRemoveSchemeParams & TxGeneratingFunctionOptions = {} as ProposeToRemoveSchemeParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("avatar is not defined");
@@ -124,6 +145,10 @@ export class SchemeRegistrarWrapper extends ProposalGeneratorBase {
       options.schemeAddress]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -257,6 +282,48 @@ export class SchemeRegistrarWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
   }
 
+  /**
+   * SchemeRegistrar deletes its proposals once executed, so we describe them from the events.
+   */
+  protected getArcProposalSources(): Array<ArcProposalSource<any>> {
+    return [
+      {
+        proposalsEventFetcher: this.NewSchemeProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<NewSchemeProposalEventResult>,
+          proposal: ArcProposalBase): Promise<SchemeRegistrarArcProposal> => {
+          return Object.assign(proposal, {
+            schemeProposal: {
+              parametersHash: event.args._parametersHash,
+              permissions: SchemePermissions.fromString(event.args._permissions),
+              proposalId: event.args._proposalId,
+              proposalType: SchemeRegistrarProposalType.Add,
+              schemeAddress: event.args._scheme,
+            },
+            type: "AddScheme",
+          }) as SchemeRegistrarArcProposal;
+        },
+      },
+      {
+        proposalsEventFetcher: this.RemoveSchemeProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<RemoveSchemeProposalEventResult>,
+          proposal: ArcProposalBase): Promise<SchemeRegistrarArcProposal> => {
+          return Object.assign(proposal, {
+            schemeProposal: {
+              parametersHash: Utils.NULL_HASH,
+              permissions: SchemePermissions.None,
+              proposalId: event.args._proposalId,
+              proposalType: SchemeRegistrarProposalType.Remove,
+              schemeAddress: event.args._scheme,
+            },
+            type: "RemoveScheme",
+          }) as SchemeRegistrarArcProposal;
+        },
+      },
+    ];
+  }
+
   private convertProposalPropsArrayToObject(propsArray: Array<any>, proposalId: Hash): VotableSchemeRegistrarProposal {
     return {
       parametersHash: propsArray[1],
@@ -6,12 +6,15 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
 
 import { ContractWrapperFactory } from "../contractWrapperFactory";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, UpgradeSchemeArcProposal } from "../proposalService";
+import { SendOptions, SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
+import { Utils } from "../utils";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
   ProposalDeletedEventResult,
@@ -37,9 +40,16 @@ export class UpgradeSchemeWrapper extends ProposalGeneratorBase {
    * Submit a proposal to change the DAO's controller.
    * @param options
    */
+  public proposeController(
+    options?: ProposeControllerParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeController(
+    options: ProposeControllerParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeController(
+    options: ProposeControllerParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeController(
-    options: ProposeControllerParams = {} as ProposeControllerParams & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeControllerParams & TxGeneratingFunctionOptions = {} as ProposeControllerParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("avatar address is not defined");
@@ -58,6 +68,10 @@ export class UpgradeSchemeWrapper extends ProposalGeneratorBase {
       options.controller]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -65,9 +79,16 @@ export class UpgradeSchemeWrapper extends ProposalGeneratorBase {
    * Submit a proposal to change or modify the DAO's upgrading scheme.
    * @param options
    */
+  public proposeUpgradingScheme(
+    options?: ProposeUpgradingSchemeParams & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeUpgradingScheme(
+    options: ProposeUpgradingSchemeParams & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeUpgradingScheme(
+    options: ProposeUpgradingSchemeParams & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeUpgradingScheme(
-    options: ProposeUpgradingSchemeParams = {} as ProposeUpgradingSchemeParams & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeUpgradingSchemeParams & TxGeneratingFunctionOptions = {} as ProposeUpgradingSchemeParams)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("avatar address is not defined");
@@ -91,6 +112,10 @@ export class UpgradeSchemeWrapper extends ProposalGeneratorBase {
       options.schemeParametersHash]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -212,6 +237,46 @@ export class UpgradeSchemeWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
   }
 
+  /**
+   * UpgradeScheme deletes its proposals once executed, so we describe them from the events.
+   */
+  protected getArcProposalSources(): Array<ArcProposalSource<any>> {
+    return [
+      {
+        proposalsEventFetcher: this.NewUpgradeProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<NewUpgradeProposalEventResult>,
+          proposal: ArcProposalBase): Promise<UpgradeSchemeArcProposal> => {
+          return Object.assign(proposal, {
+            type: "UpgradeController",
+            upgradeProposal: {
+              paramsUpgradingScheme: Utils.NULL_HASH,
+              proposalId: event.args._proposalId,
+              proposalType: UpgradeSchemeProposalType.Controller,
+              upgradeContractAddress: event.args._newController,
+            },
+          }) as UpgradeSchemeArcProposal;
+        },
+      },
+      {
+        proposalsEventFetcher: this.ChangeUpgradeSchemeProposal,
+        toArcProposal: async (
+          event: DecodedLogEntryEvent<ChangeUpgradeSchemeProposalEventResult>,
+          proposal: ArcProposalBase): Promise<UpgradeSchemeArcProposal> => {
+          return Object.assign(proposal, {
+            type: "UpgradeUpgradeScheme",
+            upgradeProposal: {
+              paramsUpgradingScheme: event.args._params,
+              proposalId: event.args._proposalId,
+              proposalType: UpgradeSchemeProposalType.UpgradeScheme,
+              upgradeContractAddress: event.args._newUpgradeScheme,
+            },
+          }) as UpgradeSchemeArcProposal;
+        },
+      },
+    ];
+  }
+
   private convertProposalPropsArrayToObject(propsArray: Array<any>, proposalId: Hash): VotableUpgradeSchemeProposal {
     return {
       paramsUpgradingScheme: propsArray[1],
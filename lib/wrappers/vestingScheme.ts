@@ -10,15 +10,22 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TransactionService, TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, ArcProposalState, VestingAgreementArcProposal } from "../proposalService";
+import {
+  SendOptions,
+  SimulateOptions,
+  TransactionService,
+  TxGeneratingFunctionOptions
+} from "../transactionService";
 import { Utils } from "../utils";
 import { UtilsInternal } from "../utilsInternal";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import { SchemeProposalExecuted, SchemeProposalExecutedEventResult } from "./commonEventInterfaces";
-import { StandardTokenFactory } from "./standardToken";
+import { StandardTokenFactory, StandardTokenWrapper } from "./standardToken";
 
 export class VestingSchemeWrapper extends ProposalGeneratorBase {
 
@@ -61,9 +68,16 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
    * Submit a proposal to create a vesting agreement.
    * @param {ProposeVestingAgreementConfig} options
    */
+  public proposeVestingAgreement(
+    options?: ProposeVestingAgreementConfig & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeVestingAgreement(
+    options: ProposeVestingAgreementConfig & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeVestingAgreement(
+    options: ProposeVestingAgreementConfig & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeVestingAgreement(
-    options: ProposeVestingAgreementConfig = {} as ProposeVestingAgreementConfig & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: ProposeVestingAgreementConfig & TxGeneratingFunctionOptions = {} as ProposeVestingAgreementConfig)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
     /**
      * see ProposeVestingAgreementConfig
      */
@@ -94,6 +108,10 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
       options.avatar]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -101,9 +119,16 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
    * Create a new vesting agreement
    * @param {CreateVestingAgreementConfig} options
    */
+  public create(
+    options?: CreateVestingAgreementConfig & SendOptions): Promise<ArcTransactionAgreementResult>;
+  public create(
+    options: CreateVestingAgreementConfig & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public create(
+    options: CreateVestingAgreementConfig & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionAgreementResult | SimulatedTransactionResult>;
   public async create(
-    options: CreateVestingAgreementConfig = {} as CreateVestingAgreementConfig & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionAgreementResult> {
+    options: CreateVestingAgreementConfig & TxGeneratingFunctionOptions = {} as CreateVestingAgreementConfig)
+    : Promise<ArcTransactionAgreementResult | SimulatedTransactionResult> {
     /**
      * See these properties in CreateVestingAgreementConfig
      */
@@ -118,9 +143,42 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
     const web3 = await Utils.getWeb3();
 
     const amountPerPeriod = web3.toBigNumber(options.amountPerPeriod);
-    const autoApproveTransfer = ConfigService.get("autoApproveTokenTransfers");
+    const amount = amountPerPeriod.mul(options.numOfAgreedPeriods);
+    let autoApproveTransfer = ConfigService.get("autoApproveTokenTransfers");
+    let token: StandardTokenWrapper;
+
+    if (autoApproveTransfer) {
+      token = await StandardTokenFactory.at(options.token);
+      /**
+       * no need to approve again when enough has already been approved, as by `VestingAgreementBatch`
+       */
+      const allowance = await token.allowance({ owner: await Utils.getDefaultAccount(), spender: this.address });
+      autoApproveTransfer = allowance.lt(amount);
+    }
+
     const functionName = "VestingScheme.create";
 
+    const params = [options.token,
+    options.beneficiaryAddress,
+    options.returnOnCancelAddress,
+    options.startingBlock,
+      amountPerPeriod,
+    options.periodLength,
+    options.numOfAgreedPeriods,
+    options.cliffInPeriods,
+    options.signaturesReqToCancel,
+    options.signers];
+
+    if (TransactionService.isSimulating(options)) {
+      this.logContractFunctionCall("VestingScheme.createVestedAgreement", options);
+      /**
+       * the agreement depends upon the approval, so simulate both within the same snapshot
+       */
+      const approvals = autoApproveTransfer ? [this.getTxData(token.contract.approve, [this.address, amount])] : [];
+      return this.simulateTransaction(
+        "VestingScheme.createVestedAgreement", this.contract.createVestedAgreement, params, {}, approvals);
+    }
+
     const payload = TransactionService.publishKickoffEvent(
       functionName,
       options,
@@ -132,10 +190,8 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
      * approve immediate transfer of the given tokens from currentAccount to the VestingScheme
      */
     if (autoApproveTransfer) {
-      const token = await StandardTokenFactory.at(options.token) as any;
-
       const result = await token.approve({
-        amount: amountPerPeriod.mul(options.numOfAgreedPeriods),
+        amount,
         spender: this.address,
         txEventContext: eventContext,
       });
@@ -145,19 +201,7 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
 
     this.logContractFunctionCall("VestingScheme.createVestedAgreement", options);
 
-    const tx = await this.sendTransaction(
-      eventContext,
-      this.contract.createVestedAgreement,
-      [options.token,
-      options.beneficiaryAddress,
-      options.returnOnCancelAddress,
-      options.startingBlock,
-        amountPerPeriod,
-      options.periodLength,
-      options.numOfAgreedPeriods,
-      options.cliffInPeriods,
-      options.signaturesReqToCancel,
-      options.signers]);
+    const tx = await this.sendTransaction(eventContext, this.contract.createVestedAgreement, params);
 
     if (tx) {
       TransactionService.publishTxLifecycleEvents(eventContext, tx, this.contract);
@@ -300,6 +344,65 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
     return agreement;
   }
 
+  /**
+   * Throws an Error describing the first problem found in the given agreement options,
+   * as `create` and `proposeVestingAgreement` do before sending a transaction.
+   * Sets `startingBlock` to the current block number when it is not given.
+   * @param options
+   */
+  public async validateCreateParams(options: CommonVestingAgreementConfig): Promise<void> {
+
+    if (!options.beneficiaryAddress) {
+      throw new Error("beneficiary address is not set");
+    }
+
+    if (!options.returnOnCancelAddress) {
+      throw new Error("returnOnCancelAddress is not set");
+    }
+
+    if (!Number.isInteger(options.signaturesReqToCancel) || (options.signaturesReqToCancel <= 0)) {
+      throw new Error("signaturesReqToCancel must be greater than zero");
+    }
+
+    if (!Array.isArray(options.signers)) {
+      throw new Error("signers is not set");
+    }
+
+    if (options.signers.length < 1) {
+      throw new Error("the number of signers must be greater than 0");
+    }
+
+    if (options.signaturesReqToCancel > options.signers.length) {
+      throw new Error("the number of signatures required to cancel cannpt be greater than the number of signers");
+    }
+
+    if (!Number.isInteger(options.periodLength) || (options.periodLength <= 0)) {
+      throw new Error("periodLength must be greater than zero");
+    }
+
+    const web3 = await Utils.getWeb3();
+
+    if (await web3.toBigNumber(options.amountPerPeriod).lte(0)) {
+      throw new Error("amountPerPeriod must be greater than zero");
+    }
+
+    if (!Number.isInteger(options.numOfAgreedPeriods) || (options.numOfAgreedPeriods <= 0)) {
+      throw new Error("numOfAgreedPeriods must be greater than zero");
+    }
+
+    if (!Number.isInteger(options.cliffInPeriods) || (options.cliffInPeriods < 0)) {
+      throw new Error("cliffInPeriods must be greater than or equal to zero");
+    }
+
+    if ((typeof options.startingBlock === "undefined") || (options.startingBlock === null)) {
+      options.startingBlock = await UtilsInternal.lastBlockNumber();
+    }
+
+    if (!Number.isInteger(options.startingBlock) || (options.startingBlock < 0)) {
+      throw new Error("startingBlock must be greater than or equal to zero");
+    }
+  }
+
   public getParametersHash(params: StandardSchemeParams): Promise<Hash> {
     return this._getParametersHash(
       params.voteParametersHash,
@@ -354,57 +457,21 @@ export class VestingSchemeWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
   }
 
-  private async validateCreateParams(options: CommonVestingAgreementConfig): Promise<void> {
-
-    if (!options.beneficiaryAddress) {
-      throw new Error("beneficiary address is not set");
-    }
-
-    if (!options.returnOnCancelAddress) {
-      throw new Error("returnOnCancelAddress is not set");
-    }
-
-    if (!Number.isInteger(options.signaturesReqToCancel) || (options.signaturesReqToCancel <= 0)) {
-      throw new Error("signaturesReqToCancel must be greater than zero");
-    }
-
-    if (!Array.isArray(options.signers)) {
-      throw new Error("signers is not set");
-    }
-
-    if (options.signers.length < 1) {
-      throw new Error("the number of signers must be greater than 0");
-    }
-
-    if (options.signaturesReqToCancel > options.signers.length) {
-      throw new Error("the number of signatures required to cancel cannpt be greater than the number of signers");
-    }
-
-    if (!Number.isInteger(options.periodLength) || (options.periodLength <= 0)) {
-      throw new Error("periodLength must be greater than zero");
-    }
-
-    const web3 = await Utils.getWeb3();
-
-    if (await web3.toBigNumber(options.amountPerPeriod).lte(0)) {
-      throw new Error("amountPerPeriod must be greater than zero");
-    }
-
-    if (!Number.isInteger(options.numOfAgreedPeriods) || (options.numOfAgreedPeriods <= 0)) {
-      throw new Error("numOfAgreedPeriods must be greater than zero");
-    }
-
-    if (!Number.isInteger(options.cliffInPeriods) || (options.cliffInPeriods < 0)) {
-      throw new Error("cliffInPeriods must be greater than or equal to zero");
-    }
-
-    if ((typeof options.startingBlock === "undefined") || (options.startingBlock === null)) {
-      options.startingBlock = await UtilsInternal.lastBlockNumber();
-    }
-
-    if (!Number.isInteger(options.startingBlock) || (options.startingBlock < 0)) {
-      throw new Error("startingBlock must be greater than or equal to zero");
-    }
+  protected getArcProposalSources(): Array<ArcProposalSource<AgreementProposalEventResult>> {
+    return [{
+      proposalsEventFetcher: this.AgreementProposal,
+      toArcProposal: async (
+        event: DecodedLogEntryEvent<AgreementProposalEventResult>,
+        proposal: ArcProposalBase): Promise<VestingAgreementArcProposal> => {
+        return Object.assign(proposal, {
+          agreement: (proposal.state === ArcProposalState.Votable) ?
+            await this.getVotableProposal(event.args._avatar, event.args._proposalId) : undefined,
+          agreementId: (proposal.state === ArcProposalState.Executed) ?
+            await this.getProposalAgreementId(event.args._proposalId) : undefined,
+          type: "VestingAgreement",
+        }) as VestingAgreementArcProposal;
+      },
+    }];
   }
 
   private convertProposalPropsArrayToObject(propsArray: Array<any>): AgreementBase {
@@ -435,7 +502,8 @@ export class ArcTransactionAgreementResult extends ArcTransactionResult {
    * so could take a while to return.
    */
   public async getAgreementIdFromMinedTx(): Promise<number> {
-    return this.getValueFromMinedTx("_agreementId");
+    const agreementId = await this.getValueFromMinedTx("_agreementId");
+    return agreementId ? Number(agreementId) : agreementId;
   }
 }
 
@@ -8,10 +8,12 @@ import {
   DecodedLogEntryEvent,
   IContractWrapperFactory,
   IUniversalSchemeWrapper,
+  SimulatedTransactionResult,
   StandardSchemeParams,
 } from "../iContractWrapperBase";
-import { ProposalGeneratorBase } from "../proposalGeneratorBase";
-import { TxGeneratingFunctionOptions } from "../transactionService";
+import { ArcProposalSource, ProposalGeneratorBase } from "../proposalGeneratorBase";
+import { ArcProposalBase, VoteInOrganizationArcProposal } from "../proposalService";
+import { SendOptions, SimulateOptions, TxGeneratingFunctionOptions } from "../transactionService";
 import { EntityFetcherFactory, EventFetcherFactory, Web3EventService } from "../web3EventService";
 import {
   ProposalDeletedEventResult,
@@ -37,10 +39,17 @@ export class VoteInOrganizationSchemeWrapper extends ProposalGeneratorBase {
    * Submit a proposal to vote on a proposal in another DAO.
    * @param options
    */
+  public proposeVoteInOrganization(
+    options?: VoteInOrganizationProposeVoteConfig & SendOptions): Promise<ArcTransactionProposalResult>;
+  public proposeVoteInOrganization(
+    options: VoteInOrganizationProposeVoteConfig & SimulateOptions): Promise<SimulatedTransactionResult>;
+  public proposeVoteInOrganization(
+    options: VoteInOrganizationProposeVoteConfig & TxGeneratingFunctionOptions)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult>;
   public async proposeVoteInOrganization(
-    options: VoteInOrganizationProposeVoteConfig =
-      {} as VoteInOrganizationProposeVoteConfig & TxGeneratingFunctionOptions)
-    : Promise<ArcTransactionProposalResult> {
+    options: VoteInOrganizationProposeVoteConfig & TxGeneratingFunctionOptions =
+      {} as VoteInOrganizationProposeVoteConfig)
+    : Promise<ArcTransactionProposalResult | SimulatedTransactionResult> {
 
     if (!options.avatar) {
       throw new Error("avatar is not defined");
@@ -64,6 +73,10 @@ export class VoteInOrganizationSchemeWrapper extends ProposalGeneratorBase {
       options.originalProposalId]
     );
 
+    if (txResult instanceof SimulatedTransactionResult) {
+      return txResult;
+    }
+
     return new ArcTransactionProposalResult(txResult.tx, this.contract, await this.getVotingMachine(options.avatar));
   }
 
@@ -168,6 +181,28 @@ export class VoteInOrganizationSchemeWrapper extends ProposalGeneratorBase {
     /* tslint:enable:max-line-length */
   }
 
+  /**
+   * VoteInOrganizationScheme deletes its proposals once executed, so we describe them from the events.
+   */
+  protected getArcProposalSources(): Array<ArcProposalSource<NewVoteProposalEventResult>> {
+    return [{
+      proposalsEventFetcher: this.NewVoteProposal,
+      toArcProposal: async (
+        event: DecodedLogEntryEvent<NewVoteProposalEventResult>,
+        proposal: ArcProposalBase): Promise<VoteInOrganizationArcProposal> => {
+        return Object.assign(proposal, {
+          type: "VoteInOrganization",
+          voteProposal: {
+            originalNumOfChoices: event.args._originalNumOfChoices.toNumber(),
+            originalProposalId: event.args._originalProposalId,
+            originalVotingMachineAddress: event.args._originalIntVote,
+            proposalId: event.args._proposalId,
+          },
+        }) as VoteInOrganizationArcProposal;
+      },
+    }];
+  }
+
   private convertProposalPropsArrayToObject(
     propsArray: Array<any>,
     proposalId: Hash): VotableVoteInOrganizationProposal {
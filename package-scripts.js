@@ -122,6 +122,20 @@ module.exports = {
     createGenesisDao: {
       default: `node  ${joinPath(".", "package-scripts", "createGenesisDao.js")}`
     },
+    /**
+     * Create a DAO from a JSON or YAML specification, like:
+     *   npm start "createDao --spec myDao.yml"
+     */
+    createDao: {
+      default: `node  ${joinPath(".", "package-scripts", "createDao.js")}`
+    },
+    /**
+     * Create or propose vesting agreements from a CSV or JSON file, like:
+     *   npm start "createVestingAgreements --scheme <address> --agreements contributors.csv --token <address>"
+     */
+    createVestingAgreements: {
+      default: `node  ${joinPath(".", "package-scripts", "createVestingAgreements.js")}`
+    },
     /**
      * See README.md for how to use these scripts in a workflow to migrate contracts
      */
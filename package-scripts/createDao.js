@@ -0,0 +1,27 @@
+/**
+ * Create a DAO from a JSON or YAML DAO specification:
+ *
+ *   npm start "createDao --spec myDao.yml [--report myDao.deployment.json]"
+ */
+const DaoFromSpecCreator = require("../dist/scripts/createDao.js").DaoFromSpecCreator;
+
+const getArg = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return (index >= 0) ? process.argv[index + 1] : undefined;
+};
+
+const specPath = getArg("spec");
+
+if (!specPath) {
+  console.log("Usage: createDao --spec <file.json|file.yml> [--report <file.json>]");
+  process.exit(1);
+}
+
+new DaoFromSpecCreator(specPath, getArg("report")).run()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((ex) => {
+    console.log(`Error creating DAO: ${ex.message || ex}`);
+    process.exit(1);
+  });
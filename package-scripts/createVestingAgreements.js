@@ -0,0 +1,31 @@
+/**
+ * Create or propose the vesting agreements in a CSV or JSON file:
+ *
+ *   npm start "createVestingAgreements --scheme <address> --agreements contributors.csv --token <address> [--results contributors.results.json]"
+ *   npm start "createVestingAgreements --scheme <address> --agreements contributors.csv --avatar <address> [--results contributors.results.json]"
+ */
+const VestingAgreementsFromFileCreator = require("../dist/scripts/createVestingAgreements.js").VestingAgreementsFromFileCreator;
+
+const getArg = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return (index >= 0) ? process.argv[index + 1] : undefined;
+};
+
+const schemeAddress = getArg("scheme");
+const agreementsPath = getArg("agreements");
+const token = getArg("token");
+const avatar = getArg("avatar");
+
+if (!schemeAddress || !agreementsPath || (!token === !avatar)) {
+  console.log("Usage: createVestingAgreements --scheme <address> --agreements <file.csv|file.json> (--token <address> | --avatar <address>) [--results <file.json>]");
+  process.exit(1);
+}
+
+new VestingAgreementsFromFileCreator(schemeAddress, agreementsPath, { avatar, resultsPath: getArg("results"), token }).run()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((ex) => {
+    console.log(`Error creating vesting agreements: ${ex.message || ex}`);
+    process.exit(1);
+  });
@@ -0,0 +1,135 @@
+import { assert } from "chai";
+import { AccountPortfolio, Claimable } from "../lib/accountPortfolio";
+import { BinaryVoteResult, Hash } from "../lib/commonTypes";
+import { DAO } from "../lib/dao";
+import { ContributionRewardFactory, ContributionRewardWrapper } from "../lib/wrappers/contributionReward";
+import { VestingSchemeFactory, VestingSchemeWrapper } from "../lib/wrappers/vestingScheme";
+import * as helpers from "./helpers";
+
+describe("AccountPortfolio", () => {
+  let dao: DAO;
+  let proposalId: Hash;
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      },
+      {
+        address: accounts[1],
+        reputation: web3.toWei(100),
+        tokens: web3.toWei(50),
+      },
+      ],
+      schemes: [
+        {
+          name: "ContributionReward",
+          votingMachineParams: {
+            votingMachineName: "GenesisProtocol",
+          },
+        },
+      ],
+    });
+
+    const contributionReward = await helpers.getDaoScheme(
+      dao,
+      "ContributionReward",
+      ContributionRewardFactory) as ContributionRewardWrapper;
+
+    const result = await contributionReward.proposeContributionReward({
+      avatar: dao.avatar.address,
+      beneficiaryAddress: accounts[1],
+      description: "A new contribution",
+      nativeTokenReward: web3.toWei(1),
+      numberOfPeriods: 1,
+      periodLength: 0,
+    });
+
+    proposalId = await result.getProposalIdFromMinedTx();
+
+    await helpers.vote(result.votingMachine, proposalId, BinaryVoteResult.Yes, accounts[0]);
+  });
+
+  it("reports balances and claimable rewards", async () => {
+    const portfolio = await AccountPortfolio.get(accounts[1], { avatarAddresses: [dao.avatar.address] });
+
+    assert.equal(portfolio.accountAddress, accounts[1]);
+    assert.equal(portfolio.daos.length, 1);
+
+    const holdings = portfolio.daos[0];
+    assert.equal(holdings.avatarAddress, dao.avatar.address);
+    assert.equal(holdings.daoName, dao.name);
+    assert.equal(web3.fromWei(holdings.reputation).toNumber(), 100);
+    assert.equal(web3.fromWei(holdings.nativeTokens).toNumber(), 50);
+
+    const claimable = holdings.claimables.find((c: Claimable) => c.proposalId === proposalId);
+    assert.isOk(claimable);
+    assert.equal(web3.fromWei(claimable.amounts.nativeToken).toNumber(), 1);
+    assert.equal(claimable.call.contractName, "Redeemer");
+    assert.equal(claimable.call.method, "redeem");
+    assert.deepEqual(claimable.call.options, {
+      avatarAddress: dao.avatar.address,
+      beneficiaryAddress: accounts[1],
+      proposalId,
+    });
+  });
+
+  it("claims a reward", async () => {
+    let portfolio = await AccountPortfolio.get(accounts[1], { avatarAddresses: [dao.avatar.address] });
+    const claimable = portfolio.daos[0].claimables.find((c: Claimable) => c.proposalId === proposalId);
+
+    await (await AccountPortfolio.claim(claimable)).watchForTxMined();
+
+    portfolio = await AccountPortfolio.get(accounts[1], { avatarAddresses: [dao.avatar.address] });
+    assert.equal(web3.fromWei(portfolio.daos[0].nativeTokens).toNumber(), 51);
+    assert.isUndefined(portfolio.daos[0].claimables.find((c: Claimable) => c.proposalId === proposalId));
+  });
+
+  it("reports agreements made directly with a VestingScheme", async () => {
+    const vestingDao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      }],
+      schemes: [{
+        name: "VestingScheme",
+        votingMachineParams: {
+          ownerVote: false,
+        },
+      }],
+    });
+
+    const vestingScheme = await helpers.getDaoScheme(
+      vestingDao,
+      "VestingScheme",
+      VestingSchemeFactory) as VestingSchemeWrapper;
+
+    const result = await vestingScheme.create({
+      amountPerPeriod: web3.toWei(10),
+      beneficiaryAddress: accounts[1],
+      cliffInPeriods: 0,
+      numOfAgreedPeriods: 3,
+      periodLength: 1,
+      returnOnCancelAddress: helpers.SOME_ADDRESS,
+      signaturesReqToCancel: 1,
+      signers: [accounts[0]],
+      token: vestingDao.token.address,
+    });
+
+    const agreementId = await result.getAgreementIdFromMinedTx();
+    // let some periods pass
+    await helpers.increaseTime(1);
+
+    const portfolio = await AccountPortfolio.get(accounts[1], { avatarAddresses: [vestingDao.avatar.address] });
+    const claimable = portfolio.daos[0].claimables.find((c: Claimable) => c.agreementId === agreementId);
+
+    assert.isOk(claimable);
+    assert.isUndefined(claimable.proposalId);
+    assert(claimable.amounts.externalToken.gt(0));
+    assert.equal(claimable.call.contractName, "VestingScheme");
+    assert.equal(claimable.call.method, "collect");
+  });
+});
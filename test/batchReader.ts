@@ -0,0 +1,109 @@
+"use strict";
+import { assert } from "chai";
+import { BatchingProvider, BatchReader } from "../lib/batchReader";
+import { Utils } from "../lib/utils";
+import { DaoTokenWrapper } from "../lib/wrappers/daoToken";
+import "./helpers";
+
+describe("BatchReader", () => {
+
+  let genToken: DaoTokenWrapper;
+
+  beforeEach(async () => {
+    genToken = await DaoTokenWrapper.getGenToken();
+  });
+
+  it("returns the same results as unbatched reads", async () => {
+
+    const expectedBalances = await Promise.all(accounts.map((account: string) => genToken.getBalanceOf(account)));
+    const expectedName = await genToken.getTokenName();
+
+    const reader = new BatchReader();
+    const balances = accounts.map((account: string) => reader.add(() => genToken.getBalanceOf(account)));
+    const name = reader.add(() => genToken.getTokenName());
+
+    await reader.execute();
+
+    assert.equal(await name, expectedName);
+    for (let i = 0; i < accounts.length; ++i) {
+      assert((await balances[i]).eq(expectedBalances[i]), `balance of ${accounts[i]} is wrong`);
+    }
+  });
+
+  it("sends the reads as a single batch", async () => {
+
+    const web3 = await Utils.getWeb3();
+    const provider = web3.currentProvider as any;
+    const originalSendAsync = provider.sendAsync;
+    let batches = 0;
+    let requests = 0;
+
+    provider.sendAsync = (payload: any, callback: any): void => {
+      if (Array.isArray(payload)) {
+        ++batches;
+      } else {
+        ++requests;
+      }
+      return originalSendAsync.call(provider, payload, callback);
+    };
+
+    try {
+      await new BatchReader().run(() =>
+        Promise.all(accounts.map((account: string) => genToken.getBalanceOf(account))));
+    } finally {
+      provider.sendAsync = originalSendAsync;
+    }
+
+    assert.equal(batches, 1);
+    assert.equal(requests, 0);
+  });
+
+  it("doesn't batch reads made at the same time by other code", async () => {
+
+    const web3 = await Utils.getWeb3();
+    const provider = web3.currentProvider as any;
+    const originalSendAsync = provider.sendAsync;
+    let batches = 0;
+    let requests = 0;
+
+    provider.sendAsync = (payload: any, callback: any): void => {
+      if (Array.isArray(payload)) {
+        ++batches;
+      } else {
+        ++requests;
+      }
+      return originalSendAsync.call(provider, payload, callback);
+    };
+
+    try {
+      await Promise.all([
+        new BatchReader().run(() =>
+          Promise.all(accounts.map((account: string) => genToken.getBalanceOf(account)))),
+        genToken.getTokenName(),
+      ]);
+    } finally {
+      provider.sendAsync = originalSendAsync;
+    }
+
+    assert.equal(batches, 1);
+    assert.equal(requests, 1);
+  });
+
+  it("propagates errors to the function that made the request", async () => {
+
+    const reader = new BatchReader();
+    const balance = reader.add(() => genToken.getBalanceOf(accounts[0]));
+    const failure = reader.add(() => Promise.reject(new Error("expected failure")));
+
+    await reader.execute();
+
+    assert.isOk(await balance);
+    try {
+      await failure;
+      assert.fail("should have thrown");
+    } catch (ex) {
+      assert.equal(ex.message, "expected failure");
+    }
+    assert.equal(BatchingProvider.batching, 0);
+  });
+});
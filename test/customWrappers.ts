@@ -0,0 +1,102 @@
+import { assert } from "chai";
+import { IContractWrapper, IContractWrapperFactory } from "../lib/iContractWrapperBase";
+import { Utils } from "../lib/utils";
+import {
+  GlobalConstraintRegistrarFactory,
+  GlobalConstraintRegistrarWrapper
+} from "../lib/wrappers/globalConstraintRegistrar";
+import { WrapperService } from "../lib/wrapperService";
+import * as helpers from "./helpers";
+
+describe("Custom wrappers", () => {
+  let factory: IContractWrapperFactory<IContractWrapper>;
+  let customGC: IContractWrapper;
+
+  before(async () => {
+    /**
+     * stand in for a custom global constraint using a copy of TokenCapGC under another name
+     */
+    const tokenCapGC = await Utils.requireContract("TokenCapGC");
+    const artifact = { abi: tokenCapGC.abi, bytecode: tokenCapGC.bytecode };
+
+    const deployed = await (await WrapperService.registerWrapper({
+      artifact,
+      name: "MyTokenCapGC",
+      type: "globalConstraints",
+    })).new();
+
+    factory = await WrapperService.registerWrapper({
+      addresses: [deployed.address],
+      artifact,
+      friendlyName: "My Token Cap",
+      name: "MyTokenCapGC",
+      parametersCodec: {
+        decode: (values: Array<any>): any => ({ cap: values[1], token: values[0] }),
+        encode: (params: any): Array<any> => [params.token, params.cap],
+      },
+      type: "globalConstraints",
+    });
+
+    customGC = WrapperService.wrappersByAddress.get(deployed.address);
+  });
+
+  it("adds registered wrappers to the WrapperService", async () => {
+    assert.isOk(customGC);
+    assert.equal(customGC.name, "MyTokenCapGC");
+    assert.equal(customGC.friendlyName, "My Token Cap");
+    assert.equal(WrapperService.customFactories.get("MyTokenCapGC"), factory);
+    assert.notProperty(WrapperService.factories, "MyTokenCapGC");
+    assert.include(WrapperService.wrappersByType.globalConstraints, customGC);
+    assert.include(WrapperService.wrappersByType.allWrappers, customGC);
+    assert.equal((await WrapperService.getContractWrapper("MyTokenCapGC", customGC.address)).name, "MyTokenCapGC");
+  });
+
+  it("refuses the name of an Arc.js wrapper", async () => {
+    try {
+      await WrapperService.registerWrapper({
+        artifact: { abi: [] },
+        name: "TokenCapGC",
+        type: "globalConstraints",
+      });
+      assert.fail("should have thrown");
+    } catch (ex) {
+      assert.equal(ex.message, "TokenCapGC is already the name of an Arc.js wrapper");
+    }
+  });
+
+  it("can propose a registered global constraint with its parameters", async () => {
+    const dao = await helpers.forgeDao();
+
+    const globalConstraintRegistrar = await helpers.getDaoScheme(
+      dao,
+      "GlobalConstraintRegistrar",
+      GlobalConstraintRegistrarFactory) as GlobalConstraintRegistrarWrapper;
+
+    const votingMachineHash = await helpers.getSchemeVotingMachineParametersHash(dao, globalConstraintRegistrar);
+    const votingMachine = await helpers.getSchemeVotingMachine(dao, globalConstraintRegistrar);
+
+    const proposal = {
+      avatar: dao.avatar.address,
+      // the wrapper is found whatever the case of the address
+      globalConstraint: `0x${customGC.address.slice(2).toUpperCase()}`,
+      globalConstraintParameters: { cap: web3.toWei(1000000), token: dao.token.address },
+      votingMachineHash,
+    };
+
+    const simulated = await globalConstraintRegistrar.proposeToAddModifyGlobalConstraint(
+      Object.assign({ simulate: true as true }, proposal));
+    assert(simulated.succeeded);
+
+    const result = await globalConstraintRegistrar.proposeToAddModifyGlobalConstraint(proposal);
+
+    await helpers.vote(votingMachine, await result.getProposalIdFromMinedTx(), 1, accounts[1]);
+
+    const gcs = await dao.getGlobalConstraints("MyTokenCapGC");
+    assert.equal(gcs.length, 1);
+    assert.equal(gcs[0].wrapper, customGC);
+
+    const params = await (gcs[0].wrapper as any).getParameters(gcs[0].paramsHash);
+    assert.equal(params.token, dao.token.address);
+    assert.equal(web3.fromWei(params.cap.toString()), "1000000");
+  });
+});
@@ -1,6 +1,7 @@
 import { assert } from "chai";
 import { Address, SchemePermissions } from "../lib/commonTypes";
 import { DAO, NewDaoConfig, Participant, PerDaoCallback } from "../lib/dao";
+import { DaoSpecScheme, DaoSpecService } from "../lib/daoSpecService";
 import { Utils } from "../lib/utils";
 import {
   GlobalConstraintRegistrarFactory,
@@ -512,4 +513,36 @@ describe("DAO", () => {
     assert.equal((await dao.getGlobalConstraints()).length, 0);
     assert.equal((await dao.controller.globalConstraintsCount(dao.avatar.address))[1].toNumber(), 0);
   });
+
+  it("can export a DAO to a spec from which it can be reproduced", async () => {
+
+    const dao = await helpers.forgeDao({
+      schemes: [
+        { name: "SchemeRegistrar" },
+        { name: "ContributionReward", orgNativeTokenFee: web3.toWei(2), votingMachineParams: { votePerc: 30 } },
+      ],
+    });
+
+    const spec = await DAO.exportSpec(dao.avatar.address);
+
+    assert.deepEqual(DaoSpecService.validate(spec), []);
+    assert.equal(spec.name, "ArcJsTestDao");
+    assert.equal(spec.founders.length, 3);
+    assert.equal(spec.founders[0].reputation, "1000");
+    assert.equal(spec.founders[0].tokens, "100");
+
+    const contributionReward = spec.schemes.find((scheme: DaoSpecScheme) => scheme.name === "ContributionReward");
+    assert.isOk(contributionReward);
+    assert.equal(contributionReward.orgNativeTokenFee, web3.toWei(2));
+    assert.equal(contributionReward.votingMachineParams.votingMachineName, "AbsoluteVote");
+    assert.equal(contributionReward.votingMachineParams.votePerc, 30);
+
+    const copy = await DAO.at((await DaoSpecService.deploy(spec)).avatar);
+
+    assert.equal((await copy.getSchemes()).length, 2);
+    assert.equal((await copy.getParticipants()).length, 3);
+    const copiedContributionReward = (await copy.getSchemes("ContributionReward"))[0].wrapper as any;
+    assert((await copiedContributionReward.getSchemeParameters(copy.avatar.address)).orgNativeTokenFee
+      .eq(web3.toWei(2)));
+  });
 });
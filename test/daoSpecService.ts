@@ -0,0 +1,82 @@
+"use strict";
+import { assert } from "chai";
+import { SchemePermissions } from "../lib/commonTypes";
+import { DAO } from "../lib/dao";
+import { DaoSpec, DaoSpecService, DaoSpecValidationError } from "../lib/daoSpecService";
+import "./helpers";
+
+describe("DaoSpecService", () => {
+
+  const getYaml = (): string => `
+specVersion: 1
+name: Spec DAO
+tokenName: Spec Token
+tokenSymbol: SPT
+founders:
+  - address: "${accounts[0]}"
+    tokens: 100
+    reputation: 1000
+schemes:
+  - name: SchemeRegistrar
+  - name: GlobalConstraintRegistrar
+  - name: UpgradeScheme
+    permissions: [CanCallDelegateCall]
+globalConstraints:
+  - name: TokenCapGC
+    params:
+      cap: 2000
+`;
+
+  it("reports readable validation errors", () => {
+
+    const spec = {
+      founders: [{ address: "0x123", tokens: -1, reputation: 10 }],
+      name: "Bad DAO",
+      schemes: [
+        { name: "ContributionRewards" },
+        { name: "UpgradeScheme", permissions: ["CanFly"] },
+        { name: "ContributionReward", orgNativeTokenFee: 0, votingMachineParam: { ownerVote: false } },
+      ],
+      specVersion: 2,
+      tokenSymbol: "BAD",
+      tokenname: "typo",
+    } as any as DaoSpec;
+
+    const errors = DaoSpecService.validate(spec);
+
+    assert.includeMembers(errors, [
+      "tokenname: is not a recognized property",
+      "specVersion: must be one of 1",
+      "tokenName: is required",
+      "founders[0].address: must be an address",
+      "founders[0].tokens: must be a non-negative number",
+      "schemes[2].votingMachineParam: is not a recognized property",
+    ]);
+    assert(!errors.some((error: string) => error.startsWith("schemes[2].orgNativeTokenFee")));
+    assert(errors.some((error: string) => error.startsWith(`schemes[0].name: "ContributionRewards" is not`)));
+    assert(errors.some((error: string) => error.startsWith("schemes[1].permissions:")));
+
+    assert.throws(() => DaoSpecService.assertValid(spec), DaoSpecValidationError);
+
+    assert.deepEqual(DaoSpecService.validate(DaoSpecService.parse(getYaml())), []);
+  });
+
+  it("creates a DAO from a YAML spec", async () => {
+
+    const report = await DaoSpecService.deploy(DaoSpecService.parse(getYaml()));
+
+    const dao = await DAO.at(report.avatar);
+
+    assert.equal(dao.name, "Spec DAO");
+    assert.equal(report.token, dao.token.address);
+    assert.equal(report.schemes.length, 3);
+    assert((await dao.getTokenBalance(accounts[0])).eq(web3.toWei(100)));
+
+    const upgradeScheme = report.schemes.find((scheme: { name?: string }) => scheme.name === "UpgradeScheme");
+    /* tslint:disable-next-line:no-bitwise */
+    assert(SchemePermissions.fromString(upgradeScheme.permissions) & SchemePermissions.CanCallDelegateCall);
+
+    assert.equal(report.globalConstraintProposals.length, 1);
+    assert.isOk(report.globalConstraintProposals[0].proposalId);
+  });
+});
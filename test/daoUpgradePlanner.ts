@@ -0,0 +1,67 @@
+"use strict";
+import { assert } from "chai";
+import { DAO } from "../lib/dao";
+import { DaoUpgradePlanner, DaoUpgradePlanStep, DaoUpgradeTarget } from "../lib/daoUpgradePlanner";
+import { WrapperService } from "../lib/wrapperService";
+import * as helpers from "./helpers";
+
+describe("DaoUpgradePlanner", () => {
+
+  let dao: DAO;
+
+  const target: DaoUpgradeTarget = {
+    globalConstraints: [{ name: "TokenCapGC", params: { cap: 5000 } }],
+    schemes: [
+      { name: "SchemeRegistrar" },
+      { name: "GlobalConstraintRegistrar" },
+      { name: "ContributionReward", votingMachineParams: { votePerc: 45 } },
+    ],
+  };
+
+  beforeEach(async () => {
+    dao = await helpers.forgeDao();
+  });
+
+  it("computes the differences and the proposals to resolve them", async () => {
+
+    const plan = await DaoUpgradePlanner.plan(dao.avatar.address, target);
+
+    assert.deepEqual(plan.problems, []);
+    assert.deepEqual(plan.diff.addedSchemes.map((s: { name?: string }) => s.name), ["ContributionReward"]);
+    assert.deepEqual(plan.diff.removedSchemes.map((s: { name?: string }) => s.name), ["UpgradeScheme"]);
+    assert.equal(plan.diff.modifiedSchemes.length, 0);
+    assert.equal(plan.diff.addedGlobalConstraints.length, 1);
+    assert.equal(plan.diff.addedGlobalConstraints[0].address, WrapperService.wrappers.TokenCapGC.address);
+
+    const proposals = plan.steps.filter((step: DaoUpgradePlanStep) => step.isProposal);
+    assert.deepEqual(proposals.map((step: DaoUpgradePlanStep) => step.functionName), [
+      "proposeToAddModifyScheme",
+      "proposeToAddModifyGlobalConstraint",
+      "proposeToRemoveScheme",
+    ]);
+
+    // parameters are registered before proposing
+    assert(plan.steps.findIndex((step: DaoUpgradePlanStep) => step.isProposal) >
+      plan.steps.findIndex((step: DaoUpgradePlanStep) => step.functionName === "setParameters"));
+  });
+
+  it("reaches the target when the proposals pass", async () => {
+
+    const results = await DaoUpgradePlanner.execute(await DaoUpgradePlanner.plan(dao.avatar.address, target));
+
+    const schemeRegistrar = WrapperService.wrappers.SchemeRegistrar;
+    const votingMachine = await helpers.getSchemeVotingMachine(dao, schemeRegistrar);
+
+    for (const result of results.filter((r: { proposalId?: string }) => r.proposalId)) {
+      await helpers.vote(votingMachine, result.proposalId, 1, accounts[1]);
+    }
+
+    assert.equal((await dao.getSchemes("ContributionReward")).length, 1);
+    assert.equal((await dao.getSchemes("UpgradeScheme")).length, 0);
+    assert.equal((await dao.getGlobalConstraints()).length, 1);
+
+    const plan = await DaoUpgradePlanner.plan(dao.avatar.address, target);
+
+    assert.equal(plan.steps.length, 0);
+  });
+});
@@ -0,0 +1,88 @@
+"use strict";
+import { BigNumber } from "bignumber.js";
+import { assert } from "chai";
+import { DecodedLogEntryEvent } from "web3";
+import { CachedEvents, InMemoryEventCacheStore, JsonFileEventCacheStore } from "../lib/eventCache";
+import { Utils } from "../lib/utils";
+import { UtilsInternal } from "../lib/utilsInternal";
+import { Web3EventService } from "../lib/web3EventService";
+import { ApprovalEventResult, StandardTokenFactory, StandardTokenWrapper } from "../lib/wrappers/standardToken";
+import "./helpers";
+
+describe("EventCache", () => {
+
+  let token: StandardTokenWrapper;
+
+  const approve = async (amount: number): Promise<void> => {
+    await (await token.approve({
+      amount: web3.toWei(amount),
+      owner: accounts[5],
+      spender: accounts[1],
+    })).watchForTxMined();
+  };
+
+  beforeEach(async () => {
+    token = await StandardTokenFactory.at(await Utils.getGenTokenAddress());
+  });
+
+  afterEach(() => {
+    Web3EventService.setEventCacheStore(undefined);
+  });
+
+  it("fetches only new events after caching", async () => {
+
+    const store = new InMemoryEventCacheStore();
+    Web3EventService.setEventCacheStore(store);
+
+    const fromBlock = await UtilsInternal.lastBlockNumber();
+
+    await approve(1);
+
+    let events = await token.Approval({ owner: accounts[5] }, { fromBlock }).get();
+    assert.equal(events.length, 1);
+
+    const fetchedBlocks = new Array<number>();
+    await approve(2);
+
+    events = await token.Approval({ owner: accounts[5] }, {
+      fromBlock,
+      onProgress: (progress: any): void => { fetchedBlocks.push(progress.fromBlock); },
+    }).get();
+
+    assert.equal(events.length, 2);
+    assert(events[1].args.value.eq(web3.toWei(2)));
+    assert(fetchedBlocks.length > 0);
+    assert(fetchedBlocks[0] > fromBlock, "should not have fetched the cached blocks again");
+
+    const uncachedEvents = await token.Approval({ owner: accounts[5] }, { fromBlock, cache: false }).get();
+    assert.deepEqual(
+      events.map((event: DecodedLogEntryEvent<ApprovalEventResult>) => event.transactionHash),
+      uncachedEvents.map((event: DecodedLogEntryEvent<ApprovalEventResult>) => event.transactionHash));
+  });
+
+  it("JsonFileEventCacheStore preserves BigNumbers", async () => {
+
+    /* tslint:disable-next-line:no-var-requires */
+    const store = new JsonFileEventCacheStore(require("path").join(require("os").tmpdir(), "arcjs-eventCache"));
+
+    const cachedEvents: CachedEvents = {
+      events: [{ args: { _amount: new BigNumber(10), _amounts: [new BigNumber(20)], _to: accounts[0] } } as any],
+      fromBlock: 0,
+      key: "test",
+      lastSyncedBlock: 1,
+      lastSyncedBlockHash: "0x1",
+      networkId: 1,
+    };
+
+    await store.set(cachedEvents);
+
+    const restored = await store.get("test");
+    assert.isOk(restored);
+    assert(restored.events[0].args._amount.eq(10));
+    assert(restored.events[0].args._amounts[0].eq(20));
+    assert.equal(restored.events[0].args._to, accounts[0]);
+
+    await store.clear();
+    assert.isUndefined(await store.get("test"));
+  });
+});
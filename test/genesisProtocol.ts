@@ -2,7 +2,7 @@ import { BigNumber } from "bignumber.js";
 import { assert } from "chai";
 import { Address, BinaryVoteResult, Hash } from "../lib/commonTypes";
 import { DAO, DaoSchemeInfo } from "../lib/dao";
-import { ArcTransactionResult } from "../lib/iContractWrapperBase";
+import { ArcTransactionResult, SimulatedTransactionResult } from "../lib/iContractWrapperBase";
 import { TransactionReceiptsEventInfo, TransactionService } from "../lib/transactionService";
 import { Utils } from "../lib/utils";
 import { UtilsInternal } from "../lib/utilsInternal";
@@ -489,6 +489,41 @@ describe("GenesisProtocol", () => {
     assert.equal(eventsReceived.length, 3, "didn't receive the right number of txTracking events");
   });
 
+  it("can simulate stake together with its approval", async () => {
+    const proposalId = await createProposal();
+    const amountStaked = await sufficientStake(proposalId, 10);
+    const stakingToken = await genesisProtocol.getStakingToken();
+    const eventsReceived = new Array<string>();
+
+    const subscription = TransactionService.subscribe("TxTracking",
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        eventsReceived.push(topic);
+      });
+
+    let result: SimulatedTransactionResult;
+
+    try {
+      result = await genesisProtocol.stake({
+        amount: amountStaked,
+        proposalId,
+        simulate: true,
+        vote: 1,
+      });
+    } finally {
+      await subscription.unsubscribe(0);
+    }
+
+    assert(result.succeeded, `simulated stake failed: ${result.revertReason || result.error}`);
+    assert.isOk(result.events.find((event: any) => event.event === "Stake"));
+    assert.isUndefined(result.revertSnapshotError);
+    assert.equal(eventsReceived.length, 0, "received txTracking events");
+
+    const status = await genesisProtocol.getProposalStatus({ proposalId });
+    assert(status.totalStaked.eq(0), "the stake was not reverted");
+    assert((await stakingToken.allowance({ owner: accounts[0], spender: genesisProtocol.address })).eq(0),
+      "the approval was not reverted");
+  });
+
   it("can call vote", async () => {
     const proposalId = await createProposal();
     const result = await voteProposal(proposalId, 1);
@@ -0,0 +1,89 @@
+import { assert } from "chai";
+import { DAO } from "../lib/dao";
+import { GlobalConstraintSimulator } from "../lib/globalConstraintSimulator";
+import {
+  GlobalConstraintRegistrarFactory,
+  GlobalConstraintRegistrarWrapper
+} from "../lib/wrappers/globalConstraintRegistrar";
+import { WrapperService } from "../lib/wrapperService";
+import * as helpers from "./helpers";
+
+describe("GlobalConstraintSimulator", () => {
+  let dao: DAO;
+
+  before(async () => {
+    dao = await helpers.forgeDao();
+
+    const tokenCapGC = await WrapperService.wrappers.TokenCapGC;
+    const totalSupply = await dao.token.getTotalSupply();
+
+    const globalConstraintParametersHash = (await tokenCapGC.setParameters({
+      cap: totalSupply.add(web3.toWei(5)),
+      token: dao.token.address,
+    })).result;
+
+    const globalConstraintRegistrar = await helpers.getDaoScheme(
+      dao,
+      "GlobalConstraintRegistrar",
+      GlobalConstraintRegistrarFactory) as GlobalConstraintRegistrarWrapper;
+
+    const votingMachineHash = await helpers.getSchemeVotingMachineParametersHash(dao, globalConstraintRegistrar);
+    const votingMachine = await helpers.getSchemeVotingMachine(dao, globalConstraintRegistrar);
+
+    const result = await globalConstraintRegistrar.proposeToAddModifyGlobalConstraint({
+      avatar: dao.avatar.address,
+      globalConstraint: tokenCapGC.address,
+      globalConstraintParametersHash,
+      votingMachineHash,
+    });
+
+    await helpers.vote(votingMachine, await result.getProposalIdFromMinedTx(), 1, accounts[1]);
+  });
+
+  it("allows a ContributionReward within the cap", async () => {
+    const simulation = await GlobalConstraintSimulator.simulate({
+      action: {
+        nativeTokenReward: web3.toWei(2),
+        numberOfPeriods: 2,
+        type: "ContributionReward",
+      },
+      avatarAddress: dao.avatar.address,
+    });
+
+    assert.isTrue(simulation.allowed);
+    assert.equal(web3.fromWei(simulation.nativeTokenAmount).toNumber(), 4);
+    assert(simulation.projectedTotalSupply.eq(simulation.totalSupply.add(web3.toWei(4))));
+    assert.equal(simulation.violations.length, 0);
+    assert.equal(simulation.unpredictable.length, 0);
+  });
+
+  it("predicts that a ContributionReward over the cap would be rejected", async () => {
+    const simulation = await GlobalConstraintSimulator.simulate({
+      action: {
+        nativeTokenReward: web3.toWei(2),
+        numberOfPeriods: 3,
+        type: "ContributionReward",
+      },
+      avatarAddress: dao.avatar.address,
+    });
+
+    assert.isFalse(simulation.allowed);
+    assert.equal(simulation.violations.length, 1);
+    assert.equal(simulation.violations[0].name, "TokenCapGC");
+    assert.equal(simulation.violations[0].phase, "post");
+    assert.equal(simulation.violations[0].tokenAddress, dao.token.address);
+  });
+
+  it("predicts that minting over the cap would be rejected", async () => {
+    const simulation = await GlobalConstraintSimulator.simulate({
+      action: {
+        amount: web3.toWei(6),
+        type: "MintTokens",
+      },
+      avatarAddress: dao.avatar.address,
+    });
+
+    assert.isFalse(simulation.allowed);
+    assert.equal(simulation.violations[0].name, "TokenCapGC");
+  });
+});
@@ -0,0 +1,70 @@
+import { assert } from "chai";
+import { promisify } from "es6-promisify";
+import { Address } from "../lib/commonTypes";
+import { NonceService } from "../lib/nonceService";
+import { Utils } from "../lib/utils";
+import * as helpers from "./helpers";
+
+describe("NonceService", () => {
+
+  let account: Address;
+  let pendingCount: number;
+
+  beforeEach(async () => {
+    NonceService.clear();
+    const web3 = await Utils.getWeb3();
+    account = accounts[0];
+    pendingCount = Number(await promisify((callback: any): void =>
+      web3.eth.getTransactionCount(account, "pending", callback))());
+  });
+
+  afterEach(() => {
+    NonceService.clear();
+  });
+
+  it("reserves distinct consecutive nonces concurrently", async () => {
+    const nonces = await Promise.all([
+      NonceService.reserve(account),
+      NonceService.reserve(account),
+      NonceService.reserve(account),
+    ]);
+
+    assert.deepEqual(nonces, [pendingCount, pendingCount + 1, pendingCount + 2]);
+
+    const state = NonceService.getState(account)[0];
+    assert.equal(state.nextNonce, pendingCount + 3);
+    assert.deepEqual(state.reservedNonces, nonces);
+  });
+
+  it("reuses released nonces", async () => {
+    const first = await NonceService.reserve(account);
+    const second = await NonceService.reserve(account);
+
+    NonceService.release(account, first);
+
+    let state = NonceService.getState(account)[0];
+    assert.deepEqual(state.releasedNonces, [first]);
+    assert.deepEqual(state.reservedNonces, [second]);
+
+    assert.equal(await NonceService.reserve(account), first);
+
+    NonceService.markSent(account, first, helpers.NULL_HASH);
+    NonceService.markSent(account, second, helpers.SOME_HASH);
+
+    state = NonceService.getState(account)[0];
+    assert.equal(state.reservedNonces.length, 0);
+    assert.equal(state.lastSentNonce, second);
+    assert.equal(state.lastSentTx, helpers.SOME_HASH);
+  });
+
+  it("resyncs with the node once nothing is reserved", async () => {
+    const nonce = await NonceService.reserve(account);
+    NonceService.release(account, nonce);
+
+    const state = NonceService.getState(account)[0];
+    assert.isUndefined(state.nextNonce);
+    assert.equal(state.releasedNonces.length, 0);
+
+    assert.equal(await NonceService.reserve(account), pendingCount);
+  });
+});
@@ -0,0 +1,95 @@
+import { assert } from "chai";
+import { Hash } from "../lib/commonTypes";
+import { DAO, DaoSchemeInfo } from "../lib/dao";
+import {
+  ExecutableReason,
+  ProposalExecutionReport,
+  ProposalKeeper
+} from "../lib/proposalKeeper";
+import { PubSubEventService } from "../lib/pubSubEventService";
+import { ContributionRewardWrapper } from "../lib/wrappers/contributionReward";
+import { GenesisProtocolWrapper, ProposalState } from "../lib/wrappers/genesisProtocol";
+import { WrapperService } from "../lib/wrapperService";
+import * as helpers from "./helpers";
+
+describe("ProposalKeeper", () => {
+  let dao: DAO;
+  let genesisProtocol: GenesisProtocolWrapper;
+  let contributionReward: ContributionRewardWrapper;
+
+  const createProposal = async (): Promise<Hash> => {
+    const result = await contributionReward.proposeContributionReward({
+      avatar: dao.avatar.address,
+      beneficiaryAddress: helpers.SOME_ADDRESS,
+      description: "A new contribution",
+      numberOfPeriods: 1,
+      periodLength: 1,
+      reputationChange: "1",
+    });
+    return result.getProposalIdFromMinedTx();
+  };
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      schemes: [
+        {
+          name: "ContributionReward",
+          votingMachineParams: {
+            votingMachineName: "GenesisProtocol",
+          },
+        },
+      ],
+    });
+
+    const scheme = await dao.getSchemes("ContributionReward") as Array<DaoSchemeInfo>;
+    contributionReward = scheme[0].wrapper as ContributionRewardWrapper;
+    genesisProtocol = await WrapperService.factories.GenesisProtocol.at(
+      await contributionReward.getVotingMachineAddress(dao.avatar.address));
+  });
+
+  it("executes only expired proposals", async () => {
+    const expiredProposalId = await createProposal();
+
+    const proposal = await genesisProtocol.getProposal(expiredProposalId);
+    const params = await genesisProtocol.getParameters(proposal.paramsHash);
+    await helpers.increaseTime(params.preBoostedVotePeriodLimit + 1);
+
+    const pendingProposalId = await createProposal();
+
+    const keeper = new ProposalKeeper({ avatarAddresses: [dao.avatar.address], speedUpAfter: 0 });
+    const published = new Array<ProposalExecutionReport>();
+
+    const subscription = PubSubEventService.subscribe(ProposalKeeper.ExecutionEventTopic,
+      (topic: string, execution: ProposalExecutionReport): void => {
+        published.push(execution);
+      });
+
+    try {
+      const checking = keeper.check();
+      // a check while another is underway shares it rather than executing the proposal again
+      assert.strictEqual(keeper.check(), checking);
+      const report = await checking;
+
+      assert.equal(report.executions.length, 1);
+      const execution = report.executions[0];
+      assert.equal(execution.proposalId, expiredProposalId);
+      assert.equal(execution.reason, ExecutableReason.PreBoostedPhaseExpired);
+      assert.isTrue(execution.succeeded);
+      assert.isOk(execution.tx);
+      assert.equal(execution.attempt, 1);
+
+      assert.notEqual(await genesisProtocol.getState({ proposalId: expiredProposalId }), ProposalState.PreBoosted);
+      assert.equal(await genesisProtocol.getState({ proposalId: pendingProposalId }), ProposalState.PreBoosted);
+
+      await helpers.sleep(50);
+      assert.equal(published.length, 1);
+      assert.equal(published[0].proposalId, expiredProposalId);
+    } finally {
+      await subscription.unsubscribe();
+    }
+  });
+
+  it("requires avatarAddresses", () => {
+    assert.throws(() => new ProposalKeeper({ avatarAddresses: [] }), "avatarAddresses is not defined");
+  });
+});
@@ -0,0 +1,146 @@
+import { assert } from "chai";
+import { BinaryVoteResult } from "../lib/commonTypes";
+import { DAO } from "../lib/dao";
+import {
+  ArcProposal,
+  ArcProposalState,
+  ProposalService,
+  SchemeRegistrarArcProposal
+} from "../lib/proposalService";
+import { Utils } from "../lib/utils";
+import { ContributionRewardFactory, ContributionRewardWrapper } from "../lib/wrappers/contributionReward";
+import { SchemeRegistrarFactory, SchemeRegistrarWrapper } from "../lib/wrappers/schemeRegistrar";
+import * as helpers from "./helpers";
+
+describe("ProposalService", () => {
+  let dao: DAO;
+  let contributionReward: ContributionRewardWrapper;
+  let schemeRegistrar: SchemeRegistrarWrapper;
+  let executedProposalId: string;
+  let votableProposalId: string;
+  let schemeProposalId: string;
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      schemes: [
+        { name: "ContributionReward" },
+        { name: "SchemeRegistrar" },
+      ],
+    });
+
+    contributionReward = await helpers.getDaoScheme(
+      dao,
+      "ContributionReward",
+      ContributionRewardFactory) as ContributionRewardWrapper;
+
+    schemeRegistrar = await helpers.getDaoScheme(
+      dao,
+      "SchemeRegistrar",
+      SchemeRegistrarFactory) as SchemeRegistrarWrapper;
+
+    const proposeReward = async (): Promise<string> => {
+      const result = await contributionReward.proposeContributionReward({
+        avatar: dao.avatar.address,
+        beneficiaryAddress: accounts[1],
+        description: "A new contribution",
+        nativeTokenReward: web3.toWei(1),
+        numberOfPeriods: 1,
+        periodLength: 1,
+      });
+      return result.getProposalIdFromMinedTx();
+    };
+
+    executedProposalId = await proposeReward();
+    votableProposalId = await proposeReward();
+
+    await helpers.vote(
+      await contributionReward.getVotingMachine(dao.avatar.address),
+      executedProposalId,
+      BinaryVoteResult.Yes,
+      accounts[1]);
+
+    const schemeResult = await schemeRegistrar.proposeToAddModifyScheme({
+      avatar: dao.avatar.address,
+      schemeAddress: contributionReward.address,
+      schemeName: "ContributionReward",
+      schemeParametersHash: Utils.NULL_HASH,
+    });
+    schemeProposalId = await schemeResult.getProposalIdFromMinedTx();
+  });
+
+  it("gets the proposals of all of the DAO's schemes", async () => {
+    const proposals = await ProposalService.getProposals({ avatarAddress: dao.avatar.address });
+
+    assert.equal(proposals.length, 3);
+    assert.deepEqual(proposals.map((p: ArcProposal) => p.proposalId),
+      [executedProposalId, votableProposalId, schemeProposalId]);
+
+    const executed = proposals[0];
+    assert.equal(executed.type, "ContributionReward");
+    assert.equal(executed.state, ArcProposalState.Executed);
+    assert.equal(executed.winningVote, BinaryVoteResult.Yes);
+    assert.equal(executed.schemeAddress, contributionReward.address);
+    assert.equal(executed.proposerAddress, accounts[0]);
+    if (executed.type === "ContributionReward") {
+      assert.equal(executed.contribution.beneficiaryAddress, accounts[1]);
+    }
+
+    assert.equal(proposals[1].state, ArcProposalState.Votable);
+    assert.isUndefined(proposals[1].winningVote);
+
+    const schemeProposal = proposals[2] as SchemeRegistrarArcProposal;
+    assert.equal(schemeProposal.type, "AddScheme");
+    assert.equal(schemeProposal.schemeName, "SchemeRegistrar");
+    assert.equal(schemeProposal.schemeProposal.parametersHash, Utils.NULL_HASH);
+  });
+
+  it("filters by scheme", async () => {
+    let proposals = await ProposalService.getProposals({
+      avatarAddress: dao.avatar.address,
+      schemes: ["SchemeRegistrar"],
+    });
+
+    assert.deepEqual(proposals.map((p: ArcProposal) => p.proposalId), [schemeProposalId]);
+
+    proposals = await ProposalService.getProposals({
+      avatarAddress: dao.avatar.address,
+      schemes: [contributionReward.address],
+    });
+
+    assert.deepEqual(proposals.map((p: ArcProposal) => p.proposalId), [executedProposalId, votableProposalId]);
+  });
+
+  it("filters by state", async () => {
+    const proposals = await ProposalService.getProposals({
+      avatarAddress: dao.avatar.address,
+      states: [ArcProposalState.Votable],
+    });
+
+    assert.deepEqual(proposals.map((p: ArcProposal) => p.proposalId), [votableProposalId, schemeProposalId]);
+  });
+
+  it("filters by proposer", async () => {
+    let proposals = await ProposalService.getProposals({
+      avatarAddress: dao.avatar.address,
+      proposer: accounts[0],
+    });
+
+    assert.equal(proposals.length, 3);
+
+    proposals = await ProposalService.getProposals({
+      avatarAddress: dao.avatar.address,
+      proposer: accounts[2],
+    });
+
+    assert.equal(proposals.length, 0);
+  });
+
+  it("requires avatarAddress", async () => {
+    try {
+      await ProposalService.getProposals({} as any);
+      assert.fail("should have thrown");
+    } catch (ex) {
+      assert.equal(ex.message, "avatarAddress is not defined");
+    }
+  });
+});
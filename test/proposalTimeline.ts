@@ -0,0 +1,158 @@
+import { BigNumber } from "bignumber.js";
+import { assert } from "chai";
+import { BinaryVoteResult, Hash } from "../lib/commonTypes";
+import { DAO, DaoSchemeInfo } from "../lib/dao";
+import { ProposalStateTransition, ProposalTimeline, ProposalTimelineEvent } from "../lib/proposalTimeline";
+import { PubSubEventService } from "../lib/pubSubEventService";
+import { ContributionRewardWrapper } from "../lib/wrappers/contributionReward";
+import {
+  ExecutionState,
+  GenesisProtocolWrapper,
+  ProposalState,
+} from "../lib/wrappers/genesisProtocol";
+import { WrapperService } from "../lib/wrapperService";
+import * as helpers from "./helpers";
+
+describe("ProposalTimeline", () => {
+  let dao: DAO;
+  let genesisProtocol: GenesisProtocolWrapper;
+  let contributionReward: ContributionRewardWrapper;
+
+  const createProposal = async (): Promise<Hash> => {
+    const result = await contributionReward.proposeContributionReward({
+      avatar: dao.avatar.address,
+      beneficiaryAddress: helpers.SOME_ADDRESS,
+      description: "A new contribution",
+      numberOfPeriods: 1,
+      periodLength: 1,
+      reputationChange: "1",
+    });
+    return result.getProposalIdFromMinedTx();
+  };
+
+  const boost = async (proposalId: Hash): Promise<void> => {
+    const amount: BigNumber = (await genesisProtocol.getThresholdFromProposal(proposalId)).add(web3.toWei(10));
+    await genesisProtocol.stake({ amount, proposalId, vote: BinaryVoteResult.Yes });
+  };
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      },
+      ],
+      schemes: [
+        {
+          name: "ContributionReward",
+          votingMachineParams: {
+            votingMachineName: "GenesisProtocol",
+          },
+        },
+      ],
+    });
+
+    const scheme = await dao.getSchemes("ContributionReward") as Array<DaoSchemeInfo>;
+    contributionReward = scheme[0].wrapper as ContributionRewardWrapper;
+    genesisProtocol = await WrapperService.factories.GenesisProtocol.at(
+      await contributionReward.getVotingMachineAddress(dao.avatar.address));
+  });
+
+  it("has the deadline of a pre-boosted proposal", async () => {
+    const proposalId = await createProposal();
+
+    const timeline = await ProposalTimeline.create(genesisProtocol, proposalId);
+
+    assert.equal(timeline.state, ProposalState.PreBoosted);
+    assert.equal(timeline.transitions.length, 1);
+    assert.equal(timeline.transitions[0].fromState, ProposalState.None);
+    assert.equal(timeline.transitions[0].toState, ProposalState.PreBoosted);
+    assert.equal(timeline.events[0].name, "NewProposal");
+
+    const proposal = await genesisProtocol.getProposal(proposalId);
+    const params = await genesisProtocol.getParameters(proposal.paramsHash);
+    assert.equal(timeline.deadlines.preBoostedPhaseEnds, proposal.submittedTime + params.preBoostedVotePeriodLimit);
+    assert.isUndefined(timeline.deadlines.boostedPhaseEnds);
+  });
+
+  it("reconstructs the transitions of an executed proposal", async () => {
+    const proposalId = await createProposal();
+    await boost(proposalId);
+    await genesisProtocol.vote({ proposalId, vote: BinaryVoteResult.Yes });
+
+    const timeline = await ProposalTimeline.create(genesisProtocol, proposalId);
+
+    assert.deepEqual(timeline.transitions.map((t: ProposalStateTransition) => t.toState),
+      [ProposalState.PreBoosted, ProposalState.Boosted, ProposalState.Executed]);
+    assert.equal(timeline.transitions[2].executionState, ExecutionState.BoostedBarCrossed);
+    assert.equal(timeline.state, ProposalState.Executed);
+    assert.deepEqual(timeline.deadlines, {});
+
+    const names = timeline.events.map((e: ProposalTimelineEvent) => e.name);
+    assert.include(names, "Stake");
+    assert.include(names, "VoteProposal");
+    assert.include(names, "GPExecuteProposal");
+    assert.include(names, "ExecuteProposal");
+  });
+
+  it("publishes new transitions on refresh", async () => {
+    const proposalId = await createProposal();
+    const timeline = await ProposalTimeline.create(genesisProtocol, proposalId);
+    const published = new Array<ProposalStateTransition>();
+
+    const subscription = PubSubEventService.subscribe(ProposalTimeline.stateChangedEventTopic(proposalId),
+      (topic: string, transition: ProposalStateTransition): void => {
+        published.push(transition);
+      });
+
+    try {
+      await boost(proposalId);
+
+      const transitions = await timeline.refresh();
+
+      assert.equal(transitions.length, 1);
+      assert.equal(transitions[0].fromState, ProposalState.PreBoosted);
+      assert.equal(transitions[0].toState, ProposalState.Boosted);
+      assert.equal(timeline.state, ProposalState.Boosted);
+      assert.isOk(timeline.deadlines.boostedPhaseEnds);
+      assert.isOk(timeline.deadlines.quietEndingPeriodBegins);
+
+      await helpers.sleep(50);
+      assert.equal(published.length, 1);
+      assert.equal(published[0].toState, ProposalState.Boosted);
+    } finally {
+      await subscription.unsubscribe();
+    }
+  });
+
+  it("doesn't record events twice when a refresh fails", async () => {
+    const proposalId = await createProposal();
+    const timeline = await ProposalTimeline.create(genesisProtocol, proposalId);
+    const eventCount = timeline.events.length;
+
+    await boost(proposalId);
+
+    const getStateAtBlock = (timeline as any).getStateAtBlock;
+    (timeline as any).getStateAtBlock = (): Promise<ProposalState> => Promise.reject(new Error("failed"));
+
+    let failed = false;
+    try {
+      await timeline.refresh();
+    } catch (ex) {
+      failed = true;
+    } finally {
+      (timeline as any).getStateAtBlock = getStateAtBlock;
+    }
+
+    assert(failed, "refresh should have failed");
+    assert.equal(timeline.events.length, eventCount);
+
+    const transitions = await timeline.refresh();
+
+    assert.equal(transitions.length, 1);
+    assert.equal(transitions[0].toState, ProposalState.Boosted);
+    const stakes = timeline.events.filter((e: ProposalTimelineEvent) => e.name === "Stake");
+    assert.equal(stakes.length, 1);
+  });
+});
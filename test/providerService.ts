@@ -0,0 +1,102 @@
+"use strict";
+import { assert } from "chai";
+import { ConfigService } from "../lib/configService";
+import { FallbackProvider, ProviderChangedEventInfo, ProviderService } from "../lib/providerService";
+import { IEventSubscription } from "../lib/pubSubEventService";
+import { Utils } from "../lib/utils";
+import { UtilsInternal } from "../lib/utilsInternal";
+import "./helpers";
+
+describe("ProviderService", () => {
+
+  const goodUrl = `http://${ConfigService.get("providerUrl")}:${ConfigService.get("providerPort")}`;
+  const badUrl = "http://127.0.0.1:1";
+
+  let provider: FallbackProvider;
+  let subscription: IEventSubscription;
+
+  const sendAsync = (method: string, params: Array<any> = []): Promise<any> =>
+    new Promise<any>((resolve: (result: any) => void, reject: (error: Error) => void): void => {
+      provider.sendAsync({ id: 1, jsonrpc: "2.0", method, params },
+        (error: Error, response: any): void => error ? reject(error) : resolve(response.result));
+    });
+
+  afterEach(async () => {
+    ProviderService.endHealthChecks();
+    if (subscription) {
+      await subscription.unsubscribe();
+      subscription = undefined;
+    }
+  });
+
+  it("fails over to the next endpoint", async () => {
+
+    provider = ProviderService.createProvider([
+      { url: badUrl, priority: 0 },
+      { url: goodUrl, priority: 1 },
+    ]);
+
+    assert.equal(ProviderService.getCurrentUrl(), badUrl);
+
+    const changes = new Array<ProviderChangedEventInfo>();
+    subscription = ProviderService.subscribeToProviderChanges((info: ProviderChangedEventInfo): void => {
+      changes.push(info);
+    });
+
+    assert.equal(Number(await sendAsync("net_version")), await Utils.getNetworkId());
+
+    assert.equal(ProviderService.getCurrentUrl(), goodUrl);
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].url, goodUrl);
+    assert.equal(changes[0].previousUrl, badUrl);
+
+    const status = ProviderService.getEndpointStatus();
+    assert.isFalse(status[0].healthy);
+    assert.isTrue(status[1].healthy);
+  });
+
+  it("sends requests that refer to a filter to the endpoint that created it", async () => {
+
+    provider = ProviderService.createProvider([
+      { url: badUrl, priority: 0 },
+      { url: goodUrl, priority: 1 },
+    ]);
+
+    // the filter would be unknown to any other endpoint, so don't fail over
+    let failedOver = true;
+    await sendAsync("eth_getFilterChanges", ["0x1"]).catch((): void => { failedOver = false; });
+    assert.isFalse(failedOver);
+
+    const filterId = await sendAsync("eth_newBlockFilter");
+    assert.equal(ProviderService.getCurrentUrl(), goodUrl);
+
+    const responses = await new Promise<Array<any>>(
+      (resolve: (result: Array<any>) => void, reject: (error: Error) => void): void => {
+        provider.sendAsync([
+          { id: 1, jsonrpc: "2.0", method: "eth_getFilterChanges", params: [filterId] },
+          { id: 2, jsonrpc: "2.0", method: "net_version", params: [] },
+        ], (error: Error, response: Array<any>): void => error ? reject(error) : resolve(response));
+      });
+
+    assert.equal(responses.length, 2);
+    assert.isArray(responses[0].result);
+    assert.equal(Number(responses[1].result), await Utils.getNetworkId());
+
+    assert.isTrue(await sendAsync("eth_uninstallFilter", [filterId]));
+  });
+
+  it("detects health with block numbers", async () => {
+
+    provider = ProviderService.createProvider([badUrl, goodUrl]);
+
+    await ProviderService.checkHealth();
+
+    assert.equal(ProviderService.getCurrentUrl(), goodUrl);
+
+    const status = ProviderService.getEndpointStatus();
+    assert.isFalse(status[0].healthy);
+    assert.isOk(status[0].lastError);
+    assert.isTrue(status[1].healthy);
+    assert.equal(status[1].blockNumber, await UtilsInternal.lastBlockNumber());
+  });
+});
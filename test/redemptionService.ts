@@ -0,0 +1,125 @@
+import { assert } from "chai";
+import { BinaryVoteResult, Hash } from "../lib/commonTypes";
+import { DAO } from "../lib/dao";
+import { RedemptionPlanItem, RedemptionService } from "../lib/redemptionService";
+import { ContributionRewardFactory, ContributionRewardWrapper } from "../lib/wrappers/contributionReward";
+import * as helpers from "./helpers";
+
+describe("RedemptionService", () => {
+  let dao: DAO;
+  let contributionReward: ContributionRewardWrapper;
+  let proposalId: Hash;
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      },
+      {
+        address: accounts[1],
+        reputation: web3.toWei(100),
+        tokens: web3.toWei(100),
+      },
+      ],
+      schemes: [
+        {
+          name: "ContributionReward",
+          votingMachineParams: {
+            votingMachineName: "GenesisProtocol",
+          },
+        },
+      ],
+    });
+
+    contributionReward = await helpers.getDaoScheme(
+      dao,
+      "ContributionReward",
+      ContributionRewardFactory) as ContributionRewardWrapper;
+
+    const result = await contributionReward.proposeContributionReward({
+      avatar: dao.avatar.address,
+      beneficiaryAddress: accounts[1],
+      description: "A new contribution",
+      nativeTokenReward: web3.toWei(1),
+      numberOfPeriods: 1,
+      periodLength: 0,
+      reputationChange: web3.toWei(1),
+    });
+
+    proposalId = await result.getProposalIdFromMinedTx();
+
+    await helpers.vote(result.votingMachine, proposalId, BinaryVoteResult.Yes, accounts[0]);
+  });
+
+  it("plans to redeem a contribution's rewards using the Redeemer", async () => {
+    const plan = await RedemptionService.getRedemptionPlan({
+      avatarAddress: dao.avatar.address,
+      beneficiaryAddresses: [accounts[1]],
+    });
+
+    const item = plan.find((i: RedemptionPlanItem) => i.proposalId === proposalId);
+    assert.isOk(item);
+    assert.equal(item.method, "Redeemer");
+    assert.equal(web3.fromWei(item.amounts.nativeToken).toNumber(), 1);
+    assert.isAtLeast(web3.fromWei(item.amounts.reputation).toNumber(), 1);
+    assert.isAbove(item.gas, 0);
+    assert(item.valuePerGas.eq(item.value.div(item.gas)));
+  });
+
+  it("redeems the plan", async () => {
+    const plan = await RedemptionService.getRedemptionPlan({
+      avatarAddress: dao.avatar.address,
+      beneficiaryAddresses: [accounts[1]],
+    });
+
+    const balanceBefore = await dao.token.getBalanceOf(accounts[1]);
+
+    const results = await RedemptionService.redeem(plan);
+
+    assert.equal(results.length, plan.length);
+    assert.isTrue(results.every((r: { succeeded: boolean }) => r.succeeded));
+
+    const balanceAfter = await dao.token.getBalanceOf(accounts[1]);
+    assert.equal(web3.fromWei(balanceAfter.sub(balanceBefore)).toNumber(), 1);
+
+    const remaining = await RedemptionService.getRedemptionPlan({
+      avatarAddress: dao.avatar.address,
+      beneficiaryAddresses: [accounts[1]],
+    });
+
+    assert.isUndefined(remaining.find((i: RedemptionPlanItem) => i.proposalId === proposalId));
+  });
+
+  it("leaves out a contribution that only takes reputation away", async () => {
+    const result = await contributionReward.proposeContributionReward({
+      avatar: dao.avatar.address,
+      beneficiaryAddress: accounts[1],
+      description: "A penalty",
+      numberOfPeriods: 1,
+      periodLength: 0,
+      reputationChange: web3.toWei(-1),
+    });
+
+    const penaltyId = await result.getProposalIdFromMinedTx();
+
+    await helpers.vote(result.votingMachine, penaltyId, BinaryVoteResult.Yes, accounts[0]);
+
+    const plan = await RedemptionService.getRedemptionPlan({
+      avatarAddress: dao.avatar.address,
+      beneficiaryAddresses: [accounts[1]],
+    });
+
+    assert.isUndefined(plan.find((i: RedemptionPlanItem) => i.proposalId === penaltyId));
+  });
+
+  it("requires beneficiaryAddresses", async () => {
+    try {
+      await RedemptionService.getRedemptionPlan({ avatarAddress: dao.avatar.address, beneficiaryAddresses: [] });
+      assert.fail("should have thrown");
+    } catch (ex) {
+      assert.equal(ex.message, "beneficiaryAddresses is not defined");
+    }
+  });
+});
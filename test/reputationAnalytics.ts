@@ -0,0 +1,91 @@
+import { BigNumber } from "bignumber.js";
+import { assert } from "chai";
+import { DAO } from "../lib/dao";
+import { ReputationAnalytics, ReputationSnapshot } from "../lib/reputationAnalytics";
+import { UtilsInternal } from "../lib/utilsInternal";
+import * as helpers from "./helpers";
+
+describe("ReputationAnalytics", () => {
+  let dao: DAO;
+  let blockBeforeDao: number;
+  let snapshot: ReputationSnapshot;
+
+  before(async () => {
+    blockBeforeDao = await UtilsInternal.lastBlockNumber();
+
+    dao = await helpers.forgeDao({
+      founders: [
+        { address: accounts[0], reputation: web3.toWei(1000), tokens: web3.toWei(100) },
+        { address: accounts[1], reputation: web3.toWei(2000), tokens: web3.toWei(100) },
+        { address: accounts[2], reputation: web3.toWei(3000), tokens: web3.toWei(100) },
+      ],
+    });
+
+    snapshot = await ReputationAnalytics.getSnapshot({ avatarAddress: dao.avatar.address });
+  });
+
+  it("takes a snapshot of the holders", async () => {
+    assert.equal(snapshot.holders.length, 3);
+    assert.equal(snapshot.holders[0].address, accounts[2]);
+    assert.equal(snapshot.holders[0].share, 0.5);
+    assert.equal(snapshot.holders[2].address, accounts[0]);
+    assert.equal(web3.fromWei(snapshot.totalSupply).toString(), "6000");
+  });
+
+  it("takes a snapshot at an earlier block", async () => {
+    const earlier = await ReputationAnalytics.getSnapshot({
+      avatarAddress: dao.avatar.address,
+      blockNumber: blockBeforeDao,
+    });
+
+    assert.equal(earlier.holders.length, 0);
+    assert(earlier.totalSupply.eq(0));
+  });
+
+  it("computes the concentration", () => {
+    const concentration = ReputationAnalytics.getConcentration(snapshot, [1, 2]);
+
+    assert.equal(concentration.holderCount, 3);
+    assert.closeTo(concentration.gini, 2 / 9, 1e-9);
+    assert.equal(concentration.nakamoto, 2);
+    assert.deepEqual(concentration.topShares, [{ holderCount: 1, share: 0.5 }, { holderCount: 2, share: 5 / 6 }]);
+  });
+
+  it("computes the concentration of an equal distribution", () => {
+    const concentration = ReputationAnalytics.getConcentration(Object.assign({}, snapshot, {
+      holders: snapshot.holders.map((holder: any) => Object.assign({}, holder, { reputation: new BigNumber(1) })),
+    }));
+
+    assert.equal(concentration.gini, 0);
+    assert.equal(concentration.nakamoto, 2);
+  });
+
+  it("diffs two snapshots with the events that caused the changes", async () => {
+    const earlier = await ReputationAnalytics.getSnapshot({
+      avatarAddress: dao.avatar.address,
+      blockNumber: blockBeforeDao,
+    });
+
+    const diff = await ReputationAnalytics.diff(earlier, snapshot);
+
+    assert.equal(diff.changes.length, 3);
+    assert.equal(diff.changes[0].address, accounts[2]);
+    assert.equal(web3.fromWei(diff.changes[0].change).toString(), "3000");
+    assert.equal(diff.changes[0].events.length, 1);
+    assert.equal(diff.changes[0].events[0].type, "Mint");
+    assert(diff.changes[0].events[0].amount.eq(diff.changes[0].change));
+    assert(diff.totalSupplyChange.eq(snapshot.totalSupply));
+  });
+
+  it("exports to CSV and JSON", async () => {
+    const csv = ReputationAnalytics.snapshotToCsv(snapshot).split("\n");
+
+    assert.equal(csv[0], "address,reputation,share");
+    assert.equal(csv[1], `${accounts[2]},${web3.toWei(3000)},0.5`);
+
+    const json = JSON.parse(ReputationAnalytics.toJson(snapshot));
+
+    assert.equal(json.holders[0].reputation, web3.toWei(3000));
+    assert.equal(json.totalSupply, web3.toWei(6000));
+  });
+});
@@ -0,0 +1,55 @@
+import { assert } from "chai";
+import { TransactionReceipt } from "web3";
+import { MnemonicSigner, PrivateKeySigner } from "../lib/signer";
+import { TransactionService } from "../lib/transactionService";
+import { Utils } from "../lib/utils";
+import "./helpers";
+
+/**
+ * the keys of the accounts created by `ganache-cli --deterministic`
+ */
+const ganacheMnemonic = "myth like bonus scare over problem client lizard pioneer submit female collect";
+const ganachePrivateKey = "0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d";
+
+describe("Signer", () => {
+
+  afterEach(() => {
+    Utils.setSigner(undefined);
+  });
+
+  it("derives addresses from private keys and mnemonics", async () => {
+    assert.equal(await new PrivateKeySigner(ganachePrivateKey).getAddress(), accounts[0].toLowerCase());
+    assert.equal(await new MnemonicSigner(ganacheMnemonic).getAddress(), accounts[0].toLowerCase());
+    assert.equal(await new MnemonicSigner(ganacheMnemonic, 1).getAddress(), accounts[1].toLowerCase());
+  });
+
+  it("refuses to sign for another account", async () => {
+    const signer = new PrivateKeySigner(ganachePrivateKey);
+    let failed = false;
+    try {
+      await signer.signTransaction({ from: accounts[1], gas: 21000, gasPrice: 1, nonce: 0, value: 0 });
+    } catch (ex) {
+      failed = true;
+    }
+    assert(failed, "signTransaction should have failed");
+  });
+
+  it("sends signed transactions", async () => {
+    Utils.setSigner(new MnemonicSigner(ganacheMnemonic));
+
+    assert.equal(await Utils.getDefaultAccount(), accounts[0].toLowerCase());
+
+    const web3 = await Utils.getWeb3();
+    const balance = await Utils.getEthBalance(accounts[1]);
+
+    const txHash = await TransactionService.sendSignedTransaction({
+      gas: 21000,
+      to: accounts[1],
+      value: web3.toWei(1),
+    });
+
+    const receipt = await TransactionService.watchForMinedTransaction(txHash) as TransactionReceipt;
+    assert.equal(receipt.from, accounts[0].toLowerCase());
+    assert((await Utils.getEthBalance(accounts[1])).eq(balance.add(web3.toWei(1))), "balance should have increased");
+  });
+});
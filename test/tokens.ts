@@ -1,6 +1,7 @@
 "use strict";
 import { BigNumber } from "bignumber.js";
 import { assert } from "chai";
+import { SimulatedTransactionResult } from "../lib/iContractWrapperBase";
 import { TransactionReceiptsEventInfo, TransactionService } from "../lib/transactionService";
 import { Utils, Web3 } from "../lib/utils";
 import { UtilsInternal } from "../lib/utilsInternal";
@@ -115,6 +116,48 @@ describe("Tokens", () => {
     assert.equal(eventsReceived.length, 1, "didn't receive the right number of txTracking events");
   });
 
+  it("can simulate transfers", async () => {
+
+    const amount = web3.toWei(1);
+    const balance = await mintableToken.getBalanceOf(accounts[1]);
+
+    const eventsReceived = new Array<string>();
+
+    const subscription = TransactionService.subscribe(
+      ["TxTracking.MintableToken.transfer"],
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        eventsReceived.push(topic);
+      });
+
+    let result: SimulatedTransactionResult;
+
+    try {
+      result = await mintableToken.transfer({ to: accounts[1], amount, simulate: true }) as SimulatedTransactionResult;
+    } finally {
+      await subscription.unsubscribe(0);
+    }
+
+    assert(result instanceof SimulatedTransactionResult);
+    assert.isUndefined(result.tx);
+    assert(result.succeeded, "transfer should succeed");
+    assert(result.gas > 21000, "gas should have been estimated");
+    assert.equal(result.events.length, 1);
+    assert.equal(result.events[0].event, "Transfer");
+    assert.equal(result.events[0].args.value.toString(), amount);
+
+    assert((await mintableToken.getBalanceOf(accounts[1])).eq(balance), "balance should not have changed");
+    assert.equal(eventsReceived.length, 0, "shouldn't have received txTracking events");
+
+    result = await mintableToken.transfer({
+      amount: web3.toWei("1000000"),
+      simulate: true,
+      to: accounts[1],
+    }) as SimulatedTransactionResult;
+
+    assert.isFalse(result.succeeded, "transfer should fail");
+    assert.isUndefined(result.events);
+  });
+
   it("can mint", async () => {
 
     const amount = web3.toWei(1);
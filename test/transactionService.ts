@@ -1,7 +1,18 @@
 import { assert } from "chai";
 import { TransactionReceipt } from "web3";
 import { BinaryVoteResult, fnVoid } from "../lib/commonTypes";
-import { TransactionReceiptsEventInfo, TransactionService, TransactionStage } from "../lib/transactionService";
+import {
+  ArcTransactionRevertedError,
+  TransactionReceiptsEventInfo,
+  TransactionService,
+  TransactionStage
+} from "../lib/transactionService";
+import {
+  InMemoryTransactionStore,
+  PendingTransactionInfo,
+  SerializingTransactionStore
+} from "../lib/transactionStore";
+import { Utils } from "../lib/utils";
 import { UtilsInternal } from "../lib/utilsInternal";
 import {
   AbsoluteVoteWrapper
@@ -193,6 +204,48 @@ describe("TransactionService", () => {
     assert.equal(eventsReceived[0], "TxTracking.AbsoluteVote.vote.sent.failed", "didn't receive the failed event");
   });
 
+  it("fails with ArcTransactionRevertedError when a transaction reverts", async () => {
+
+    const av = WrapperService.wrappers.AbsoluteVote;
+    let error: Error;
+
+    const payloads = new Array<TransactionReceiptsEventInfo>();
+
+    const subscription = TransactionService.subscribe(
+      ["TxTracking.AbsoluteVote.vote.sent.failed"],
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        payloads.push(txEventInfo);
+      });
+
+    try {
+      await av.vote({ vote: 0, proposalId: helpers.SOME_HASH });
+    } catch (ex) {
+      error = ex;
+    } finally {
+      await subscription.unsubscribe(0);
+    }
+
+    assert(error instanceof ArcTransactionRevertedError, `wrong exception: ${error}`);
+    assert.equal(payloads.length, 1, "didn't receive the right number of events");
+    assert.equal(payloads[0].error, error);
+  });
+
+  it("decodes revert reasons", async () => {
+    const reason = "not enough reputation";
+    const data = "0x08c379a0" +
+      "0000000000000000000000000000000000000000000000000000000000000020" +
+      "0000000000000000000000000000000000000000000000000000000000000015" +
+      Buffer.from(reason).toString("hex").padEnd(64, "0");
+
+    assert.equal(UtilsInternal.decodeRevertReason(data), reason);
+    assert.equal(UtilsInternal.decodeRevertReason({ data, message: "execution reverted" }), reason);
+    assert.equal(UtilsInternal.decodeRevertReason(
+      new Error(`VM Exception while processing transaction: revert ${reason}`)), reason);
+    assert.isUndefined(UtilsInternal.decodeRevertReason("0x"));
+    assert.isUndefined(
+      UtilsInternal.decodeRevertReason(new Error("VM Exception while processing transaction: revert")));
+  });
+
   it("can publish from subclasses", async () => {
 
     const eventsReceived = new Array<TransactionReceiptsEventInfo>();
@@ -398,4 +451,207 @@ describe("TransactionService", () => {
     }
     assert.equal(txCount, 19);
   });
+
+  it("forgets pending transactions once confirmed", async () => {
+
+    const av = WrapperService.wrappers.AbsoluteVote;
+    const store = new InMemoryTransactionStore();
+    const saveStore = TransactionService.getTransactionStore();
+    let pending: PendingTransactionInfo;
+    let confirmed = false;
+
+    const subscription = TransactionService.subscribe(
+      ["TxTracking.AbsoluteVote.setParameters.confirmed"],
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        confirmed = true;
+      });
+
+    try {
+      TransactionService.setTransactionStore(store);
+
+      const result = await av.setParameters({ ownerVote: true, votePerc: 50 });
+
+      await helpers.sleep(100);
+      pending = await store.get(result.tx);
+
+      await result.watchForTxConfirmed();
+
+      for (let i = 0; (i < 20) && !confirmed; ++i) {
+        await helpers.sleep(100);
+      }
+    } finally {
+      TransactionService.setTransactionStore(saveStore);
+      await subscription.unsubscribe(0);
+    }
+
+    assert.isOk(pending, "transaction was not remembered");
+    assert.equal(pending.functionName, "AbsoluteVote.setParameters");
+    assert.equal(pending.contractName, "AbsoluteVote");
+    assert(confirmed, "didn't receive the confirmed event");
+    assert.equal((await store.getAll()).length, 0, "transaction was not forgotten");
+  });
+
+  it("resumes pending transactions from the store", async () => {
+
+    const av = WrapperService.wrappers.AbsoluteVote;
+    const store = new InMemoryTransactionStore();
+    const saveStore = TransactionService.getTransactionStore();
+    const eventsReceived = new Array<TransactionReceiptsEventInfo>();
+
+    const result = await av.setParameters({ ownerVote: true, votePerc: 50 });
+    await result.watchForTxConfirmed();
+
+    await store.set({
+      contractAddress: av.address,
+      contractName: "AbsoluteVote",
+      eventStack: [{
+        functionName: "AbsoluteVote.setParameters",
+        invocationKey: 42,
+        options: { ownerVote: true, votePerc: 50 },
+        txCount: 1,
+      }],
+      functionName: "AbsoluteVote.setParameters",
+      invocationKey: 42,
+      networkId: await Utils.getNetworkId(),
+      sentAt: Date.now(),
+      txHash: result.tx,
+    });
+
+    const subscription = TransactionService.subscribe(
+      ["TxTracking.AbsoluteVote.setParameters"],
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        eventsReceived.push(txEventInfo);
+      });
+
+    try {
+      TransactionService.setTransactionStore(store);
+
+      const count = await TransactionService.resumePendingTransactions();
+      assert.equal(count, 1, "didn't resume the pending transaction");
+
+      for (let i = 0; (i < 20) && (eventsReceived.length < 3); ++i) {
+        await helpers.sleep(100);
+      }
+    } finally {
+      TransactionService.setTransactionStore(saveStore);
+      await subscription.unsubscribe(0);
+    }
+
+    assert.equal(eventsReceived.length, 3, "didn't receive the right number of events");
+    assert.equal(eventsReceived[0].txStage, TransactionStage.sent);
+    assert.equal(eventsReceived[1].txStage, TransactionStage.mined);
+    assert.equal(eventsReceived[2].txStage, TransactionStage.confirmed);
+    assert.equal(eventsReceived[2].invocationKey, 42);
+    assert.equal(eventsReceived[2].tx, result.tx);
+    assert.equal((await store.getAll()).length, 0, "transaction was not forgotten");
+  });
+
+  it("resumes a pending transaction whose contract is unknown", async () => {
+
+    const av = WrapperService.wrappers.AbsoluteVote;
+    const store = new InMemoryTransactionStore();
+    const saveStore = TransactionService.getTransactionStore();
+    const eventsReceived = new Array<TransactionReceiptsEventInfo>();
+
+    const result = await av.setParameters({ ownerVote: true, votePerc: 50 });
+    await result.watchForTxConfirmed();
+
+    await store.set({
+      contractAddress: av.address,
+      contractName: "NoSuchContract",
+      eventStack: [{
+        functionName: "AbsoluteVote.setParameters",
+        invocationKey: 43,
+        options: { ownerVote: true, votePerc: 50 },
+        txCount: 1,
+      }],
+      functionName: "AbsoluteVote.setParameters",
+      invocationKey: 43,
+      networkId: await Utils.getNetworkId(),
+      sentAt: Date.now(),
+      txHash: result.tx,
+    });
+
+    const subscription = TransactionService.subscribe(
+      ["TxTracking.AbsoluteVote.setParameters"],
+      (topic: string, txEventInfo: TransactionReceiptsEventInfo) => {
+        eventsReceived.push(txEventInfo);
+      });
+
+    try {
+      TransactionService.setTransactionStore(store);
+
+      assert.equal(await TransactionService.resumePendingTransactions(), 1);
+
+      for (let i = 0; (i < 20) && (eventsReceived.length < 3); ++i) {
+        await helpers.sleep(100);
+      }
+    } finally {
+      TransactionService.setTransactionStore(saveStore);
+      await subscription.unsubscribe(0);
+    }
+
+    assert.deepEqual(eventsReceived.map((info: TransactionReceiptsEventInfo) => info.txStage),
+      [TransactionStage.sent, TransactionStage.mined, TransactionStage.confirmed]);
+  });
+
+  it("doesn't lose persisted transactions when saving concurrently", async () => {
+
+    const pendingInfo = (txHash: string): PendingTransactionInfo => ({
+      eventStack: [],
+      functionName: "AbsoluteVote.setParameters",
+      invocationKey: 1,
+      networkId: 1,
+      sentAt: Date.now(),
+      txHash,
+    });
+
+    class SlowStore extends SerializingTransactionStore {
+      public serialized: string = JSON.stringify([pendingInfo("0x1")]);
+
+      protected async read(): Promise<string | undefined> {
+        await helpers.sleep(50);
+        return this.serialized;
+      }
+
+      protected async write(serialized: string): Promise<void> {
+        this.serialized = serialized;
+      }
+    }
+
+    const store = new SlowStore();
+
+    await Promise.all([store.set(pendingInfo("0x2")), store.set(pendingInfo("0x3"))]);
+
+    assert.deepEqual(
+      JSON.parse(store.serialized).map((info: PendingTransactionInfo) => info.txHash).sort(),
+      ["0x1", "0x2", "0x3"]);
+  });
+
+  it("cannot speed up or cancel a mined transaction", async () => {
+
+    const txHash = web3.eth.sendTransaction({
+      from: accounts[0],
+      to: accounts[5],
+      value: web3.toWei(0.00001, "ether"),
+    });
+
+    await TransactionService.watchForMinedTransaction(txHash);
+
+    try {
+      await TransactionService.speedUp(txHash, web3.toWei(100, "gwei"));
+      assert.fail("speedUp should have thrown an exception");
+    } catch (ex) {
+      assert(ex.message.includes("already been mined"), `wrong exception: ${ex.message}`);
+    }
+
+    try {
+      await TransactionService.cancel(txHash);
+      assert.fail("cancel should have thrown an exception");
+    } catch (ex) {
+      assert(ex.message.includes("already been mined"), `wrong exception: ${ex.message}`);
+    }
+
+    assert.equal(TransactionService.getReplacements(txHash).length, 0);
+  });
 });
@@ -69,6 +69,24 @@ describe("Misc", () => {
     assert(balance.gt(0));
   });
 
+  it("gets the chain id, or the chainId setting when the node has no eth_chainId", async () => {
+    const response: any = await new Promise<any>((resolve: (response: any) => void): void => {
+      web3.currentProvider.sendAsync({ id: 1, jsonrpc: "2.0", method: "eth_chainId", params: [] } as any,
+        (error: Error, result: any): void => resolve(error ? { error } : result));
+    });
+    const nodeChainId = response.error ? undefined : Number(response.result);
+
+    const saveChainId = ConfigService.get("chainId");
+    ConfigService.set("chainId", 1337);
+    try {
+      const chainId = await Utils.getChainId();
+      assert.isNumber(chainId);
+      assert.equal(chainId, (nodeChainId === undefined) ? 1337 : nodeChainId);
+    } finally {
+      ConfigService.set("chainId", saveChainId);
+    }
+  });
+
   it("LoggingService can stringify circular object", async () => {
     const objA: any = {};
     const objB: any = { objA };
@@ -0,0 +1,109 @@
+import { assert } from "chai";
+import { DAO } from "../lib/dao";
+import { VestingAgreementBatch, VestingAgreementBatchResult } from "../lib/vestingAgreementBatch";
+import { VestingSchemeFactory, VestingSchemeWrapper } from "../lib/wrappers/vestingScheme";
+import * as helpers from "./helpers";
+
+describe("VestingAgreementBatch", () => {
+  let dao: DAO;
+  let vestingScheme: VestingSchemeWrapper;
+
+  const csv = (): string => [
+    "beneficiaryAddress,amountPerPeriod,periodLength,numOfAgreedPeriods,cliffInPeriods," +
+    "returnOnCancelAddress,signaturesReqToCancel,signers",
+    `${accounts[1]},${web3.toWei(10)},10,2,0,${helpers.SOME_ADDRESS},1,${accounts[0]}`,
+    `${accounts[2]},${web3.toWei(5)},10,4,1,${helpers.SOME_ADDRESS},2,"${accounts[0]}; ${accounts[1]}"`,
+  ].join("\n");
+
+  before(async () => {
+    dao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      }],
+      schemes: [{
+        name: "VestingScheme",
+        votingMachineParams: {
+          ownerVote: false,
+        },
+      }],
+    });
+
+    const schemeInDao = await dao.getSchemes("VestingScheme");
+    vestingScheme = await VestingSchemeFactory.at(schemeInDao[0].address);
+  });
+
+  it("parses CSV", () => {
+    const rows = VestingAgreementBatch.parse(csv());
+
+    assert.equal(rows.length, 2);
+    assert.equal(rows[0].beneficiaryAddress, accounts[1]);
+    assert.equal(rows[0].amountPerPeriod, web3.toWei(10));
+    assert.equal(rows[0].numOfAgreedPeriods, 2);
+    assert.deepEqual(rows[0].signers, [accounts[0]]);
+    assert.deepEqual(rows[1].signers, [accounts[0], accounts[1]]);
+    assert.isUndefined(rows[1].startingBlock);
+  });
+
+  it("rejects unknown CSV columns", () => {
+    assert.throws(() => VestingAgreementBatch.parse("beneficiary,amountPerPeriod\n"), "unknown columns: beneficiary");
+  });
+
+  it("reports every invalid row", async () => {
+    const rows = VestingAgreementBatch.parse(csv());
+    rows[0].periodLength = 0;
+    rows[1].signaturesReqToCancel = 3;
+
+    const errors = await VestingAgreementBatch.validate(vestingScheme, rows);
+
+    assert.deepEqual(errors, [
+      "row 1: periodLength must be greater than zero",
+      "row 2: the number of signatures required to cancel cannpt be greater than the number of signers",
+    ]);
+  });
+
+  it("creates agreements and resumes", async () => {
+    const rows = VestingAgreementBatch.parse(csv());
+    const progress = new Array<Array<VestingAgreementBatchResult>>();
+
+    let results = await VestingAgreementBatch.run(vestingScheme, rows.slice(0, 1), {
+      onProgress: (r: Array<VestingAgreementBatchResult>): void => { progress.push(JSON.parse(JSON.stringify(r))); },
+      token: dao.token.address,
+    });
+
+    assert.equal(results.length, 1);
+    assert.isOk(progress.length);
+    assert.isOk(progress[0][0].tx);
+
+    results = await VestingAgreementBatch.run(vestingScheme, rows, {
+      previousResults: results,
+      token: dao.token.address,
+    });
+
+    assert.equal(results.length, 2);
+    assert.equal(results[1].beneficiaryAddress, accounts[2]);
+
+    for (const result of results) {
+      const agreement = await vestingScheme.getAgreement(result.agreementId);
+      assert.equal(agreement.beneficiaryAddress, rows[result.row - 1].beneficiaryAddress);
+    }
+
+    assert.notEqual(results[0].agreementId, results[1].agreementId);
+  });
+
+  it("sends again a row whose transaction can't be found", async () => {
+    const rows = VestingAgreementBatch.parse(csv()).slice(0, 1);
+    const droppedTx = "0x" + "1".repeat(64);
+
+    const results = await VestingAgreementBatch.run(vestingScheme, rows, {
+      previousResults: [{ beneficiaryAddress: rows[0].beneficiaryAddress, row: 1, tx: droppedTx }],
+      token: dao.token.address,
+    });
+
+    assert.notEqual(results[0].tx, droppedTx);
+    assert.isNumber(results[0].agreementId);
+    const agreement = await vestingScheme.getAgreement(results[0].agreementId);
+    assert.equal(agreement.beneficiaryAddress, rows[0].beneficiaryAddress);
+  });
+});
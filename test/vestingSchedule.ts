@@ -0,0 +1,99 @@
+import { assert } from "chai";
+import { DAO } from "../lib/dao";
+import { VestingAgreementSchedule, VestingSchedule } from "../lib/vestingSchedule";
+import { VestingSchemeFactory, VestingSchemeWrapper } from "../lib/wrappers/vestingScheme";
+import * as helpers from "./helpers";
+
+describe("VestingSchedule", () => {
+  let dao: DAO;
+  let vestingScheme: VestingSchemeWrapper;
+  let agreementId: number;
+
+  before(async () => {
+
+    dao = await helpers.forgeDao({
+      founders: [{
+        address: accounts[0],
+        reputation: web3.toWei(1000),
+        tokens: web3.toWei(1000),
+      }],
+      schemes: [{
+        name: "VestingScheme",
+        votingMachineParams: {
+          ownerVote: false,
+        },
+      }],
+    });
+
+    const schemeInDao = await dao.getSchemes("VestingScheme");
+    vestingScheme = await VestingSchemeFactory.at(schemeInDao[0].address);
+
+    const result = await vestingScheme.create({
+      amountPerPeriod: web3.toWei(10),
+      beneficiaryAddress: accounts[1],
+      cliffInPeriods: 0,
+      numOfAgreedPeriods: 3,
+      periodLength: 100,
+      returnOnCancelAddress: helpers.SOME_ADDRESS,
+      signaturesReqToCancel: 2,
+      signers: [accounts[0], accounts[2]],
+      token: await dao.token.address,
+    });
+
+    agreementId = await result.getAgreementIdFromMinedTx();
+  });
+
+  it("computes the schedule of a new agreement", async () => {
+    const schedule = await VestingSchedule.get(vestingScheme, agreementId);
+    const startingBlock = schedule.startingBlock.toNumber();
+
+    assert.equal(web3.fromWei(schedule.totalAmount).toNumber(), 30);
+    assert.equal(web3.fromWei(schedule.vestedAmount).toNumber(), 0);
+    assert.equal(web3.fromWei(schedule.unvestedAmount).toNumber(), 30);
+    assert.equal(web3.fromWei(schedule.collectableAmount).toNumber(), 0);
+    assert.equal(schedule.nextUnlockBlock, startingBlock + 100);
+    assert.isOk(schedule.nextUnlockDate);
+    assert.isFalse(schedule.cancellation.cancelled);
+    assert.equal(schedule.cancellation.signaturesReqToCancel, 2);
+    assert.deepEqual(schedule.cancellation.signatures, []);
+    assert.deepEqual(schedule.cancellation.signers, [accounts[0], accounts[2]]);
+  });
+
+  it("computes vested amounts as of a given block", async () => {
+    const agreement = await vestingScheme.getAgreement(agreementId);
+    const startingBlock = agreement.startingBlock.toNumber();
+
+    let amounts = VestingSchedule.computeAmounts(agreement, startingBlock + 150);
+    assert.equal(web3.fromWei(amounts.vestedAmount).toNumber(), 10);
+    assert.equal(web3.fromWei(amounts.collectableAmount).toNumber(), 10);
+    assert.equal(amounts.nextUnlockBlock, startingBlock + 200);
+
+    amounts = VestingSchedule.computeAmounts(agreement, startingBlock + 1000);
+    assert.equal(web3.fromWei(amounts.vestedAmount).toNumber(), 30);
+    assert.equal(web3.fromWei(amounts.unvestedAmount).toNumber(), 0);
+    assert.isUndefined(amounts.nextUnlockBlock);
+  });
+
+  it("tracks signatures to cancel", async () => {
+    await (await vestingScheme.signToCancel({ agreementId })).watchForTxMined();
+
+    let schedule = await VestingSchedule.get(vestingScheme, agreementId);
+    assert.deepEqual(schedule.cancellation.signatures, [accounts[0]]);
+
+    await (await vestingScheme.revokeSignToCancel({ agreementId })).watchForTxMined();
+
+    schedule = await VestingSchedule.get(vestingScheme, agreementId);
+    assert.deepEqual(schedule.cancellation.signatures, []);
+  });
+
+  it("lists agreements by beneficiary and signer", async () => {
+    let schedules = await VestingSchedule.getAgreements(vestingScheme, { beneficiaryAddress: accounts[1] });
+    assert.isOk(schedules.find((s: VestingAgreementSchedule) => s.agreementId === agreementId));
+
+    schedules = await VestingSchedule.getAgreements(vestingScheme, { signerAddress: accounts[2] });
+    assert.isOk(schedules.find((s: VestingAgreementSchedule) => s.agreementId === agreementId));
+
+    schedules = await VestingSchedule.getAgreements(vestingScheme, { beneficiaryAddress: accounts[3] });
+    assert.equal(schedules.length, 0);
+  });
+});
@@ -3,9 +3,11 @@ import { assert } from "chai";
 import {
   DecodedLogEntryEvent,
 } from "web3";
+import { PubSubEventService } from "../lib/pubSubEventService";
 import { Utils } from "../lib/utils";
 import { UtilsInternal } from "../lib/utilsInternal";
 import {
+  EventFetchProgress,
   Web3EventService
 } from "../lib/web3EventService";
 import {
@@ -28,6 +30,150 @@ describe("Web3EventService", () => {
     }
   };
 
+  it("can get events in chunks of blocks", async () => {
+
+    const token = await StandardTokenFactory.at(await Utils.getGenTokenAddress());
+    const initialBlockNumber = await UtilsInternal.lastBlockNumber();
+
+    for (let i = 0; i < 3; ++i) {
+      await (await token.approve({
+        amount: web3.toWei(i + 1),
+        owner: accounts[4],
+        spender: accounts[0],
+      })).watchForTxMined();
+      await makeTransactions(2);
+    }
+
+    const expected = await token.Approval(
+      { owner: accounts[4] }, { fromBlock: initialBlockNumber, chunkSize: 0 }).get();
+
+    const progress = new Array<EventFetchProgress>();
+
+    const events = await token.Approval(
+      { owner: accounts[4] },
+      {
+        chunkSize: 2,
+        fromBlock: initialBlockNumber,
+        onProgress: (p: EventFetchProgress): void => { progress.push(p); },
+      }).get();
+
+    assert.equal(expected.length, 3);
+    assert.deepEqual(
+      events.map((event: DecodedLogEntryEvent<ApprovalEventResult>) => event.transactionHash),
+      expected.map((event: DecodedLogEntryEvent<ApprovalEventResult>) => event.transactionHash));
+
+    assert(progress.length > 1, "should have fetched more than one chunk");
+    const lastProgress = progress[progress.length - 1];
+    assert.equal(lastProgress.fromBlock, initialBlockNumber);
+    assert.equal(lastProgress.lastBlockFetched, lastProgress.toBlock);
+    assert.equal(lastProgress.eventCount, 3);
+  });
+
+  describe("chain reorganizations", () => {
+
+    let watchCallback: (error: Error, log: any) => Promise<void>;
+
+    const fakeBaseEvent = (): any => ({
+      /* tslint:disable-next-line:no-empty */
+      stopWatching: (): void => { },
+      watch: (callback: (error: Error, log: any) => Promise<void>): void => { watchCallback = callback; },
+    });
+
+    const makeEvent = (transactionHash: string, blockNumber: number, blockHash: string, removed: boolean = false)
+      : any => ({ args: {}, blockHash, blockNumber, event: "Fake", logIndex: 0, removed, transactionHash });
+
+    it("notifies watchers when an event is removed", async () => {
+
+      const received = new Array<DecodedLogEntryEvent<any>>();
+
+      new Web3EventService().createEventFetcherFactory<any>(fakeBaseEvent)()
+        .watch((error: Error, event: DecodedLogEntryEvent<any>) => { received.push(event); });
+
+      await watchCallback(null, makeEvent("0x1", 10, "0xa"));
+      // never delivered, so should be ignored
+      await watchCallback(null, makeEvent("0x2", 10, "0xa", true));
+      await watchCallback(null, makeEvent("0x1", 10, "0xa", true));
+      // restored to the chain
+      await watchCallback(null, makeEvent("0x1", 11, "0xb"));
+      // moved to another block without the node telling us it was removed
+      await watchCallback(null, makeEvent("0x1", 11, "0xc"));
+
+      assert.deepEqual(
+        received.map((event: DecodedLogEntryEvent<any>) => [event.blockHash, event.removed]),
+        [["0xa", false], ["0xa", true], ["0xb", false], ["0xb", true], ["0xc", false]]);
+    });
+
+    it("retransforms entities when an event is removed", async () => {
+
+      const received = new Array<[string, boolean]>();
+      const web3EventService = new Web3EventService();
+
+      web3EventService.createEntityFetcherFactory<string, any>(
+        web3EventService.createEventFetcherFactory<any>(fakeBaseEvent),
+        (event: DecodedLogEntryEvent<any>): Promise<string> =>
+          Promise.resolve(`${event.transactionHash}${event.removed ? " removed" : ""}`))()
+        .watch((error: Error, entity: string, removed: boolean) => { received.push([entity, removed]); });
+
+      await watchCallback(null, makeEvent("0x1", 10, "0xa"));
+      // entities are delivered asynchronously
+      await UtilsInternal.sleep(10);
+      await watchCallback(null, makeEvent("0x3", 10, "0xd"));
+      await UtilsInternal.sleep(10);
+
+      assert.deepEqual(received, [["0x1", false], ["0x1 removed", true], ["0x3", false]]);
+    });
+
+    it("publishes removed events only to the removed topic", async () => {
+
+      const token = await StandardTokenFactory.at(await Utils.getGenTokenAddress());
+      const published = new Array<DecodedLogEntryEvent<ApprovalEventResult>>();
+      const removed = new Array<DecodedLogEntryEvent<ApprovalEventResult>>();
+
+      const approve = async (amount: number): Promise<void> => {
+        await (await token.approve({
+          amount: web3.toWei(amount),
+          owner: accounts[5],
+          spender: accounts[0],
+        })).watchForTxMined();
+      };
+
+      const waitFor = async (condition: () => boolean): Promise<void> => {
+        const timeout = Date.now() + 20000;
+        while (!condition()) {
+          assert(Date.now() < timeout, "timed out waiting for the events");
+          await UtilsInternal.sleep(100);
+        }
+      };
+
+      const removedSubscription = PubSubEventService.subscribe("removed.testReorg.Approval",
+        (topic: string, event: DecodedLogEntryEvent<ApprovalEventResult>): void => { removed.push(event); });
+
+      const subscription = token.Approval({ owner: accounts[5] }, { fromBlock: "latest" })
+        .subscribe("testReorg.Approval",
+          (topic: string, event: DecodedLogEntryEvent<ApprovalEventResult>): void => { published.push(event); });
+
+      try {
+        const snapshotId = await UtilsInternal.sendRpc("evm_snapshot");
+        await approve(1);
+        await waitFor(() => published.length === 1);
+
+        // reorganize the chain, mining another approval in place of the first one
+        await UtilsInternal.sendRpc("evm_revert", [snapshotId]);
+        await approve(2);
+        await waitFor(() => published.length === 2);
+      } finally {
+        subscription.unsubscribe();
+        removedSubscription.unsubscribe();
+      }
+
+      assert.equal(removed.length, 1);
+      assert.equal(removed[0].transactionHash, published[0].transactionHash);
+      assert(removed[0].removed);
+      assert.equal(published[0].blockNumber, published[1].blockNumber);
+      assert(published.every((event: DecodedLogEntryEvent<ApprovalEventResult>) => !event.removed));
+    });
+  });
+
   it("can get entity with requiredDepth", async () => {
 
     const tokenAddress = await Utils.getGenTokenAddress();
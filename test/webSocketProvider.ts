@@ -0,0 +1,70 @@
+"use strict";
+import { assert } from "chai";
+import { ConfigService } from "../lib/configService";
+import { Utils } from "../lib/utils";
+import { WebSocketProvider, WebSocketSubscription } from "../lib/webSocketProvider";
+import * as helpers from "./helpers";
+
+describe("WebSocketProvider", () => {
+
+  let provider: WebSocketProvider;
+  let savedReconnectDelay: number;
+
+  const sendAsync = (method: string, params: Array<any> = []): Promise<any> =>
+    new Promise<any>((resolve: (result: any) => void, reject: (error: Error) => void): void => {
+      provider.sendAsync({ id: 1, jsonrpc: "2.0", method, params },
+        (error: Error, response: any): void => error ? reject(error) : resolve(response.result));
+    });
+
+  const nextBlockNumber = (subscriptionCallback: (callback: (header: any) => void) => void): Promise<number> =>
+    new Promise<number>((resolve: (blockNumber: number) => void): void => {
+      subscriptionCallback((header: any): void => { resolve(Number(header.number)); });
+    });
+
+  beforeEach(() => {
+    savedReconnectDelay = ConfigService.get("webSocketReconnectDelay");
+    ConfigService.set("webSocketReconnectDelay", 10);
+    provider = new WebSocketProvider(`ws://${ConfigService.get("providerUrl")}:${ConfigService.get("providerPort")}`);
+  });
+
+  afterEach(() => {
+    provider.close();
+    ConfigService.set("webSocketReconnectDelay", savedReconnectDelay);
+  });
+
+  it("can send requests", async () => {
+    assert.equal(Number(await sendAsync("net_version")), await Utils.getNetworkId());
+  });
+
+  it("re-establishes subscriptions after reconnecting", async () => {
+
+    let onHeader: (header: any) => void;
+    const subscription: WebSocketSubscription =
+      await provider.subscribe(["newHeads"], (header: any): void => { if (onHeader) { onHeader(header); } });
+
+    let blockNumber = nextBlockNumber((callback: (header: any) => void): void => { onHeader = callback; });
+    await helpers.increaseTime(1);
+    const firstBlockNumber = await blockNumber;
+    assert(firstBlockNumber > 0);
+
+    const reconnected = new Promise<void>((resolve: () => void): void => {
+      const reconnectedSubscription = provider.subscribeToReconnections((): void => {
+        reconnectedSubscription.unsubscribe();
+        resolve();
+      });
+    });
+
+    // drop the connection
+    (provider as any).socket.close();
+
+    await reconnected;
+
+    assert(provider.isConnected());
+
+    blockNumber = nextBlockNumber((callback: (header: any) => void): void => { onHeader = callback; });
+    await helpers.increaseTime(1);
+    assert.equal(await blockNumber, firstBlockNumber + 1);
+
+    await subscription.unsubscribe();
+  });
+});